@@ -10,6 +10,7 @@ import Events from "./pages/Events";
 import EventScores from "./pages/EventScores";
 import EventDetails from "./pages/EventDetails";
 import BulkOperations from "./pages/BulkOperations";
+import OCRTools from "./pages/OCRTools";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +29,7 @@ const App = () => (
           <Route path="/events/:eventId/scores" element={<EventScores />} />
           <Route path="/events/:eventId/details" element={<EventDetails />} />
           <Route path="/bulk-operations" element={<BulkOperations />} />
+          <Route path="/ocr-tools" element={<OCRTools />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -2,7 +2,7 @@ import { ReactNode } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { Button } from "@/components/ui/button";
-import { Trophy, Users, LogOut, Shield, Calendar, Package, LayoutDashboard } from "lucide-react";
+import { Trophy, Users, LogOut, Shield, Calendar, Package, LayoutDashboard, ScanText } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 
 interface LayoutProps {
@@ -102,6 +102,18 @@ const Layout = ({ children }: LayoutProps) => {
                 </Button>
               </Link>
             )}
+            {(isAdmin || isLeader) && (
+              <Link to="/ocr-tools">
+                <Button
+                  variant={isActive("/ocr-tools") ? "default" : "ghost"}
+                  size="sm"
+                  className="rounded-b-none"
+                >
+                  <ScanText className="mr-2 h-4 w-4" />
+                  OCR Tools
+                </Button>
+              </Link>
+            )}
           </div>
         </div>
       </nav>
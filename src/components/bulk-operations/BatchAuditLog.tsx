@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -5,7 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "sonner";
 import { format } from "date-fns";
-import { Undo2, Loader2 } from "lucide-react";
+import { Undo2, Loader2, AlertTriangle } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -15,8 +16,14 @@ import {
   AlertDialogFooter,
   AlertDialogHeader,
   AlertDialogTitle,
-  AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  RollbackChange,
+  RollbackPreview,
+  previewRollback,
+  rollbackBatchOperation,
+  rollbackFieldChanges,
+} from "@/lib/batchOperations";
 
 interface BatchOperation {
   id: string;
@@ -28,6 +35,92 @@ interface BatchOperation {
   rolled_back_at: string | null;
 }
 
+const TABLE_LABELS: Record<string, string> = {
+  scores: "Score",
+  raffle_weights: "Raffle weight",
+  raffle_entries: "Raffle entry",
+  raffle_entries_history: "Weight history",
+  players: "Player",
+  ledger_transactions: "Transaction",
+  raffles: "Raffle",
+  event_totals: "Event total",
+};
+
+// what the rollback does to a row the operation inserted / updated / deleted
+const UNDO_LABELS: Record<RollbackChange["action"], string> = {
+  insert: "remove",
+  update: "restore",
+  delete: "re-create",
+};
+
+const formatValue = (v: unknown) => {
+  if (v === null || v === undefined) return "—";
+  if (typeof v === "number" || (typeof v === "string" && /^\d{4,}$/.test(v))) {
+    return String(v).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  }
+  return String(v);
+};
+
+const RollbackPreviewList = ({ preview }: { preview: RollbackPreview }) => {
+  const counts = new Map<string, number>();
+  for (const c of preview.changes) {
+    const key = `${UNDO_LABELS[c.action]} ${TABLE_LABELS[c.tableName] ?? c.tableName}`;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  if (!preview.changes.length && !preview.ledgerReversals) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Nothing was recorded for this operation – only its status changes.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        {Array.from(counts.entries()).map(([label, n]) => (
+          <Badge key={label} variant="outline">
+            {n}× {label}
+          </Badge>
+        ))}
+        {preview.ledgerReversals > 0 && (
+          <Badge variant="outline">{preview.ledgerReversals}× reverse transaction</Badge>
+        )}
+      </div>
+      {preview.changes.length > 0 && (
+        <div className="max-h-[40vh] overflow-y-auto rounded-md border divide-y text-sm">
+          {preview.changes.map((c, idx) => {
+            const fields = c.action === "update" ? rollbackFieldChanges(c) : [];
+            return (
+              <div key={idx} className={`p-2 ${c.conflict ? "bg-amber-50 dark:bg-amber-950/30" : ""}`}>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">{UNDO_LABELS[c.action]}</Badge>
+                  <span className="text-muted-foreground">
+                    {TABLE_LABELS[c.tableName] ?? c.tableName}
+                  </span>
+                  <span className="font-medium">{c.playerName ?? c.rowId.slice(0, 8)}</span>
+                  {c.conflict && <Badge variant="destructive">edited since</Badge>}
+                </div>
+                {fields.length > 0 && (
+                  <div className="mt-1 text-xs text-muted-foreground">
+                    {fields.map((f) => (
+                      <div key={f.field}>
+                        {f.field}: <span className="font-mono">{formatValue(f.from)}</span> →{" "}
+                        <span className="font-mono">{formatValue(f.to)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
 const BatchAuditLog = () => {
   const queryClient = useQueryClient();
 
@@ -44,72 +137,38 @@ const BatchAuditLog = () => {
     },
   });
 
-  const rollbackMutation = useMutation({
-    mutationFn: async (batchId: string) => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Get the batch operation
-      const { data: batch, error: batchError } = await supabase
-        .from("batch_operations")
-        .select("*")
-        .eq("id", batchId)
-        .single();
+  const [rollbackTarget, setRollbackTarget] = useState<BatchOperation | null>(null);
 
-      if (batchError) throw batchError;
-      if (batch.status === "rolled_back") {
-        throw new Error("This operation has already been rolled back");
-      }
+  const {
+    data: preview,
+    isLoading: previewLoading,
+    error: previewError,
+  } = useQuery({
+    queryKey: ["batch_rollback_preview", rollbackTarget?.id],
+    queryFn: () => previewRollback(rollbackTarget!.id),
+    enabled: !!rollbackTarget,
+  });
 
-      // Rollback ledger transactions
-      const { data: transactions, error: transError } = await supabase
-        .from("ledger_transactions")
-        .select("*")
-        .eq("batch_operation_id", batchId);
-
-      if (transError) throw transError;
-
-      if (transactions && transactions.length > 0) {
-        // Create reverse transactions
-        const reverseTransactions = transactions.map(t => ({
-          player_id: t.player_id,
-          medal_id: t.medal_id,
-          amount: -t.amount,
-          transaction_type: "rollback",
-          description: `Rollback of ${t.description}`,
-          created_by: user.id,
-          batch_operation_id: batchId,
-        }));
-
-        const { error: insertError } = await supabase
-          .from("ledger_transactions")
-          .insert(reverseTransactions);
-
-        if (insertError) throw insertError;
-      }
-
-      // Mark batch as rolled back
-      const { error: updateError } = await supabase
-        .from("batch_operations")
-        .update({
-          status: "rolled_back",
-          rolled_back_at: new Date().toISOString(),
-          rolled_back_by: user.id,
-        })
-        .eq("id", batchId);
-
-      if (updateError) throw updateError;
-    },
-    onSuccess: () => {
+  const rollbackMutation = useMutation({
+    mutationFn: async ({ batchId, force }: { batchId: string; force: boolean }) =>
+      rollbackBatchOperation(batchId, force),
+    onSuccess: ({ restored, ledgerReversed }) => {
       queryClient.invalidateQueries({ queryKey: ["batch_operations"] });
       queryClient.invalidateQueries({ queryKey: ["ledger_transactions"] });
-      toast.success("Operation rolled back successfully");
+      queryClient.invalidateQueries({ queryKey: ["scores"] });
+      queryClient.invalidateQueries({ queryKey: ["players"] });
+      toast.success(
+        `Operation rolled back (${restored} rows restored, ${ledgerReversed} transactions reversed)`
+      );
+      setRollbackTarget(null);
     },
     onError: (error: Error) => {
       toast.error(`Failed to rollback: ${error.message}`);
     },
   });
 
+  const conflictCount = preview?.changes.filter((c) => c.conflict).length ?? 0;
+
   if (isLoading) {
     return <div className="text-center">Loading audit log...</div>;
   }
@@ -174,45 +233,75 @@ const BatchAuditLog = () => {
               </div>
 
               {op.status === "completed" && (
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      disabled={rollbackMutation.isPending}
-                    >
-                      {rollbackMutation.isPending ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <>
-                          <Undo2 className="mr-2 h-4 w-4" />
-                          Rollback
-                        </>
-                      )}
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Rollback Operation</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        This will reverse all transactions in this batch. This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={() => rollbackMutation.mutate(op.id)}
-                      >
-                        Rollback
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRollbackTarget(op)}
+                  disabled={rollbackMutation.isPending}
+                >
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  Rollback
+                </Button>
               )}
             </div>
           </CardContent>
         </Card>
       ))}
+
+      <AlertDialog
+        open={!!rollbackTarget}
+        onOpenChange={(open) => !open && setRollbackTarget(null)}
+      >
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rollback Operation</AlertDialogTitle>
+            <AlertDialogDescription>
+              Puts every row this operation changed back the way it was and
+              reverses its ledger transactions. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          {previewLoading && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Checking what the rollback will touch...
+            </div>
+          )}
+          {previewError && (
+            <p className="text-sm text-destructive">
+              Could not preview the rollback: {(previewError as Error).message}
+            </p>
+          )}
+          {preview && <RollbackPreviewList preview={preview} />}
+          {conflictCount > 0 && (
+            <p className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              {conflictCount} row(s) were edited after this operation. Rolling
+              back overwrites those edits with the state before the operation.
+            </p>
+          )}
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={!preview || rollbackMutation.isPending}
+              onClick={(e) => {
+                // keep the dialog open until the rollback finishes
+                e.preventDefault();
+                if (rollbackTarget) {
+                  rollbackMutation.mutate({
+                    batchId: rollbackTarget.id,
+                    force: conflictCount > 0,
+                  });
+                }
+              }}
+            >
+              {rollbackMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {conflictCount > 0 ? "Rollback Anyway" : "Rollback"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -1,5 +1,5 @@
 // src/components/event-details/EventScoresList.tsx
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import {
@@ -11,8 +11,12 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Image as ImageIcon, RefreshCw } from "lucide-react";
 import ExportButtons from "@/components/exports/ExportButtons";
+import ScreenshotViewer from "./ScreenshotViewer";
+import ScreenshotRerunDialog, { StoredUpload } from "./ScreenshotRerunDialog";
 
 interface EventScoresListProps {
   eventId: string;
@@ -39,6 +43,9 @@ const EventScoresList = ({
   eventName = "Event Scores",
   canManage,
 }: EventScoresListProps) => {
+  const [viewing, setViewing] = useState<StoredUpload | null>(null);
+  const [rerunning, setRerunning] = useState<StoredUpload | null>(null);
+
   const {
     data: scores,
     isLoading,
@@ -67,16 +74,66 @@ const EventScoresList = ({
     },
   });
 
+  // stored screenshots (only admins/leaders can read the bucket)
+  const { data: uploads } = useQuery({
+    queryKey: ["event-screenshots", eventId],
+    enabled: canManage,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ocr_uploads")
+        .select("id, image_path, image_name, layout_profile_id, status, created_at")
+        .eq("event_id", eventId)
+        .not("image_path", "is", null)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // player → screenshot of their most recent OCR row
+  const { data: sourceByPlayer } = useQuery({
+    queryKey: ["event-score-sources", eventId],
+    enabled: canManage,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ocr_rows")
+        .select("linked_player_id, upload_id, created_at")
+        .eq("event_id", eventId)
+        .not("upload_id", "is", null)
+        .not("linked_player_id", "is", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      const map = new Map<string, string>();
+      for (const row of data || []) {
+        if (!map.has(row.linked_player_id!)) {
+          map.set(row.linked_player_id!, row.upload_id!);
+        }
+      }
+      return map;
+    },
+  });
+
+  const uploadsById = useMemo(
+    () =>
+      new Map(
+        (uploads || []).map((u) => [u.id, u as StoredUpload])
+      ),
+    [uploads]
+  );
+
   const leaderboard = useMemo(() => {
     if (!scores) return [];
     return scores.map((s: any, i: number) => ({
       rank: i + 1,
       player: s.players?.canonical_name || "Unknown",
+      source: uploadsById.get(sourceByPlayer?.get(s.player_id) ?? "") ?? null,
       score: s.score ?? 0,
       verified: !!s.verified,
       created_at: s.created_at,
     }));
-  }, [scores]);
+  }, [scores, uploadsById, sourceByPlayer]);
 
   if (isLoading) {
     return <div className="text-muted-foreground py-4">Loading scores…</div>;
@@ -158,6 +215,7 @@ const EventScoresList = ({
               <TableHead>Score</TableHead>
               <TableHead>Verified</TableHead>
               <TableHead>Committed At</TableHead>
+              {canManage && <TableHead className="w-[60px]">Source</TableHead>}
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -178,12 +236,79 @@ const EventScoresList = ({
                     ? new Date(row.created_at).toLocaleString()
                     : "—"}
                 </TableCell>
+                {canManage && (
+                  <TableCell>
+                    {row.source && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={row.source.image_name ?? "View screenshot"}
+                        onClick={() => setViewing(row.source)}
+                      >
+                        <ImageIcon className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                )}
               </TableRow>
             ))}
           </TableBody>
         </Table>
       </div>
 
+      {canManage && uploads && uploads.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium">Screenshots ({uploads.length})</h4>
+          <div className="rounded-lg border divide-y">
+            {uploads.map((u) => (
+              <div
+                key={u.id}
+                className="flex items-center justify-between gap-2 px-3 py-2 text-sm"
+              >
+                <div className="min-w-0">
+                  <div className="truncate font-medium">
+                    {u.image_name || u.image_path}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(u.created_at).toLocaleString()} · {u.status}
+                    {u.layout_profile_id && <> · {u.layout_profile_id}</>}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setViewing(u as StoredUpload)}
+                  >
+                    <ImageIcon className="mr-2 h-4 w-4" />
+                    View
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRerunning(u as StoredUpload)}
+                  >
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                    Re-run OCR
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <ScreenshotViewer
+        imagePath={viewing?.image_path ?? null}
+        imageName={viewing?.image_name}
+        onClose={() => setViewing(null)}
+      />
+      <ScreenshotRerunDialog
+        eventId={eventId}
+        upload={rerunning}
+        onClose={() => setRerunning(null)}
+      />
+
       {!canManage && (
         <p className="text-xs text-muted-foreground">
           View-only: event admins/leaders can change scores from the OCR →
@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { History } from "lucide-react";
+import { toast } from "sonner";
+import { fetchRaffleCarryover, fetchRaffleChain, type RaffleChainLink } from "@/lib/raffleSeries";
+
+interface RaffleCarryoverProps {
+  eventId: string;
+  seriesId: string | null;
+}
+
+interface CarryoverRow {
+  playerId: string;
+  playerName: string;
+  carriedIn: number;
+  fromEventName: string | null;
+  /** null until this event's raffles or reweight have run */
+  carriedOn: number | null;
+}
+
+const RaffleCarryover = ({ eventId, seriesId }: RaffleCarryoverProps) => {
+  const [rows, setRows] = useState<CarryoverRow[]>([]);
+  const [seriesName, setSeriesName] = useState<string | null>(null);
+  const [chainPlayer, setChainPlayer] = useState<CarryoverRow | null>(null);
+  const [chain, setChain] = useState<RaffleChainLink[]>([]);
+
+  useEffect(() => {
+    if (!seriesId) return;
+
+    const load = async () => {
+      try {
+        const [carryover, { data: outgoing }, { data: series }] = await Promise.all([
+          fetchRaffleCarryover(eventId),
+          supabase.from("raffle_weights").select("player_id, entries_next").eq("event_id", eventId),
+          supabase.from("raffle_series").select("name").eq("id", seriesId).maybeSingle(),
+        ]);
+        setSeriesName(series?.name ?? null);
+
+        const carriedOn = new Map((outgoing ?? []).map((w) => [w.player_id, w.entries_next]));
+        const playerIds = Array.from(new Set([...carryover.keys(), ...carriedOn.keys()]));
+        const fromEventIds = Array.from(new Set(Array.from(carryover.values()).map((c) => c.fromEventId)));
+
+        const [{ data: players }, { data: events }] = await Promise.all([
+          playerIds.length > 0
+            ? supabase.from("players").select("id, canonical_name").in("id", playerIds)
+            : Promise.resolve({ data: [] as { id: string; canonical_name: string }[] }),
+          fromEventIds.length > 0
+            ? supabase.from("events").select("id, name").in("id", fromEventIds)
+            : Promise.resolve({ data: [] as { id: string; name: string }[] }),
+        ]);
+        const playerNames = new Map((players ?? []).map((p) => [p.id, p.canonical_name]));
+        const eventNames = new Map((events ?? []).map((e) => [e.id, e.name]));
+
+        setRows(
+          playerIds
+            .map((id) => {
+              const incoming = carryover.get(id);
+              return {
+                playerId: id,
+                playerName: playerNames.get(id) ?? "Unknown",
+                carriedIn: incoming?.entries ?? 0,
+                fromEventName: incoming ? eventNames.get(incoming.fromEventId) ?? null : null,
+                carriedOn: carriedOn.get(id) ?? null,
+              };
+            })
+            .sort((a, b) => b.carriedIn - a.carriedIn || a.playerName.localeCompare(b.playerName))
+        );
+      } catch (error) {
+        toast.error("Failed to load raffle carryover: " + (error as Error).message);
+      }
+    };
+
+    load();
+  }, [eventId, seriesId]);
+
+  const openChain = async (row: CarryoverRow) => {
+    if (!seriesId) return;
+    setChainPlayer(row);
+    setChain([]);
+    try {
+      setChain(await fetchRaffleChain(seriesId, row.playerId));
+    } catch (error) {
+      toast.error("Failed to load raffle history: " + (error as Error).message);
+    }
+  };
+
+  if (!seriesId) {
+    return (
+      <Card className="p-6 text-sm text-muted-foreground">
+        This event is not part of a raffle series, so no carryover flows into or out of it.
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6">
+      <h3 className="font-semibold mb-1">Raffle Carryover</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Entries carried in from earlier events of {seriesName ?? "the series"} and what players carry on to the next one.
+      </p>
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No carryover yet.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Player</TableHead>
+                <TableHead className="text-right">Carried In</TableHead>
+                <TableHead>From</TableHead>
+                <TableHead className="text-right">Carries On</TableHead>
+                <TableHead className="text-right">History</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.playerId}>
+                  <TableCell className="font-medium">{row.playerName}</TableCell>
+                  <TableCell className="text-right">{row.carriedIn}</TableCell>
+                  <TableCell className="text-muted-foreground">{row.fromEventName ?? "—"}</TableCell>
+                  <TableCell className="text-right">{row.carriedOn ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openChain(row)}>
+                      <History className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!chainPlayer} onOpenChange={(open) => !open && setChainPlayer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{chainPlayer?.playerName} – Raffle History</DialogTitle>
+            <DialogDescription>Every change to their entries across {seriesName ?? "the series"}</DialogDescription>
+          </DialogHeader>
+          {chain.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No history in this series.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Carried From</TableHead>
+                    <TableHead className="text-right">Entries</TableHead>
+                    <TableHead>Reason</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {chain.map((link) => (
+                    <TableRow key={link.id} className={link.eventId === eventId ? "bg-muted/50" : undefined}>
+                      <TableCell>
+                        <div className="font-medium">{link.eventName}</div>
+                        <div className="text-xs text-muted-foreground">{link.eventDate}</div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{link.previousEventName ?? "—"}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {link.entriesBefore} → {link.entriesAfter}
+                      </TableCell>
+                      <TableCell className="text-sm">{link.reason ?? ""}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default RaffleCarryover;
@@ -3,30 +3,69 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card } from "@/components/ui/card";
-import { Shuffle, Trophy, Copy } from "lucide-react";
+import { Shuffle, Trophy, Copy, Lock, ShieldCheck, Plus, X } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
+import {
+  DEFAULT_PRIZE_AMOUNT,
+  commitRaffleSeed,
+  createRaffle,
+  drawRaffle,
+  fetchRaffleDraws,
+  verifyRaffleDraw,
+  type RaffleDrawRecord,
+  type RaffleDrawVerification,
+  type RaffleTierInput,
+} from "@/lib/raffleDraw";
+import {
+  DEFAULT_RAFFLE_WEIGHT_FORMULA,
+  RAFFLE_WEIGHT_FORMULAS,
+  isRaffleWeightFormula,
+  type RaffleWeightFormula,
+  type RaffleWeightParams,
+  type ScoreTier,
+} from "@/lib/raffleWeights";
+import RaffleOddsPreview from "./RaffleOddsPreview";
 
 interface Medal {
   id: string;
   name: string;
 }
 
+interface RaffleTier {
+  id: string;
+  position: number;
+  name: string;
+  medal_id: string;
+  prize_count: number;
+  prize_amount: number;
+}
+
 interface Raffle {
   id: string;
   name: string;
   medal_id: string;
   total_prizes: number;
   status: string;
+  weight_formula: string;
+  /** a player can win in more than one tier */
+  allow_multiple_wins: boolean;
+  /** sha256 of the committed seed, published before the draw */
+  seed_hash: string | null;
+  seed_committed_at: string | null;
   medals?: Medal;
+  raffle_tiers?: RaffleTier[];
 }
 
 interface RaffleWinner {
   player_id: string;
   player_name: string;
+  tier_name: string | null;
+  medal_id: string | null;
   prize_amount: number;
   created_at: string;
 }
@@ -36,17 +75,48 @@ interface RaffleManagerProps {
   canManage: boolean;
 }
 
-const RAFFLE_WIN_AMOUNT = 25000000; // 25M medals per win
+interface NewRaffleForm {
+  name: string;
+  /** drawn top to bottom */
+  prizeTiers: RaffleTierInput[];
+  allowMultipleWins: boolean;
+  weightFormula: RaffleWeightFormula;
+  tiers: ScoreTier[];
+  /** log_score / participation_streak cap, empty = none */
+  maxEntries: string;
+}
+
+const EMPTY_PRIZE_TIER: RaffleTierInput = { name: "", medal_id: "", prize_count: 1, prize_amount: DEFAULT_PRIZE_AMOUNT };
+
+const EMPTY_RAFFLE: NewRaffleForm = {
+  name: "",
+  prizeTiers: [{ ...EMPTY_PRIZE_TIER, name: "Main" }],
+  allowMultipleWins: false,
+  weightFormula: DEFAULT_RAFFLE_WEIGHT_FORMULA,
+  tiers: [{ min_score: "", entries: 2 }],
+  maxEntries: "",
+};
+
+const weightParamsOf = (form: NewRaffleForm): RaffleWeightParams => {
+  if (form.weightFormula === "score_tiered") {
+    return { tiers: form.tiers.filter(t => /^\d+$/.test(t.min_score) && t.entries >= 1) };
+  }
+  if ((form.weightFormula === "log_score" || form.weightFormula === "participation_streak") && form.maxEntries) {
+    return { max_entries: parseInt(form.maxEntries) };
+  }
+  return {};
+};
 
 const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
   const [medals, setMedals] = useState<Medal[]>([]);
   const [raffles, setRaffles] = useState<Raffle[]>([]);
   const [raffleWinners, setRaffleWinners] = useState<Record<string, RaffleWinner[]>>({});
-  const [newRaffle, setNewRaffle] = useState({
-    name: "",
-    medalId: "",
-    totalPrizes: 1,
-  });
+  const [raffleDraws, setRaffleDraws] = useState<Record<string, RaffleDrawRecord>>({});
+  // draws undone in the audit log, newest first
+  const [rolledBackDraws, setRolledBackDraws] = useState<Record<string, RaffleDrawRecord[]>>({});
+  const [verifications, setVerifications] = useState<Record<string, RaffleDrawVerification>>({});
+  const [busyRaffleId, setBusyRaffleId] = useState<string | null>(null);
+  const [newRaffle, setNewRaffle] = useState<NewRaffleForm>(EMPTY_RAFFLE);
 
   useEffect(() => {
     fetchMedals();
@@ -61,15 +131,21 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
   const fetchRaffles = async () => {
     const { data } = await supabase
       .from("raffles")
-      .select("*, medals(*)")
+      .select("*, medals(*), raffle_tiers(*)")
       .eq("event_id", eventId);
     if (data) {
-      setRaffles(data);
-      // Fetch winners for completed raffles
+      setRaffles(data.map(raffle => ({
+        ...raffle,
+        raffle_tiers: [...(raffle.raffle_tiers ?? [])].sort((a, b) => a.position - b.position),
+      })));
+      // Fetch winners for completed raffles, earlier draws for rolled back ones
       for (const raffle of data) {
         if (raffle.status === "completed") {
           fetchRaffleWinners(raffle.id);
         }
+        if (raffle.status === "completed" || raffle.seed_hash) {
+          fetchDraw(raffle.id);
+        }
       }
     }
   };
@@ -77,7 +153,7 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
   const fetchRaffleWinners = async (raffleId: string) => {
     const { data } = await supabase
       .from("raffle_entries")
-      .select("player_id, prize_amount, created_at, players(canonical_name)")
+      .select("player_id, prize_amount, created_at, players(canonical_name), raffle_tiers(name, medal_id)")
       .eq("raffle_id", raffleId)
       .eq("is_winner", true)
       .order("created_at", { ascending: true });
@@ -86,6 +162,8 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
       const winners = data.map(entry => ({
         player_id: entry.player_id,
         player_name: (entry.players as any)?.canonical_name || "Unknown",
+        tier_name: entry.raffle_tiers?.name ?? null,
+        medal_id: entry.raffle_tiers?.medal_id ?? null,
         prize_amount: entry.prize_amount || 0,
         created_at: entry.created_at,
       }));
@@ -93,229 +171,141 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
     }
   };
 
+  const fetchDraw = async (raffleId: string) => {
+    try {
+      const draws = await fetchRaffleDraws(raffleId);
+      const current = draws.find(d => !d.rolledBack);
+      if (current) setRaffleDraws(prev => ({ ...prev, [raffleId]: current }));
+      setRolledBackDraws(prev => ({ ...prev, [raffleId]: draws.filter(d => d.rolledBack) }));
+    } catch (error) {
+      console.error("Failed to load raffle draw:", error);
+    }
+  };
+
+  const setTier = (idx: number, tier: ScoreTier) =>
+    setNewRaffle(prev => ({ ...prev, tiers: prev.tiers.map((t, i) => (i === idx ? tier : t)) }));
+
+  const setPrizeTier = (idx: number, tier: RaffleTierInput) =>
+    setNewRaffle(prev => ({ ...prev, prizeTiers: prev.prizeTiers.map((t, i) => (i === idx ? tier : t)) }));
+
+  const medalName = (medalId: string | null) => medals.find(m => m.id === medalId)?.name ?? "Unknown medal";
+
+  const prizeTiersValid =
+    newRaffle.prizeTiers.length > 0 &&
+    newRaffle.prizeTiers.every(t => t.name.trim() && t.medal_id && t.prize_count >= 1 && t.prize_amount >= 1);
+
   const handleCreateRaffle = async () => {
     if (!canManage) return;
 
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { error } = await supabase.from("raffles").insert([{
-        event_id: eventId,
+      await createRaffle(eventId, {
         name: newRaffle.name,
-        medal_id: newRaffle.medalId,
-        total_prizes: newRaffle.totalPrizes,
-        weight_formula: "score",
-        created_by: user.id,
-      }]);
-
-      if (error) throw error;
+        tiers: newRaffle.prizeTiers.map(t => ({ ...t, name: t.name.trim() })),
+        weightFormula: newRaffle.weightFormula,
+        weightParams: weightParamsOf(newRaffle),
+        allowMultipleWins: newRaffle.allowMultipleWins,
+      });
 
       toast.success("Raffle created successfully");
-      setNewRaffle({ name: "", medalId: "", totalPrizes: 1 });
+      setNewRaffle(EMPTY_RAFFLE);
       fetchRaffles();
     } catch (error: any) {
       toast.error("Failed to create raffle: " + error.message);
     }
   };
 
-  const handleDrawRaffle = async (raffleId: string) => {
+  const handleCommitSeed = async (raffleId: string) => {
     if (!canManage) return;
 
+    setBusyRaffleId(raffleId);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Get event totals to find min_score_for_raffle
-      const { data: eventTotals } = await supabase
-        .from("event_totals")
-        .select("min_score_for_raffle")
-        .eq("event_id", eventId)
-        .limit(1)
-        .maybeSingle();
-
-      const minScore = eventTotals?.min_score_for_raffle || 0;
-
-      // Get qualified players (score >= min_score_for_raffle)
-      const { data: scores } = await supabase
-        .from("scores")
-        .select("player_id, score, players(canonical_name)")
-        .eq("event_id", eventId)
-        .gte("score", minScore);
-
-      if (!scores || scores.length === 0) {
-        toast.error("No qualified players for this event");
-        return;
-      }
-
-      // Get carryover entries from raffle_weights
-      const { data: carryovers } = await supabase
-        .from("raffle_weights")
-        .select("player_id, entries_next")
-        .eq("event_id", eventId);
-
-      const carryoverMap = new Map<string, number>();
-      carryovers?.forEach(c => carryoverMap.set(c.player_id, c.entries_next || 0));
-
-      // Build weighted pool: base_entries (1) + carryover
-      const weightedPool: { player_id: string; entries: number; name: string }[] = [];
-      scores.forEach(score => {
-        const baseEntries = 1;
-        const carryover = carryoverMap.get(score.player_id) || 0;
-        const totalEntries = baseEntries + carryover;
-        
-        // Add player to pool multiple times based on their entries
-        for (let i = 0; i < totalEntries; i++) {
-          weightedPool.push({
-            player_id: score.player_id,
-            entries: totalEntries,
-            name: (score.players as any)?.canonical_name || "Unknown",
-          });
-        }
-      });
-
-      const raffle = raffles.find(r => r.id === raffleId);
-      if (!raffle) return;
-
-      // Draw winners (1 win per player)
-      const winners = new Set<string>();
-      const winnersList: { player_id: string; name: string }[] = [];
-      let remainingPool = [...weightedPool];
-
-      while (winners.size < raffle.total_prizes && remainingPool.length > 0) {
-        const randomIndex = Math.floor(Math.random() * remainingPool.length);
-        const selected = remainingPool[randomIndex];
-        
-        if (!winners.has(selected.player_id)) {
-          winners.add(selected.player_id);
-          winnersList.push({ player_id: selected.player_id, name: selected.name });
-          // Remove all entries for this player from pool
-          remainingPool = remainingPool.filter(p => p.player_id !== selected.player_id);
-        }
-      }
+      const seedHash = await commitRaffleSeed(raffleId);
+      toast.success(`Seed committed: ${seedHash.slice(0, 12)}…`);
+      fetchRaffles();
+    } catch (error) {
+      toast.error("Failed to commit seed: " + (error as Error).message);
+    } finally {
+      setBusyRaffleId(null);
+    }
+  };
 
-      // Create batch operation
-      const { data: batchOp, error: batchError } = await supabase
-        .from("batch_operations")
-        .insert({
-          operation_type: "raffle_draw",
-          event_id: eventId,
-          created_by: user.id,
-          metadata: {
-            raffle_id: raffleId,
-            raffle_name: raffle.name,
-            total_prizes: raffle.total_prizes,
-            winners_count: winners.size,
-            winners: winnersList.map(w => w.name),
-          },
-        })
-        .select()
-        .single();
-
-      if (batchError) throw batchError;
-
-      // Insert raffle entries (winners and non-winners)
-      const allPlayerIds = new Set(scores.map(s => s.player_id));
-      const entries = Array.from(allPlayerIds).map(playerId => ({
-        raffle_id: raffleId,
-        player_id: playerId,
-        weight: (carryoverMap.get(playerId) || 0) + 1,
-        is_winner: winners.has(playerId),
-        prize_amount: winners.has(playerId) ? RAFFLE_WIN_AMOUNT : null,
-        batch_operation_id: batchOp.id,
-      }));
+  const handleDrawRaffle = async (raffleId: string) => {
+    if (!canManage) return;
 
-      await supabase.from("raffle_entries").insert(entries);
-
-      // Update raffle_weights and history for all qualified players
-      for (const playerId of allPlayerIds) {
-        const previousCarryover = carryoverMap.get(playerId) || 0;
-        const isWinner = winners.has(playerId);
-        const newCarryover = isWinner ? 0 : previousCarryover + 1;
-
-        // Upsert raffle_weights with proper conflict handling
-        const { error: upsertError } = await supabase
-          .from("raffle_weights")
-          .upsert({
-            event_id: eventId,
-            player_id: playerId,
-            entries_before: previousCarryover,
-            entries_next: newCarryover,
-            updated_by: user.id,
-            last_updated: new Date().toISOString(),
-          }, {
-            onConflict: 'player_id,event_id'
-          });
-
-        if (upsertError) {
-          console.error("Failed to upsert raffle_weights:", upsertError);
-        }
+    setBusyRaffleId(raffleId);
+    try {
+      const { winners } = await drawRaffle(raffleId);
+      const raffleMedalsUsed = winners.reduce((sum, w) => sum + w.prize_amount, 0);
+      toast.success(`Raffle drawn! ${winners.length} prizes awarded (${raffleMedalsUsed.toLocaleString()} medals total)`);
+      fetchRaffles();
+    } catch (error) {
+      toast.error("Failed to draw raffle: " + (error as Error).message);
+      console.error(error);
+    } finally {
+      setBusyRaffleId(null);
+    }
+  };
 
-        // Insert history
-        await supabase.from("raffle_entries_history").insert({
-          event_id: eventId,
-          player_id: playerId,
-          entries_before: previousCarryover,
-          entries_after: newCarryover,
-          reason: isWinner ? "won_raffle_reset" : "missed_raffle_but_qualified",
-          created_by: user.id,
-        });
-      }
+  const handleVerifyDraw = async (raffleId: string) => {
+    const draw = raffleDraws[raffleId];
+    if (!draw) return;
 
-      // Mark raffle as completed
-      await supabase
-        .from("raffles")
-        .update({
-          status: "completed",
-          drawn_at: new Date().toISOString(),
-        })
-        .eq("id", raffleId);
-
-      // Update event_totals with raffle amount used
-      const raffleMedalsUsed = winners.size * RAFFLE_WIN_AMOUNT;
-      const { error: updateTotalsError } = await supabase
-        .from("event_totals")
-        .update({ raffle_amount_used: raffleMedalsUsed })
-        .eq("event_id", eventId)
-        .eq("medal_id", raffle.medal_id);
-
-      if (updateTotalsError) {
-        console.error("Failed to update raffle_amount_used:", updateTotalsError);
-        throw updateTotalsError;
+    try {
+      const result = await verifyRaffleDraw(draw);
+      setVerifications(prev => ({ ...prev, [raffleId]: result }));
+      if (result.seedMatchesHash && result.winnersMatch) {
+        toast.success("Draw verified: the seed matches its hash and replays to the same winners");
+      } else {
+        toast.error(
+          !result.seedMatchesHash
+            ? "Verification failed: the seed does not match the committed hash"
+            : "Verification failed: replaying the draw gives different winners"
+        );
       }
-
-      toast.success(`Raffle drawn! ${winners.size} winners selected (${raffleMedalsUsed.toLocaleString()} medals total)`);
-      fetchRaffles();
-    } catch (error: any) {
-      toast.error("Failed to draw raffle: " + error.message);
-      console.error(error);
+    } catch (error) {
+      toast.error("Failed to verify draw: " + (error as Error).message);
     }
   };
 
   const handleExportWinners = async (raffleId: string) => {
     try {
-      const { data } = await supabase
-        .from("raffle_entries")
-        .select("player_id, players(canonical_name)")
-        .eq("raffle_id", raffleId)
-        .eq("is_winner", true)
-        .order("created_at", { ascending: true });
-
-      if (!data || data.length === 0) {
+      const winners = winnersOf(raffleId);
+      if (winners.length === 0) {
         toast.error("No winners found");
         return;
       }
 
-      const names = data.map(entry => (entry.players as any)?.canonical_name || "Unknown");
-      const exportString = names.join(", ");
+      // one line per tier, in draw order
+      const byTier = new Map<string, string[]>();
+      for (const w of winners) {
+        const tier = w.tier_name ?? "";
+        byTier.set(tier, [...(byTier.get(tier) ?? []), w.player_name]);
+      }
+      const exportString = Array.from(byTier, ([tier, names]) =>
+        byTier.size > 1 || tier ? `${tier}: ${names.join(", ")}` : names.join(", ")
+      ).join("\n");
 
       await navigator.clipboard.writeText(exportString);
       toast.success("Winners copied to clipboard!");
-    } catch (error: any) {
-      toast.error("Failed to export winners: " + error.message);
+    } catch (error) {
+      toast.error("Failed to export winners: " + (error as Error).message);
     }
   };
 
+  // the draw keeps the winners in the order they were drawn
+  const winnersOf = (raffleId: string): RaffleWinner[] => {
+    const draw = raffleDraws[raffleId];
+    if (!draw) return raffleWinners[raffleId] ?? [];
+    return draw.winners.map(w => ({
+      player_id: w.player_id,
+      player_name: w.name,
+      tier_name: w.tier_name,
+      medal_id: w.medal_id,
+      prize_amount: w.prize_amount,
+      created_at: draw.drawnAt,
+    }));
+  };
+
   if (!canManage && raffles.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
@@ -328,7 +318,7 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
     <div className="space-y-6">
       {canManage && (
         <Card className="p-6">
-          <h3 className="font-semibold mb-4">Create Raffle (25M per winner)</h3>
+          <h3 className="font-semibold mb-4">Create Raffle</h3>
           <div className="grid gap-4">
             <div>
               <Label>Raffle Name</Label>
@@ -338,34 +328,157 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
                 onChange={(e) => setNewRaffle({ ...newRaffle, name: e.target.value })}
               />
             </div>
+            <div className="space-y-2">
+              <Label>Prize Tiers (drawn top to bottom)</Label>
+              {newRaffle.prizeTiers.map((tier, idx) => (
+                <div key={idx} className="flex gap-2 items-center">
+                  <Input
+                    placeholder="Tier name"
+                    value={tier.name}
+                    onChange={(e) => setPrizeTier(idx, { ...tier, name: e.target.value })}
+                  />
+                  <Select value={tier.medal_id} onValueChange={(value) => setPrizeTier(idx, { ...tier, medal_id: value })}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Medal" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {medals.map((medal) => (
+                        <SelectItem key={medal.id} value={medal.id}>
+                          {medal.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-20"
+                    title="Number of prizes"
+                    value={tier.prize_count}
+                    onChange={(e) => setPrizeTier(idx, { ...tier, prize_count: parseInt(e.target.value) || 1 })}
+                  />
+                  <Input
+                    type="number"
+                    min="1"
+                    className="w-36"
+                    title="Medals per prize"
+                    value={tier.prize_amount}
+                    onChange={(e) => setPrizeTier(idx, { ...tier, prize_amount: parseInt(e.target.value) || 0 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={newRaffle.prizeTiers.length === 1}
+                    onClick={() =>
+                      setNewRaffle({ ...newRaffle, prizeTiers: newRaffle.prizeTiers.filter((_, i) => i !== idx) })
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setNewRaffle({ ...newRaffle, prizeTiers: [...newRaffle.prizeTiers, EMPTY_PRIZE_TIER] })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Prize Tier
+              </Button>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="allow-multiple-wins">Players can win in more than one tier</Label>
+              <Switch
+                id="allow-multiple-wins"
+                checked={newRaffle.allowMultipleWins}
+                onCheckedChange={(checked) => setNewRaffle({ ...newRaffle, allowMultipleWins: checked })}
+              />
+            </div>
             <div>
-              <Label>Medal Type</Label>
+              <Label>Weight Formula</Label>
               <Select
-                value={newRaffle.medalId}
-                onValueChange={(value) => setNewRaffle({ ...newRaffle, medalId: value })}
+                value={newRaffle.weightFormula}
+                onValueChange={(value) =>
+                  isRaffleWeightFormula(value) && setNewRaffle({ ...newRaffle, weightFormula: value })
+                }
               >
                 <SelectTrigger>
-                  <SelectValue placeholder="Select medal" />
+                  <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {medals.map((medal) => (
-                    <SelectItem key={medal.id} value={medal.id}>
-                      {medal.name}
+                  {Object.entries(RAFFLE_WEIGHT_FORMULAS).map(([key, formula]) => (
+                    <SelectItem key={key} value={key}>
+                      {formula.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                {RAFFLE_WEIGHT_FORMULAS[newRaffle.weightFormula].description}
+              </p>
             </div>
+            {newRaffle.weightFormula === "score_tiered" && (
+              <div className="space-y-2">
+                <Label>Score Tiers (min raw score → entries)</Label>
+                {newRaffle.tiers.map((tier, idx) => (
+                  <div key={idx} className="flex gap-2 items-center">
+                    <Input
+                      inputMode="numeric"
+                      placeholder="Min raw score"
+                      value={tier.min_score}
+                      onChange={(e) => setTier(idx, { ...tier, min_score: e.target.value.replace(/[^\d]/g, "") })}
+                    />
+                    <Input
+                      type="number"
+                      min="1"
+                      className="w-24"
+                      value={tier.entries}
+                      onChange={(e) => setTier(idx, { ...tier, entries: parseInt(e.target.value) || 1 })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={newRaffle.tiers.length === 1}
+                      onClick={() => setNewRaffle({ ...newRaffle, tiers: newRaffle.tiers.filter((_, i) => i !== idx) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setNewRaffle({ ...newRaffle, tiers: [...newRaffle.tiers, { min_score: "", entries: 1 }] })}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Tier
+                </Button>
+              </div>
+            )}
+            {(newRaffle.weightFormula === "log_score" || newRaffle.weightFormula === "participation_streak") && (
+              <div>
+                <Label>Max Entries per Player</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="No cap"
+                  value={newRaffle.maxEntries}
+                  onChange={(e) => setNewRaffle({ ...newRaffle, maxEntries: e.target.value.replace(/[^\d]/g, "") })}
+                />
+              </div>
+            )}
             <div>
-              <Label>Number of Prizes</Label>
-              <Input
-                type="number"
-                min="1"
-                value={newRaffle.totalPrizes}
-                onChange={(e) => setNewRaffle({ ...newRaffle, totalPrizes: parseInt(e.target.value) || 1 })}
+              <Label>Odds Preview</Label>
+              <RaffleOddsPreview
+                eventId={eventId}
+                medalId={newRaffle.prizeTiers[0]?.medal_id ?? ""}
+                formula={newRaffle.weightFormula}
+                params={weightParamsOf(newRaffle)}
+                tierPrizeCounts={newRaffle.prizeTiers.map(t => t.prize_count)}
+                allowMultipleWins={newRaffle.allowMultipleWins}
               />
             </div>
-            <Button onClick={handleCreateRaffle} disabled={!newRaffle.name || !newRaffle.medalId}>
+            <Button onClick={handleCreateRaffle} disabled={!newRaffle.name || !prizeTiersValid}>
               Create Raffle
             </Button>
           </div>
@@ -377,7 +490,8 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
           <TableHeader>
             <TableRow>
               <TableHead>Name</TableHead>
-              <TableHead>Medal</TableHead>
+              <TableHead>Tiers</TableHead>
+              <TableHead>Formula</TableHead>
               <TableHead>Prizes</TableHead>
               <TableHead>Status</TableHead>
               <TableHead className="text-right">Actions</TableHead>
@@ -388,7 +502,19 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
               <>
                 <TableRow key={raffle.id}>
                   <TableCell className="font-medium">{raffle.name}</TableCell>
-                  <TableCell>{raffle.medals?.name}</TableCell>
+                  <TableCell>
+                    {raffle.raffle_tiers && raffle.raffle_tiers.length > 0
+                      ? raffle.raffle_tiers.map(t => `${t.prize_count}× ${medalName(t.medal_id)}`).join(", ")
+                      : raffle.medals?.name}
+                    {raffle.allow_multiple_wins && (
+                      <span className="block text-xs text-muted-foreground">multiple wins allowed</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {isRaffleWeightFormula(raffle.weight_formula)
+                      ? RAFFLE_WEIGHT_FORMULAS[raffle.weight_formula].label
+                      : raffle.weight_formula}
+                  </TableCell>
                   <TableCell>{raffle.total_prizes}</TableCell>
                   <TableCell>
                     <span className={raffle.status === "completed" ? "text-green-600" : "text-yellow-600"}>
@@ -396,15 +522,39 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
                     </span>
                   </TableCell>
                   <TableCell className="text-right">
-                    {canManage && raffle.status === "pending" && (
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleDrawRaffle(raffle.id)}
-                      >
-                        <Shuffle className="h-4 w-4 mr-1" />
-                        Draw Winners
-                      </Button>
+                    {raffle.status === "pending" && (
+                      <div className="flex gap-2 justify-end items-center">
+                        {raffle.seed_hash && (
+                          <span
+                            className="font-mono text-xs text-muted-foreground"
+                            title={`Seed hash (sha256), committed ${new Date(raffle.seed_committed_at ?? "").toLocaleString()}: ${raffle.seed_hash}`}
+                          >
+                            seed {raffle.seed_hash.slice(0, 12)}…
+                          </span>
+                        )}
+                        {canManage && !raffle.seed_hash && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busyRaffleId === raffle.id}
+                            onClick={() => handleCommitSeed(raffle.id)}
+                          >
+                            <Lock className="h-4 w-4 mr-1" />
+                            Commit Seed
+                          </Button>
+                        )}
+                        {canManage && raffle.seed_hash && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busyRaffleId === raffle.id}
+                            onClick={() => handleDrawRaffle(raffle.id)}
+                          >
+                            <Shuffle className="h-4 w-4 mr-1" />
+                            Draw Winners
+                          </Button>
+                        )}
+                      </div>
                     )}
                     {raffle.status === "completed" && (
                       <div className="flex gap-2 justify-end">
@@ -424,30 +574,51 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
                     )}
                   </TableCell>
                 </TableRow>
-                {raffle.status === "completed" && raffleWinners[raffle.id] && (
+                {raffle.status === "completed" && (raffleDraws[raffle.id] || raffleWinners[raffle.id]) && (
                   <TableRow key={`${raffle.id}-winners`}>
-                    <TableCell colSpan={5} className="bg-muted/50">
+                    <TableCell colSpan={6} className="bg-muted/50">
                       <div className="py-2">
-                        <p className="text-sm font-medium mb-2">Winners (25M each):</p>
-                        {raffleWinners[raffle.id].length > 0 ? (
+                        <p className="text-sm font-medium mb-2">Winners:</p>
+                        {winnersOf(raffle.id).length > 0 ? (
                           <ul className="text-sm space-y-1">
-                            {raffleWinners[raffle.id].map((winner, idx) => (
-                              <li key={winner.player_id} className="flex items-center gap-2">
+                            {winnersOf(raffle.id).map((winner, idx) => (
+                              <li key={`${winner.player_id}-${idx}`} className="flex items-center gap-2">
                                 <Badge variant="outline" className="w-6 h-6 rounded-full p-0 flex items-center justify-center text-xs">
                                   {idx + 1}
                                 </Badge>
                                 <span>{winner.player_name}</span>
-                                <span className="text-muted-foreground">({winner.prize_amount.toLocaleString()} medals)</span>
+                                {winner.tier_name && <Badge variant="secondary">{winner.tier_name}</Badge>}
+                                <span className="text-muted-foreground">
+                                  ({winner.prize_amount.toLocaleString()} {winner.medal_id ? medalName(winner.medal_id) : "medals"})
+                                </span>
                               </li>
                             ))}
                           </ul>
                         ) : (
                           <p className="text-sm text-muted-foreground">No winners yet.</p>
                         )}
+                        {raffleDraws[raffle.id] && (
+                          <DrawProof
+                            draw={raffleDraws[raffle.id]}
+                            verification={verifications[raffle.id]}
+                            onVerify={() => handleVerifyDraw(raffle.id)}
+                          />
+                        )}
+                        <RolledBackDraws draws={rolledBackDraws[raffle.id] ?? []} />
                       </div>
                     </TableCell>
                   </TableRow>
                 )}
+                {raffle.status === "pending" && (rolledBackDraws[raffle.id]?.length ?? 0) > 0 && (
+                  <TableRow key={`${raffle.id}-rolled-back`}>
+                    <TableCell colSpan={6} className="bg-muted/50">
+                      <p className="text-sm text-muted-foreground">
+                        Rolled back – the next draw uses the same committed seed.
+                      </p>
+                      <RolledBackDraws draws={rolledBackDraws[raffle.id]} />
+                    </TableCell>
+                  </TableRow>
+                )}
               </>
             ))}
           </TableBody>
@@ -457,4 +628,81 @@ const RaffleManager = ({ eventId, canManage }: RaffleManagerProps) => {
   );
 };
 
+interface DrawProofProps {
+  draw: RaffleDrawRecord;
+  verification?: RaffleDrawVerification;
+  onVerify: () => void;
+}
+
+const DrawProof = ({ draw, verification, onVerify }: DrawProofProps) => {
+  const totalEntries = draw.pool.reduce((sum, p) => sum + p.entries, 0);
+  const verified = verification && verification.seedMatchesHash && verification.winnersMatch;
+
+  const copyProof = async () => {
+    const proof = {
+      algorithm: draw.algorithm,
+      seed: draw.seed,
+      seed_hash: draw.seedHash,
+      seed_committed_at: draw.seedCommittedAt,
+      total_prizes: draw.totalPrizes,
+      weight_formula: draw.weightFormula,
+      tiers: draw.tiers.map(t => ({ tier_id: t.tier_id, prize_count: t.prize_count })),
+      allow_multiple_wins: draw.allowMultipleWins,
+      pool: draw.pool,
+      winners: draw.winners.map(w => ({ player_id: w.player_id, tier_id: w.tier_id })),
+    };
+    await navigator.clipboard.writeText(JSON.stringify(proof, null, 2));
+    toast.success("Draw data copied to clipboard");
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-1 text-xs text-muted-foreground">
+      <p>
+        Drawn from {draw.pool.length} players / {totalEntries} entries (
+        {isRaffleWeightFormula(draw.weightFormula) ? RAFFLE_WEIGHT_FORMULAS[draw.weightFormula].label : draw.weightFormula},{" "}
+        {draw.algorithm}
+        {draw.tiers.length > 1 && `, ${draw.tiers.length} tiers`}
+        {draw.allowMultipleWins && ", multiple wins allowed"}), seed committed{" "}
+        {new Date(draw.seedCommittedAt).toLocaleString()}
+      </p>
+      <p className="font-mono break-all">hash {draw.seedHash}</p>
+      <p className="font-mono break-all">seed {draw.seed}</p>
+      <div className="flex gap-2 items-center pt-1">
+        <Button variant="outline" size="sm" onClick={onVerify}>
+          <ShieldCheck className="h-4 w-4 mr-1" />
+          Verify Draw
+        </Button>
+        <Button variant="ghost" size="sm" onClick={copyProof}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy Draw Data
+        </Button>
+        {verification && (
+          <Badge variant={verified ? "secondary" : "destructive"}>
+            {verified ? "Verified" : "Mismatch"}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const RolledBackDraws = ({ draws }: { draws: RaffleDrawRecord[] }) => {
+  if (draws.length === 0) return null;
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-1 text-xs text-muted-foreground">
+      <p className="font-medium">Rolled back draws</p>
+      {draws.map((draw) => (
+        <p key={draw.id}>
+          <Badge variant="outline" className="mr-2">
+            {new Date(draw.drawnAt).toLocaleString()}
+          </Badge>
+          {draw.winners.length > 0 ? draw.winners.map(w => w.name).join(", ") : "no winners"}
+          <span className="font-mono"> (seed {draw.seedHash.slice(0, 12)}…)</span>
+        </p>
+      ))}
+    </div>
+  );
+};
+
 export default RaffleManager;
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useState } from "react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatBigIntWithCommas } from "@/lib/ocrProcessing";
+import {
+  estimateRaffleOdds,
+  previewRafflePool,
+  type RafflePoolPreviewRow,
+  type RaffleWeightFormula,
+  type RaffleWeightParams,
+} from "@/lib/raffleWeights";
+
+interface RaffleOddsPreviewProps {
+  eventId: string;
+  medalId: string;
+  formula: RaffleWeightFormula;
+  params: RaffleWeightParams;
+  /** prize count per tier, in draw order */
+  tierPrizeCounts: number[];
+  allowMultipleWins: boolean;
+}
+
+const formatPercent = (v: number) => (v >= 0.9995 ? "100%" : `${(v * 100).toFixed(v < 0.01 ? 2 : 1)}%`);
+
+const RaffleOddsPreview = ({
+  eventId,
+  medalId,
+  formula,
+  params,
+  tierPrizeCounts,
+  allowMultipleWins,
+}: RaffleOddsPreviewProps) => {
+  const [pool, setPool] = useState<RafflePoolPreviewRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // params is rebuilt on every render of the form
+  const paramsKey = JSON.stringify(params);
+
+  useEffect(() => {
+    if (!medalId) return;
+
+    let cancelled = false;
+    // wait for the user to stop typing tier values
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        const rows = await previewRafflePool(eventId, medalId, formula, JSON.parse(paramsKey));
+        if (!cancelled) {
+          setPool(rows);
+          setError(null);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setPool([]);
+          setError((err as Error).message);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [eventId, medalId, formula, paramsKey]);
+
+  const tiersKey = tierPrizeCounts.join(",");
+  const prizes = tierPrizeCounts.reduce((sum, n) => sum + n, 0);
+  const odds = useMemo(
+    () => estimateRaffleOdds(pool, tiersKey.split(",").map(Number), allowMultipleWins),
+    [pool, tiersKey, allowMultipleWins]
+  );
+  const totalEntries = pool.reduce((sum, p) => sum + p.entries, 0);
+
+  if (!medalId) {
+    return <p className="text-sm text-muted-foreground">Select a medal to preview the odds.</p>;
+  }
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+  if (!loading && pool.length === 0) {
+    return <p className="text-sm text-muted-foreground">No qualified players for this event yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {loading ? "Calculating…" : `${pool.length} qualified players, ${totalEntries.toLocaleString()} entries`}
+        {prizes > 1 && " – win chances over several prizes are estimated"}
+      </p>
+      <div className="max-h-72 overflow-y-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Player</TableHead>
+              <TableHead className="text-right">Raw Score</TableHead>
+              <TableHead className="text-right">Entries</TableHead>
+              <TableHead className="text-right">Per Draw</TableHead>
+              <TableHead className="text-right">Win Chance</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {odds.map((row) => (
+              <TableRow key={row.player_id}>
+                <TableCell>{row.name}</TableCell>
+                <TableCell className="text-right font-mono">{formatBigIntWithCommas(row.raw_score)}</TableCell>
+                <TableCell className="text-right">{row.entries}</TableCell>
+                <TableCell className="text-right">{formatPercent(row.perDraw)}</TableCell>
+                <TableCell className="text-right font-medium">{formatPercent(row.winChance)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default RaffleOddsPreview;
@@ -0,0 +1,308 @@
+// src/components/event-details/ScreenshotRerunDialog.tsx
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BUILTIN_LAYOUT_PROFILES,
+  OCRLayoutProfile,
+  fetchLayoutProfiles,
+} from "@/lib/ocrLayoutProfiles";
+import {
+  DEFAULT_OCR_ENGINE_ID,
+  OCR_ENGINES,
+  OCREngineId,
+  getOCREngine,
+} from "@/lib/ocrEngines";
+import { downloadScreenshot } from "@/lib/ocrScreenshots";
+import { fetchNameLanguages } from "@/lib/ocrLanguages";
+import { matchPlayerLocal } from "@/lib/playerMatching";
+import { formatBigIntWithCommas } from "@/lib/ocrProcessing";
+
+export interface StoredUpload {
+  id: string;
+  image_path: string;
+  image_name: string | null;
+  layout_profile_id: string | null;
+}
+
+interface ScreenshotRerunDialogProps {
+  eventId: string;
+  upload: StoredUpload | null;
+  onClose: () => void;
+}
+
+type DiffStatus = "same" | "changed" | "new" | "unmatched";
+
+interface DiffRow {
+  rank: number | null;
+  parsedName: string;
+  playerName: string | null;
+  newScore: string;
+  committedScore: string | null;
+  status: DiffStatus;
+}
+
+interface RosterPlayer {
+  id: string;
+  canonical_name: string;
+  aliases: string[] | null;
+  is_alt: boolean;
+  main_player_id: string | null;
+}
+
+const STATUS_BADGE: Record<
+  DiffStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  same: { label: "Same", variant: "outline" },
+  changed: { label: "Changed", variant: "destructive" },
+  new: { label: "Not committed", variant: "secondary" },
+  unmatched: { label: "No player match", variant: "secondary" },
+};
+
+// numeric(30,0) can come back as a JS number – normalize to a digit string
+const toDigits = (v: number | string | null | undefined): string => {
+  if (typeof v === "number") return BigInt(Math.round(v)).toString();
+  return BigInt((v ?? "").replace(/[^\d]/g, "") || "0").toString();
+};
+
+const ScreenshotRerunDialog = ({
+  eventId,
+  upload,
+  onClose,
+}: ScreenshotRerunDialogProps) => {
+  const [profiles, setProfiles] = useState<OCRLayoutProfile[]>(
+    BUILTIN_LAYOUT_PROFILES
+  );
+  const [profileId, setProfileId] = useState(BUILTIN_LAYOUT_PROFILES[0].id);
+  const [engineId, setEngineId] = useState<OCREngineId>(DEFAULT_OCR_ENGINE_ID);
+  const [running, setRunning] = useState(false);
+  const [diff, setDiff] = useState<DiffRow[] | null>(null);
+
+  useEffect(() => {
+    fetchLayoutProfiles().then(setProfiles);
+  }, []);
+
+  // default to the profile the screenshot was first processed with
+  useEffect(() => {
+    setDiff(null);
+    if (upload?.layout_profile_id) setProfileId(upload.layout_profile_id);
+  }, [upload]);
+
+  const handleRun = async () => {
+    if (!upload) return;
+    const profile =
+      profiles.find((p) => p.id === profileId) ?? BUILTIN_LAYOUT_PROFILES[0];
+
+    setRunning(true);
+    try {
+      const file = await downloadScreenshot(
+        upload.image_path,
+        upload.image_name ?? undefined
+      );
+
+      const nameLanguages = await fetchNameLanguages();
+
+      const rows = await getOCREngine(engineId).run(file, profile, {
+        nameLanguages,
+      });
+
+      const [{ data: players, error: playersError }, { data: scores, error: scoresError }] =
+        await Promise.all([
+          supabase
+            .from("players")
+            .select("id, canonical_name, aliases, is_alt, main_player_id")
+            .is("deleted_at", null),
+          supabase
+            .from("scores")
+            .select("player_id, score")
+            .eq("event_id", eventId),
+        ]);
+      if (playersError) throw playersError;
+      if (scoresError) throw scoresError;
+
+      const roster = (players || []) as RosterPlayer[];
+      const byId = new Map(roster.map((p) => [p.id, p]));
+      const committed = new Map(
+        (scores || []).map((s) => [s.player_id, toDigits(s.score)])
+      );
+
+      const result: DiffRow[] = rows.map((r) => {
+        const newScore = toDigits(r.bigScore);
+        const match = matchPlayerLocal(r.parsedName, roster);
+        if (!match) {
+          return {
+            rank: r.rank ?? null,
+            parsedName: r.parsedName,
+            playerName: null,
+            newScore,
+            committedScore: null,
+            status: "unmatched",
+          };
+        }
+
+        // alts commit to their main, same as the review screen
+        const finalId =
+          match.is_alt && match.main_player_id ? match.main_player_id : match.id;
+        const existing = committed.get(finalId) ?? null;
+
+        return {
+          rank: r.rank ?? null,
+          parsedName: r.parsedName,
+          playerName: byId.get(finalId)?.canonical_name ?? match.canonical_name,
+          newScore,
+          committedScore: existing,
+          status:
+            existing === null
+              ? "new"
+              : existing === newScore
+              ? "same"
+              : "changed",
+        };
+      });
+
+      setDiff(result);
+    } catch (err) {
+      toast.error("Re-run failed: " + (err as Error).message);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const counts = (diff || []).reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { same: 0, changed: 0, new: 0, unmatched: 0 } as Record<DiffStatus, number>
+  );
+
+  return (
+    <Dialog open={!!upload} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-run OCR</DialogTitle>
+          <DialogDescription>
+            Reprocess {upload?.image_name || "this screenshot"} and compare the
+            rows with the committed scores. Nothing is saved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 w-56">
+            <Label>Layout Profile</Label>
+            <Select value={profileId} onValueChange={setProfileId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 w-56">
+            <Label>OCR Engine</Label>
+            <Select
+              value={engineId}
+              onValueChange={(v) => setEngineId(v as OCREngineId)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCR_ENGINES.map((e) => (
+                  <SelectItem key={e.id} value={e.id}>
+                    {e.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleRun} disabled={running}>
+            <RefreshCw className={`mr-2 h-4 w-4 ${running ? "animate-spin" : ""}`} />
+            {running ? "Running OCR..." : "Run OCR"}
+          </Button>
+        </div>
+
+        {diff && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="outline">{counts.same} same</Badge>
+              <Badge variant="destructive">{counts.changed} changed</Badge>
+              <Badge variant="secondary">{counts.new} not committed</Badge>
+              <Badge variant="secondary">{counts.unmatched} unmatched</Badge>
+            </div>
+            <div className="rounded-lg border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Rank</TableHead>
+                    <TableHead>OCR Name</TableHead>
+                    <TableHead>Player</TableHead>
+                    <TableHead>New Score</TableHead>
+                    <TableHead>Committed</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.map((row, idx) => (
+                    <TableRow
+                      key={idx}
+                      className={row.status === "changed" ? "bg-destructive/5" : ""}
+                    >
+                      <TableCell className="font-mono text-sm">
+                        {row.rank ?? "—"}
+                      </TableCell>
+                      <TableCell>{row.parsedName || "—"}</TableCell>
+                      <TableCell>{row.playerName ?? "—"}</TableCell>
+                      <TableCell>{formatBigIntWithCommas(row.newScore)}</TableCell>
+                      <TableCell>
+                        {row.committedScore
+                          ? formatBigIntWithCommas(row.committedScore)
+                          : "—"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGE[row.status].variant}>
+                          {STATUS_BADGE[row.status].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScreenshotRerunDialog;
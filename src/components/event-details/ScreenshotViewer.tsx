@@ -0,0 +1,61 @@
+// src/components/event-details/ScreenshotViewer.tsx
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { getScreenshotUrl } from "@/lib/ocrScreenshots";
+
+interface ScreenshotViewerProps {
+  imagePath: string | null;
+  imageName?: string | null;
+  onClose: () => void;
+}
+
+const ScreenshotViewer = ({
+  imagePath,
+  imageName,
+  onClose,
+}: ScreenshotViewerProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    setError(null);
+    if (!imagePath) return;
+
+    getScreenshotUrl(imagePath)
+      .then(setUrl)
+      .catch((err: Error) => setError(err.message));
+  }, [imagePath]);
+
+  return (
+    <Dialog open={!!imagePath} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{imageName || "Screenshot"}</DialogTitle>
+          <DialogDescription>Original image used for OCR</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-destructive">
+            Failed to load screenshot: {error}
+          </p>
+        ) : url ? (
+          <img
+            src={url}
+            alt={imageName || "Stored screenshot"}
+            className="max-h-[70vh] w-full object-contain rounded border"
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ScreenshotViewer;
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -13,7 +13,9 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
+import { fetchRaffleSeries, type RaffleSeries } from "@/lib/raffleSeries";
 
 interface Event {
   id: string;
@@ -21,6 +23,8 @@ interface Event {
   event_date: string;
   location: string | null;
   description: string | null;
+  event_type?: string | null;
+  raffle_series_id?: string | null;
 }
 
 interface EventDialogProps {
@@ -34,10 +38,40 @@ interface EventFormData {
   event_date: string;
   location: string;
   description: string;
+  event_type: string;
 }
 
 const EventDialog = ({ event, open, onClose }: EventDialogProps) => {
   const { register, handleSubmit, reset, formState: { errors } } = useForm<EventFormData>();
+  const [knownTypes, setKnownTypes] = useState<string[]>([]);
+  const [series, setSeries] = useState<RaffleSeries[]>([]);
+  // "none" keeps the event out of every series (no carryover in or out)
+  const [seriesId, setSeriesId] = useState<string>("");
+
+  // suggest the types already in use so spellings stay consistent
+  useEffect(() => {
+    if (!open) return;
+    supabase
+      .from("events")
+      .select("event_type")
+      .not("event_type", "is", null)
+      .then(({ data }) => {
+        setKnownTypes(
+          Array.from(new Set((data || []).map((e) => e.event_type as string))).sort()
+        );
+      });
+    fetchRaffleSeries()
+      .then(setSeries)
+      .catch((err) => toast.error("Failed to load raffle series: " + (err as Error).message));
+  }, [open]);
+
+  useEffect(() => {
+    if (event) {
+      setSeriesId(event.raffle_series_id ?? "none");
+    } else {
+      setSeriesId(series.find((s) => s.is_default)?.id ?? "");
+    }
+  }, [event, series]);
 
   useEffect(() => {
     if (event) {
@@ -46,6 +80,7 @@ const EventDialog = ({ event, open, onClose }: EventDialogProps) => {
         event_date: event.event_date,
         location: event.location || "",
         description: event.description || "",
+        event_type: event.event_type || "",
       });
     } else {
       reset({
@@ -53,6 +88,7 @@ const EventDialog = ({ event, open, onClose }: EventDialogProps) => {
         event_date: "",
         location: "",
         description: "",
+        event_type: "",
       });
     }
   }, [event, reset]);
@@ -67,13 +103,18 @@ const EventDialog = ({ event, open, onClose }: EventDialogProps) => {
         event_date: data.event_date,
         location: data.location || null,
         description: data.description || null,
+        event_type: data.event_type.trim() || null,
         created_by: user.id,
       };
+      // new events without a choice fall into the default series on the server
+      const seriesData = seriesId
+        ? { raffle_series_id: seriesId === "none" ? null : seriesId }
+        : {};
 
       if (event) {
         const { error } = await supabase
           .from("events")
-          .update(eventData)
+          .update({ ...eventData, ...seriesData })
           .eq("id", event.id);
 
         if (error) throw error;
@@ -81,7 +122,7 @@ const EventDialog = ({ event, open, onClose }: EventDialogProps) => {
       } else {
         const { error } = await supabase
           .from("events")
-          .insert([eventData]);
+          .insert([{ ...eventData, ...seriesData }]);
 
         if (error) throw error;
         toast.success("Event created successfully");
@@ -127,6 +168,44 @@ const EventDialog = ({ event, open, onClose }: EventDialogProps) => {
             )}
           </div>
 
+          <div>
+            <Label htmlFor="event_type">Event Type</Label>
+            <Input
+              id="event_type"
+              list="event-type-options"
+              {...register("event_type")}
+              placeholder="Guild Boss"
+            />
+            <datalist id="event-type-options">
+              {knownTypes.map((t) => (
+                <option key={t} value={t} />
+              ))}
+            </datalist>
+            <p className="text-xs text-muted-foreground mt-1">
+              Scores are sanity-checked against earlier events of the same type
+            </p>
+          </div>
+
+          <div>
+            <Label>Raffle Series</Label>
+            <Select value={seriesId} onValueChange={setSeriesId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Default series" />
+              </SelectTrigger>
+              <SelectContent>
+                {series.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value="none">No series</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              Raffle entries carry over from the previous event of the same series
+            </p>
+          </div>
+
           <div>
             <Label htmlFor="location">Location</Label>
             <Input
@@ -13,6 +13,7 @@ interface Event {
   event_date: string;
   location: string | null;
   description: string | null;
+  event_type: string | null;
 }
 
 interface EventListProps {
@@ -78,6 +79,7 @@ const EventList = ({ onEdit, canManage }: EventListProps) => {
       <TableHeader>
         <TableRow>
           <TableHead>Name</TableHead>
+          <TableHead>Type</TableHead>
           <TableHead>Date</TableHead>
           <TableHead>Location</TableHead>
           <TableHead className="text-right">Actions</TableHead>
@@ -87,6 +89,7 @@ const EventList = ({ onEdit, canManage }: EventListProps) => {
         {events.map((event) => (
           <TableRow key={event.id}>
             <TableCell className="font-medium">{event.name}</TableCell>
+            <TableCell>{event.event_type || "-"}</TableCell>
             <TableCell>{format(new Date(event.event_date), "PPP")}</TableCell>
             <TableCell>{event.location || "-"}</TableCell>
             <TableCell className="text-right space-x-2">
@@ -0,0 +1,259 @@
+// src/components/ocr-tools/CorpusSampleEditor.tsx
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Play, Plus, Save, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CorpusRow,
+  CorpusSample,
+  createCorpusSample,
+  readCorpusRows,
+  updateCorpusSample,
+} from "@/lib/ocrQuality";
+import { OCRLayoutProfile } from "@/lib/ocrLayoutProfiles";
+import { OCREngineId } from "@/lib/ocrEngines";
+
+interface CorpusSampleEditorProps {
+  profiles: OCRLayoutProfile[];
+  engineId: OCREngineId;
+  nameLanguages: string[];
+  /** edit the ground truth of an existing sample instead of adding one */
+  sample?: CorpusSample | null;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Label one screenshot: pre-fill with OCR, then correct every row by hand
+ */
+const CorpusSampleEditor = ({
+  profiles,
+  engineId,
+  nameLanguages,
+  sample,
+  onSaved,
+  onCancel,
+}: CorpusSampleEditorProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState(sample?.name ?? "");
+  const [profileId, setProfileId] = useState(
+    sample?.layoutProfileId ?? profiles[0]?.id ?? ""
+  );
+  const [notes, setNotes] = useState(sample?.notes ?? "");
+  const [rows, setRows] = useState<CorpusRow[]>(sample?.expectedRows ?? []);
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const handleFile = (picked: File | undefined) => {
+    if (!picked) return;
+    setFile(picked);
+    if (!name) setName(picked.name);
+  };
+
+  const handlePrefill = async () => {
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!file || !profile) return;
+    setReading(true);
+    try {
+      setRows(await readCorpusRows(file, engineId, profile, nameLanguages));
+    } catch (err) {
+      toast.error("OCR failed: " + (err as Error).message);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const updateRow = (idx: number, patch: Partial<CorpusRow>) =>
+    setRows((prev) => prev.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+
+  const handleSave = async () => {
+    const cleaned = rows
+      .map((r) => ({ ...r, name: r.name.trim(), score: r.score.replace(/[^\d]/g, "") }))
+      .filter((r) => r.name || r.score);
+    if (!cleaned.length) {
+      toast.error("Add at least one ground-truth row");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const fields = {
+        name: name.trim() || file?.name || "Sample",
+        layoutProfileId: profileId || null,
+        notes: notes.trim() || null,
+        expectedRows: cleaned,
+      };
+      if (sample) {
+        await updateCorpusSample(sample.id, fields);
+      } else if (file) {
+        await createCorpusSample(file, fields);
+      }
+      toast.success(sample ? "Sample updated" : "Sample added to corpus");
+      onSaved();
+    } catch (err) {
+      toast.error("Failed to save sample: " + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        {!sample && (
+          <div className="space-y-2">
+            <Label htmlFor="corpus-sample-file">Screenshot</Label>
+            <Input
+              id="corpus-sample-file"
+              type="file"
+              accept="image/*"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="corpus-sample-name">Name</Label>
+          <Input
+            id="corpus-sample-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. guild war p2 (dark mode)"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Layout Profile</Label>
+          <Select value={profileId} onValueChange={setProfileId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select layout" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2 md:col-span-3">
+          <Label htmlFor="corpus-sample-notes">Notes</Label>
+          <Input
+            id="corpus-sample-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="What makes this screenshot hard"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {!sample && (
+          <Button
+            variant="outline"
+            onClick={handlePrefill}
+            disabled={!file || reading}
+          >
+            <Play className="mr-2 h-4 w-4" />
+            {reading ? "Running OCR..." : "Pre-fill with OCR"}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={() => setRows((prev) => [...prev, { name: "", score: "", rank: null }])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Row
+        </Button>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="rounded-lg border overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[60px]">Row</TableHead>
+                <TableHead className="w-[90px]">Rank</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Score</TableHead>
+                <TableHead className="w-[50px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, idx) => (
+                <TableRow key={idx}>
+                  <TableCell className="font-mono text-sm">{idx + 1}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={row.rank ?? ""}
+                      onChange={(e) =>
+                        updateRow(idx, {
+                          rank: e.target.value ? Number(e.target.value) : null,
+                        })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.name}
+                      onChange={(e) => updateRow(idx, { name: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.score}
+                      inputMode="numeric"
+                      className="font-mono"
+                      onChange={(e) =>
+                        updateRow(idx, { score: e.target.value.replace(/[^\d]/g, "") })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setRows((prev) => prev.filter((_, i) => i !== idx))}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={saving || (!sample && !file)}>
+          <Save className="mr-2 h-4 w-4" />
+          {saving ? "Saving..." : sample ? "Save Ground Truth" : "Add to Corpus"}
+        </Button>
+        <Button variant="ghost" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default CorpusSampleEditor;
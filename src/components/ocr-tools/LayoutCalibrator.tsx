@@ -0,0 +1,710 @@
+// src/components/ocr-tools/LayoutCalibrator.tsx
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Save, Play, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BUILTIN_LAYOUT_PROFILES,
+  DEFAULT_LAYOUT_PROFILE_ID,
+  OCRLayoutProfile,
+  columnToPixels,
+  deleteLayoutProfile,
+  fetchLayoutProfiles,
+  getPreprocessChains,
+  isBuiltinLayoutProfile,
+  saveLayoutProfile,
+} from "@/lib/ocrLayoutProfiles";
+import { computeRowBoxes, runAvalonLeaderboardOCR } from "@/lib/ocrTwoPass";
+import { previewSmartSegments } from "@/lib/ocrSmartSegment";
+import { loadImageAtOriginalResolution, runPreprocessChain } from "@/lib/ocrPreprocess";
+import PreprocessingPanel from "./PreprocessingPanel";
+
+interface LayoutCalibratorProps {
+  canSave: boolean;
+}
+
+type DragTarget =
+  | "nameLeft"
+  | "nameRight"
+  | "scoreLeft"
+  | "scoreRight"
+  | "rankLeft"
+  | "rankRight"
+  | "rowTop"
+  | "rowBottom";
+
+interface DragState {
+  target: DragTarget;
+  // raw (untrimmed) bounds of the first row when the drag started
+  rawTop: number;
+  rawBottom: number;
+}
+
+interface LoadedSample {
+  file: File;
+  url: string;
+  img: HTMLImageElement;
+  canvas: HTMLCanvasElement;
+}
+
+interface TestRow {
+  rank: number | null;
+  parsedName: string;
+  bigScore: string;
+  confidence: number;
+}
+
+const slugify = (s: string) =>
+  s
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+const DEFAULT_RANK_COLUMN = { left: 0, right: 0.09 };
+
+const LayoutCalibrator = ({ canSave }: LayoutCalibratorProps) => {
+  const [profiles, setProfiles] = useState<OCRLayoutProfile[]>(
+    BUILTIN_LAYOUT_PROFILES
+  );
+  const [draft, setDraft] = useState<OCRLayoutProfile>(
+    BUILTIN_LAYOUT_PROFILES[0]
+  );
+  const [newName, setNewName] = useState("");
+  const [sample, setSample] = useState<LoadedSample | null>(null);
+  const [mode, setMode] = useState<"separators" | "bands">("separators");
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [testRows, setTestRows] = useState<TestRow[]>([]);
+  const [testing, setTesting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const loadProfiles = async (selectId?: string) => {
+    const list = await fetchLayoutProfiles();
+    setProfiles(list);
+    const selected = list.find((p) => p.id === (selectId ?? draft.id));
+    if (selected) setDraft(selected);
+  };
+
+  useEffect(() => {
+    loadProfiles(DEFAULT_LAYOUT_PROFILE_ID);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // release the object url when the sample changes
+  useEffect(() => {
+    return () => {
+      if (sample) URL.revokeObjectURL(sample.url);
+    };
+  }, [sample]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image file");
+      return;
+    }
+    try {
+      const img = await loadImageAtOriginalResolution(file);
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas
+        .getContext("2d", { willReadFrequently: true })!
+        .drawImage(img, 0, 0);
+      setSample({ file, url: URL.createObjectURL(file), img, canvas });
+      setTestRows([]);
+    } catch (err) {
+      toast.error("Failed to load image: " + (err as Error).message);
+    }
+  };
+
+  // ====== overlay geometry ======
+  // the pipelines find rows on the image after rectify / deskew – so does the overlay
+  const base = useMemo(() => {
+    if (!sample) return null;
+    const { image } = getPreprocessChains(draft);
+    if (!image.length) return { canvas: sample.canvas, url: sample.url };
+    const canvas = runPreprocessChain(sample.canvas, image).canvas;
+    return { canvas, url: canvas.toDataURL() };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sample, draft.preprocess]);
+
+  const rowLayout = useMemo(() => {
+    if (!base) return { separators: [] as number[], rows: [] };
+    return computeRowBoxes(base.canvas, draft);
+  }, [base, draft]);
+
+  const bands = useMemo(() => {
+    if (!sample || mode !== "bands") return [];
+    return previewSmartSegments(sample.img, draft);
+    // only the band threshold / row cap / image chain affect segmentation
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sample, mode, draft.segmentThreshold, draft.maxRows, draft.preprocess]);
+
+  const width = base?.canvas.width ?? 0;
+  const height = base?.canvas.height ?? 0;
+  const nameCol = columnToPixels(draft.nameColumn, width);
+  const scoreCol = columnToPixels(draft.scoreColumn, width);
+  const rankCol = draft.rankColumn
+    ? columnToPixels(draft.rankColumn, width)
+    : null;
+  const rowBoxes =
+    mode === "separators"
+      ? rowLayout.rows
+      : bands.map((b) => ({ y: b.y, height: b.h }));
+  const firstRow = rowLayout.rows[0];
+
+  // ====== dragging ======
+  const toImageCoords = (e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * width,
+      y: ((e.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  const startDrag =
+    (target: DragTarget) => (e: React.PointerEvent<SVGLineElement>) => {
+      e.preventDefault();
+      svgRef.current?.setPointerCapture(e.pointerId);
+      setDrag({
+        target,
+        rawTop: firstRow ? firstRow.y - draft.rowTopCut : 0,
+        rawBottom: firstRow
+          ? firstRow.y + firstRow.height + draft.rowBottomCut
+          : 0,
+      });
+    };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag || !width) return;
+    const { x, y } = toImageCoords(e);
+    const fx = clamp01(x / width);
+
+    setDraft((prev) => {
+      switch (drag.target) {
+        case "nameLeft":
+          return {
+            ...prev,
+            nameColumn: { ...prev.nameColumn, left: Math.min(fx, prev.nameColumn.right) },
+          };
+        case "nameRight":
+          return {
+            ...prev,
+            nameColumn: { ...prev.nameColumn, right: Math.max(fx, prev.nameColumn.left) },
+          };
+        case "scoreLeft":
+          return {
+            ...prev,
+            scoreColumn: { ...prev.scoreColumn, left: Math.min(fx, prev.scoreColumn.right) },
+          };
+        case "scoreRight":
+          return {
+            ...prev,
+            scoreColumn: { ...prev.scoreColumn, right: Math.max(fx, prev.scoreColumn.left) },
+          };
+        case "rankLeft":
+          if (!prev.rankColumn) return prev;
+          return {
+            ...prev,
+            rankColumn: { ...prev.rankColumn, left: Math.min(fx, prev.rankColumn.right) },
+          };
+        case "rankRight":
+          if (!prev.rankColumn) return prev;
+          return {
+            ...prev,
+            rankColumn: { ...prev.rankColumn, right: Math.max(fx, prev.rankColumn.left) },
+          };
+        case "rowTop":
+          return { ...prev, rowTopCut: Math.max(0, Math.round(y - drag.rawTop)) };
+        case "rowBottom":
+          return {
+            ...prev,
+            rowBottomCut: Math.max(0, Math.round(drag.rawBottom - y)),
+          };
+        default:
+          return prev;
+      }
+    });
+  };
+
+  const endDrag = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    svgRef.current?.releasePointerCapture(e.pointerId);
+    setDrag(null);
+  };
+
+  // ====== actions ======
+  const handleSelectProfile = (id: string) => {
+    const p = profiles.find((x) => x.id === id);
+    if (p) setDraft(p);
+  };
+
+  const handleNumberChange = (
+    key: "rowTopCut" | "rowBottomCut" | "separatorThreshold" | "segmentThreshold" | "maxRows",
+    value: string
+  ) => {
+    const n = parseInt(value, 10);
+    if (isNaN(n) || n < 0) return;
+    setDraft((prev) => ({ ...prev, [key]: n }));
+  };
+
+  const handleToggleRank = (checked: boolean) => {
+    setDraft((prev) => ({
+      ...prev,
+      rankColumn: checked ? prev.rankColumn ?? DEFAULT_RANK_COLUMN : undefined,
+    }));
+  };
+
+  const handleSave = async (asNew: boolean) => {
+    if (!canSave) return;
+    const name = asNew ? newName.trim() : draft.name;
+    if (!name) {
+      toast.error("Enter a name for the new profile");
+      return;
+    }
+    const profile: OCRLayoutProfile = asNew
+      ? { ...draft, id: `${slugify(name)}-${Date.now().toString(36)}`, name }
+      : draft;
+
+    setSaving(true);
+    try {
+      await saveLayoutProfile(profile);
+      toast.success(`Layout "${profile.name}" saved`);
+      setNewName("");
+      await loadProfiles(profile.id);
+    } catch (err) {
+      toast.error("Failed to save layout: " + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    try {
+      await deleteLayoutProfile(draft.id);
+      toast.success(
+        isBuiltinLayoutProfile(draft.id)
+          ? `Layout "${draft.name}" reset to built-in values`
+          : `Layout "${draft.name}" deleted`
+      );
+      await loadProfiles(
+        isBuiltinLayoutProfile(draft.id) ? draft.id : DEFAULT_LAYOUT_PROFILE_ID
+      );
+    } catch (err) {
+      toast.error("Failed to delete layout: " + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleTest = async () => {
+    if (!sample) return;
+    setTesting(true);
+    try {
+      const rows = await runAvalonLeaderboardOCR(sample.file, draft);
+      setTestRows(
+        rows.map((r) => ({
+          rank: r.rank ?? null,
+          parsedName: r.parsedName,
+          bigScore: r.bigScore,
+          confidence: r.confidence,
+        }))
+      );
+    } catch (err) {
+      toast.error("OCR failed: " + ((err as Error)?.message || "unknown error"));
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  // ====== render ======
+  const handleLine = (
+    target: DragTarget,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: string
+  ) => (
+    <g key={target}>
+      <line
+        x1={x1}
+        y1={y1}
+        x2={x2}
+        y2={y2}
+        stroke={color}
+        strokeWidth={2}
+        strokeDasharray="6 4"
+        vectorEffect="non-scaling-stroke"
+      />
+      {/* wide invisible hit area */}
+      <line
+        x1={x1}
+        y1={y1}
+        x2={x2}
+        y2={y2}
+        stroke="transparent"
+        strokeWidth={14}
+        vectorEffect="non-scaling-stroke"
+        className={x1 === x2 ? "cursor-ew-resize" : "cursor-ns-resize"}
+        onPointerDown={startDrag(target)}
+      />
+    </g>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-4 space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label>Start From Profile</Label>
+            <Select value={draft.id} onValueChange={handleSelectProfile}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select layout" />
+              </SelectTrigger>
+              <SelectContent>
+                {profiles.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Overlay</Label>
+            <Select
+              value={mode}
+              onValueChange={(v) => setMode(v as "separators" | "bands")}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="separators">
+                  Separator lines (two-pass OCR)
+                </SelectItem>
+                <SelectItem value="bands">Beige bands (smart OCR)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="calibration-sample">Sample Screenshot</Label>
+            <Input
+              id="calibration-sample"
+              type="file"
+              accept="image/*"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label className="text-xs">Row top cut (px)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={draft.rowTopCut}
+              onChange={(e) => handleNumberChange("rowTopCut", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Row bottom cut (px)</Label>
+            <Input
+              type="number"
+              min="0"
+              value={draft.rowBottomCut}
+              onChange={(e) =>
+                handleNumberChange("rowBottomCut", e.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Separator threshold</Label>
+            <Input
+              type="number"
+              min="0"
+              max="255"
+              value={draft.separatorThreshold}
+              onChange={(e) =>
+                handleNumberChange("separatorThreshold", e.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Band threshold</Label>
+            <Input
+              type="number"
+              min="0"
+              max="255"
+              value={draft.segmentThreshold}
+              onChange={(e) =>
+                handleNumberChange("segmentThreshold", e.target.value)
+              }
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Max rows</Label>
+            <Input
+              type="number"
+              min="1"
+              value={draft.maxRows}
+              onChange={(e) => handleNumberChange("maxRows", e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+          <Badge variant="outline">
+            Name {Math.round(draft.nameColumn.left * 100)}–
+            {Math.round(draft.nameColumn.right * 100)}%
+          </Badge>
+          <Badge variant="outline">
+            Score {Math.round(draft.scoreColumn.left * 100)}–
+            {Math.round(draft.scoreColumn.right * 100)}%
+          </Badge>
+          {draft.rankColumn && (
+            <Badge variant="outline">
+              Rank {Math.round(draft.rankColumn.left * 100)}–
+              {Math.round(draft.rankColumn.right * 100)}%
+            </Badge>
+          )}
+          <label className="flex items-center gap-2">
+            <Checkbox
+              checked={!!draft.rankColumn}
+              onCheckedChange={(v) => handleToggleRank(v === true)}
+            />
+            Read rank column
+          </label>
+          {sample && (
+            <Badge variant="outline">
+              {rowBoxes.length} rows detected
+            </Badge>
+          )}
+        </div>
+      </Card>
+
+      {sample ? (
+        <div className="relative w-full max-w-3xl mx-auto border rounded overflow-hidden select-none">
+          <img src={base?.url ?? sample.url} alt="Calibration sample" className="block w-full" />
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${width} ${height}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full"
+            onPointerMove={handlePointerMove}
+            onPointerUp={endDrag}
+            onPointerLeave={endDrag}
+          >
+            {mode === "separators" &&
+              rowLayout.separators.map((y) => (
+                <line
+                  key={`sep-${y}`}
+                  x1={0}
+                  x2={width}
+                  y1={y}
+                  y2={y}
+                  stroke="#ef4444"
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+
+            {rowBoxes.map((row, idx) => (
+              <g key={`row-${idx}`}>
+                <rect
+                  x={nameCol.x}
+                  y={row.y}
+                  width={nameCol.width}
+                  height={row.height}
+                  fill="rgba(59,130,246,0.15)"
+                  stroke="#3b82f6"
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                />
+                <rect
+                  x={scoreCol.x}
+                  y={row.y}
+                  width={scoreCol.width}
+                  height={row.height}
+                  fill="rgba(34,197,94,0.15)"
+                  stroke="#22c55e"
+                  strokeWidth={1}
+                  vectorEffect="non-scaling-stroke"
+                />
+                {rankCol && (
+                  <rect
+                    x={rankCol.x}
+                    y={row.y}
+                    width={rankCol.width}
+                    height={row.height}
+                    fill="rgba(168,85,247,0.15)"
+                    stroke="#a855f7"
+                    strokeWidth={1}
+                    vectorEffect="non-scaling-stroke"
+                  />
+                )}
+              </g>
+            ))}
+
+            {/* column handles */}
+            {handleLine("nameLeft", nameCol.x, 0, nameCol.x, height, "#3b82f6")}
+            {handleLine(
+              "nameRight",
+              nameCol.x + nameCol.width,
+              0,
+              nameCol.x + nameCol.width,
+              height,
+              "#3b82f6"
+            )}
+            {handleLine("scoreLeft", scoreCol.x, 0, scoreCol.x, height, "#22c55e")}
+            {handleLine(
+              "scoreRight",
+              scoreCol.x + scoreCol.width,
+              0,
+              scoreCol.x + scoreCol.width,
+              height,
+              "#22c55e"
+            )}
+
+            {rankCol &&
+              handleLine("rankLeft", rankCol.x, 0, rankCol.x, height, "#a855f7")}
+            {rankCol &&
+              handleLine(
+                "rankRight",
+                rankCol.x + rankCol.width,
+                0,
+                rankCol.x + rankCol.width,
+                height,
+                "#a855f7"
+              )}
+
+            {/* row trim handles (on the first detected row) */}
+            {mode === "separators" &&
+              firstRow &&
+              handleLine("rowTop", 0, firstRow.y, width, firstRow.y, "#f59e0b")}
+            {mode === "separators" &&
+              firstRow &&
+              handleLine(
+                "rowBottom",
+                0,
+                firstRow.y + firstRow.height,
+                width,
+                firstRow.y + firstRow.height,
+                "#f59e0b"
+              )}
+          </svg>
+        </div>
+      ) : (
+        <div className="border-2 border-dashed rounded-lg p-10 text-center text-muted-foreground bg-muted/30">
+          <Upload className="mx-auto mb-2 h-6 w-6" />
+          Pick one leaderboard screenshot to calibrate against
+        </div>
+      )}
+
+      <PreprocessingPanel
+        draft={draft}
+        onChange={(preprocess) => setDraft((prev) => ({ ...prev, preprocess }))}
+        sampleCanvas={sample?.canvas ?? null}
+      />
+
+      <Card className="p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleTest}
+            disabled={!sample || testing}
+          >
+            <Play className="mr-2 h-4 w-4" />
+            {testing ? "Running OCR..." : "Test Layout"}
+          </Button>
+          {canSave && (
+            <>
+              <Button onClick={() => handleSave(false)} disabled={saving}>
+                <Save className="mr-2 h-4 w-4" />
+                Save "{draft.name}"
+              </Button>
+              <div className="flex items-end gap-2">
+                <Input
+                  placeholder="New profile name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  className="w-48"
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => handleSave(true)}
+                  disabled={saving || !newName.trim()}
+                >
+                  Save as New
+                </Button>
+              </div>
+              <Button variant="ghost" onClick={handleDelete} disabled={saving}>
+                <Trash2 className="mr-2 h-4 w-4 text-destructive" />
+                {isBuiltinLayoutProfile(draft.id) ? "Reset Built-in" : "Delete"}
+              </Button>
+            </>
+          )}
+        </div>
+
+        {testRows.length > 0 && (
+          <div className="rounded-lg border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[60px]">Row</TableHead>
+                  <TableHead className="w-[60px]">Rank</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead>Confidence</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {testRows.map((row, idx) => (
+                  <TableRow key={idx}>
+                    <TableCell className="font-mono text-sm">{idx + 1}</TableCell>
+                    <TableCell>{row.rank ?? "—"}</TableCell>
+                    <TableCell>{row.parsedName || "—"}</TableCell>
+                    <TableCell>
+                      {row.bigScore.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}
+                    </TableCell>
+                    <TableCell>{(row.confidence * 100).toFixed(0)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default LayoutCalibrator;
@@ -0,0 +1,110 @@
+// src/components/ocr-tools/NameLanguageSettings.tsx
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Save } from "lucide-react";
+import { toast } from "sonner";
+import {
+  NAME_LANGUAGE_OPTIONS,
+  fetchNameLanguages,
+  isModelAvailable,
+  saveNameLanguages,
+} from "@/lib/ocrLanguages";
+import { LOCAL_TESSDATA_PATH } from "@/lib/ocrWorkerPool";
+
+interface NameLanguageSettingsProps {
+  canSave: boolean;
+}
+
+const NameLanguageSettings = ({ canSave }: NameLanguageSettingsProps) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [available, setAvailable] = useState<Record<string, boolean>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchNameLanguages().then(setSelected);
+
+    // eng has to be local too once any extra model is mixed in
+    const codes = ["eng", ...NAME_LANGUAGE_OPTIONS.map((o) => o.code)];
+    Promise.all(codes.map(async (c) => [c, await isModelAvailable(c)] as const)).then(
+      (pairs) => setAvailable(Object.fromEntries(pairs))
+    );
+  }, []);
+
+  const toggle = (code: string, on: boolean) =>
+    setSelected((prev) =>
+      on ? [...prev.filter((c) => c !== code), code] : prev.filter((c) => c !== code)
+    );
+
+  const missing = selected.filter((c) => available[c] === false);
+  const engMissing = selected.length > 0 && available.eng === false;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveNameLanguages(selected);
+      toast.success("Name languages saved");
+    } catch (err) {
+      toast.error("Failed to save: " + (err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        The name column is always read with English. Extra models are loaded
+        from <code>{LOCAL_TESSDATA_PATH}</code> – copy the{" "}
+        <code>.traineddata</code> files (including <code>eng</code>) into{" "}
+        <code>public/tessdata</code> before enabling them. Each extra model
+        slows the name pass down.
+      </p>
+
+      <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-3">
+        {NAME_LANGUAGE_OPTIONS.map((o) => (
+          <div key={o.code} className="flex items-center gap-2">
+            <Checkbox
+              id={`lang-${o.code}`}
+              checked={selected.includes(o.code)}
+              onCheckedChange={(v) => toggle(o.code, v === true)}
+              disabled={!canSave}
+            />
+            <Label htmlFor={`lang-${o.code}`} className="font-normal">
+              {o.label}
+            </Label>
+            <Badge variant="outline" className="font-mono text-xs">
+              {o.code}
+            </Badge>
+            {available[o.code] === false && (
+              <Badge variant="secondary" className="text-xs">
+                file missing
+              </Badge>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {(missing.length > 0 || engMissing) && (
+        <p className="text-sm text-destructive">
+          Missing model files:{" "}
+          {[...(engMissing ? ["eng"] : []), ...missing]
+            .map((c) => `${c}.traineddata`)
+            .join(", ")}
+          . OCR runs will fail until they are added.
+        </p>
+      )}
+
+      {canSave && (
+        <Button onClick={handleSave} disabled={saving}>
+          <Save className="mr-2 h-4 w-4" />
+          {saving ? "Saving..." : "Save Languages"}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default NameLanguageSettings;
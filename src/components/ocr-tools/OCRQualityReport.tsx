@@ -0,0 +1,462 @@
+// src/components/ocr-tools/OCRQualityReport.tsx
+import { Fragment, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Pencil, Play, Plus, Square, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BUILTIN_LAYOUT_PROFILES,
+  OCRLayoutProfile,
+  fetchLayoutProfiles,
+} from "@/lib/ocrLayoutProfiles";
+import {
+  DEFAULT_OCR_ENGINE_ID,
+  OCREngineId,
+  OCR_ENGINES,
+} from "@/lib/ocrEngines";
+import { fetchNameLanguages } from "@/lib/ocrLanguages";
+import {
+  CorpusRow,
+  CorpusSample,
+  QualityRun,
+  QualitySummary,
+  RowOutcome,
+  deleteCorpusSample,
+  fetchCorpusSamples,
+  fetchQualityRuns,
+  findRegressions,
+  runQualityCorpus,
+  saveQualityRun,
+} from "@/lib/ocrQuality";
+import CorpusSampleEditor from "./CorpusSampleEditor";
+
+interface OCRQualityReportProps {
+  /** admins curate the corpus, leaders can only run it */
+  canEditCorpus: boolean;
+}
+
+const pct = (v: number | null) => (v === null ? "—" : `${(v * 100).toFixed(1)}%`);
+
+const formatRow = (row: CorpusRow | null) =>
+  row
+    ? `${row.rank ?? "?"} · ${row.name || "—"} · ${row.score.replace(/\B(?=(\d{3})+(?!\d))/g, ",") || "—"}`
+    : "missing";
+
+const SUMMARY_FIELDS: {
+  key: keyof QualitySummary;
+  label: string;
+  percent: boolean;
+  /** lower is better */
+  inverted?: boolean;
+}[] = [
+  { key: "rowAccuracy", label: "Rows correct", percent: true },
+  { key: "nameAccuracy", label: "Names", percent: true },
+  { key: "scoreAccuracy", label: "Scores", percent: true },
+  { key: "rankAccuracy", label: "Ranks", percent: true },
+  { key: "digitErrorRate", label: "Digit error rate", percent: true, inverted: true },
+  { key: "missingRows", label: "Missing rows", percent: false, inverted: true },
+  { key: "extraRows", label: "Extra rows", percent: false, inverted: true },
+];
+
+const OCRQualityReport = ({ canEditCorpus }: OCRQualityReportProps) => {
+  const [profiles, setProfiles] = useState<OCRLayoutProfile[]>(
+    BUILTIN_LAYOUT_PROFILES
+  );
+  const [nameLanguages, setNameLanguages] = useState<string[]>([]);
+  const [samples, setSamples] = useState<CorpusSample[]>([]);
+  const [editing, setEditing] = useState<CorpusSample | "new" | null>(null);
+  const [engineId, setEngineId] = useState<OCREngineId>(DEFAULT_OCR_ENGINE_ID);
+  const [runs, setRuns] = useState<QualityRun[]>([]);
+  const [shownRunId, setShownRunId] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadSamples = async () => {
+    try {
+      setSamples(await fetchCorpusSamples());
+    } catch (err) {
+      toast.error("Failed to load corpus: " + (err as Error).message);
+    }
+  };
+
+  const loadRuns = async (engine: OCREngineId) => {
+    try {
+      const list = await fetchQualityRuns(engine);
+      setRuns(list);
+      setShownRunId(list[0]?.id ?? null);
+    } catch (err) {
+      toast.error("Failed to load previous runs: " + (err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    fetchLayoutProfiles().then(setProfiles);
+    fetchNameLanguages().then(setNameLanguages);
+    loadSamples();
+  }, []);
+
+  useEffect(() => {
+    loadRuns(engineId);
+  }, [engineId]);
+
+  const shownIndex = runs.findIndex((r) => r.id === shownRunId);
+  const shown = shownIndex >= 0 ? runs[shownIndex] : null;
+  // each run is compared with the one recorded before it
+  const baseline = shownIndex >= 0 ? runs[shownIndex + 1] ?? null : null;
+  const regressions = shown && baseline ? findRegressions(shown.results, baseline.results) : [];
+
+  const handleRun = async () => {
+    if (!samples.length) {
+      toast.error("The corpus is empty – add a labelled screenshot first");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    try {
+      const results = await runQualityCorpus(samples, engineId, profiles, {
+        signal: controller.signal,
+        nameLanguages,
+        onSample: (done, total) => setProgress({ done, total }),
+      });
+      if (controller.signal.aborted) {
+        toast.info("Quality run cancelled – nothing was recorded");
+        return;
+      }
+
+      const run = await saveQualityRun(engineId, results, label);
+      setRuns((prev) => [run, ...prev]);
+      setShownRunId(run.id);
+      setLabel("");
+      toast.success(`Corpus run recorded: ${pct(run.summary.rowAccuracy)} rows correct`);
+    } catch (err) {
+      toast.error("Quality run failed: " + (err as Error).message);
+    } finally {
+      abortRef.current = null;
+      setRunning(false);
+    }
+  };
+
+  const handleDelete = async (sample: CorpusSample) => {
+    if (!confirm(`Remove "${sample.name}" from the corpus?`)) return;
+    try {
+      await deleteCorpusSample(sample);
+      setSamples((prev) => prev.filter((s) => s.id !== sample.id));
+    } catch (err) {
+      toast.error("Failed to delete sample: " + (err as Error).message);
+    }
+  };
+
+  const renderDelta = (field: (typeof SUMMARY_FIELDS)[number]) => {
+    if (!shown || !baseline) return null;
+    const now = shown.summary[field.key];
+    const before = baseline.summary[field.key];
+    if (now === null || before === null || now === before) return null;
+
+    const delta = now - before;
+    const better = field.inverted ? delta < 0 : delta > 0;
+    return (
+      <span className={`text-xs ${better ? "text-green-600" : "text-destructive"}`}>
+        {delta > 0 ? "+" : ""}
+        {field.percent ? `${(delta * 100).toFixed(1)}pp` : delta}
+      </span>
+    );
+  };
+
+  const mismatches = (rows: RowOutcome[]) =>
+    rows.filter((r) => !r.nameOk || !r.scoreOk || r.rankOk === false);
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold">Regression Corpus</h3>
+            <p className="text-sm text-muted-foreground">
+              Labelled screenshots with their correct rows. Add the ones that
+              broke before so they stay fixed.
+            </p>
+          </div>
+          {canEditCorpus && editing === null && (
+            <Button variant="outline" onClick={() => setEditing("new")}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Sample
+            </Button>
+          )}
+        </div>
+
+        {editing !== null && (
+          <CorpusSampleEditor
+            key={editing === "new" ? "new" : editing.id}
+            profiles={profiles}
+            engineId={engineId}
+            nameLanguages={nameLanguages}
+            sample={editing === "new" ? null : editing}
+            onSaved={() => {
+              setEditing(null);
+              loadSamples();
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {samples.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No samples yet.</p>
+        ) : (
+          <div className="rounded-lg border overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sample</TableHead>
+                  <TableHead>Layout</TableHead>
+                  <TableHead className="w-[80px]">Rows</TableHead>
+                  <TableHead>Notes</TableHead>
+                  {canEditCorpus && <TableHead className="w-[100px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {samples.map((s) => (
+                  <TableRow key={s.id}>
+                    <TableCell className="font-medium">{s.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {profiles.find((p) => p.id === s.layoutProfileId)?.name ??
+                        s.layoutProfileId ??
+                        "default"}
+                    </TableCell>
+                    <TableCell>{s.expectedRows.length}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {s.notes || "—"}
+                    </TableCell>
+                    {canEditCorpus && (
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setEditing(s)}
+                            disabled={running}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(s)}
+                            disabled={running}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </Card>
+
+      <Card className="p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>OCR Engine</Label>
+            <Select
+              value={engineId}
+              onValueChange={(v) => setEngineId(v as OCREngineId)}
+              disabled={running}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OCR_ENGINES.map((e) => (
+                  <SelectItem key={e.id} value={e.id}>
+                    {e.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="quality-run-label">Label (optional)</Label>
+            <Input
+              id="quality-run-label"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. lower separator threshold"
+              className="w-64"
+            />
+          </div>
+          {running ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              <Square className="mr-2 h-4 w-4" />
+              Cancel ({progress.done}/{progress.total})
+            </Button>
+          ) : (
+            <Button onClick={handleRun} disabled={!samples.length}>
+              <Play className="mr-2 h-4 w-4" />
+              Run Corpus
+            </Button>
+          )}
+        </div>
+
+        {runs.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Runs:</span>
+            {runs.map((r) => (
+              <Badge
+                key={r.id}
+                variant={r.id === shownRunId ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setShownRunId(r.id)}
+              >
+                {new Date(r.createdAt).toLocaleString()}
+                {r.label ? ` · ${r.label}` : ""}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {shown && (
+          <>
+            <div className="grid gap-3 grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+              {SUMMARY_FIELDS.map((f) => {
+                const value = shown.summary[f.key];
+                return (
+                  <div key={f.key} className="rounded-lg border p-3">
+                    <div className="text-xs text-muted-foreground">{f.label}</div>
+                    <div className="text-lg font-semibold">
+                      {f.percent ? pct(value) : value}
+                    </div>
+                    {renderDelta(f)}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {shown.summary.samples} samples, {shown.summary.expectedRows} rows
+              {baseline
+                ? ` – compared with the run from ${new Date(baseline.createdAt).toLocaleString()}`
+                : " – no earlier run to compare with"}
+            </p>
+
+            {regressions.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold text-destructive">
+                  {regressions.length} row(s) regressed
+                </h4>
+                <div className="rounded-lg border overflow-hidden">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Sample</TableHead>
+                        <TableHead>Expected</TableHead>
+                        <TableHead>Was read as</TableHead>
+                        <TableHead>Now read as</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {regressions.map((r, idx) => (
+                        <TableRow key={idx}>
+                          <TableCell>{r.sampleName}</TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {formatRow(r.after.expected)}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {formatRow(r.before.actual)}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm text-destructive">
+                            {formatRow(r.after.actual)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            <div className="rounded-lg border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead>Read as</TableHead>
+                    <TableHead className="w-[90px]">Digit errors</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shown.results.map((report) => {
+                    const wrong = mismatches(report.rows);
+                    const correct = report.rows.length - wrong.length;
+                    return (
+                      <Fragment key={report.sampleId}>
+                        <TableRow className="bg-muted/50">
+                          <TableCell className="font-medium">{report.sampleName}</TableCell>
+                          <TableCell colSpan={3} className="text-sm">
+                            {correct}/{report.rows.length} rows correct
+                            {report.extraRows.length > 0 &&
+                              `, ${report.extraRows.length} extra`}
+                            {report.error && (
+                              <span className="ml-2 text-destructive">{report.error}</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {wrong.map((row, idx) => (
+                          <TableRow key={idx}>
+                            <TableCell />
+                            <TableCell className="font-mono text-sm">
+                              {formatRow(row.expected)}
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {formatRow(row.actual)}
+                              <span className="ml-2 text-xs text-muted-foreground">
+                                {[
+                                  !row.nameOk && "name",
+                                  !row.scoreOk && "score",
+                                  row.rankOk === false && "rank",
+                                ]
+                                  .filter(Boolean)
+                                  .join(", ")}
+                              </span>
+                            </TableCell>
+                            <TableCell>{row.digitErrors}</TableCell>
+                          </TableRow>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default OCRQualityReport;
@@ -0,0 +1,307 @@
+// src/components/ocr-tools/PreprocessingPanel.tsx
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Eye, Plus, RotateCcw, X } from "lucide-react";
+import {
+  PREPROCESS_STEP_KINDS,
+  PreprocessChains,
+  PreprocessStage,
+  PreprocessStep,
+  PreprocessStepKind,
+} from "@/lib/ocrPreprocess";
+import { OCRLayoutProfile, getPreprocessChains } from "@/lib/ocrLayoutProfiles";
+import { RowPreprocessPreview, previewRowPreprocessing } from "@/lib/ocrTwoPass";
+
+interface PreprocessingPanelProps {
+  draft: OCRLayoutProfile;
+  onChange: (preprocess: PreprocessChains | undefined) => void;
+  /** calibration screenshot at original resolution */
+  sampleCanvas: HTMLCanvasElement | null;
+}
+
+type ChainKey = keyof PreprocessChains;
+
+const CHAIN_LABELS: Record<ChainKey, string> = {
+  image: "Whole screenshot",
+  name: "Name column",
+  score: "Score column",
+  rank: "Rank column",
+};
+
+const STEP_LABELS: Record<PreprocessStepKind, string> = {
+  scale: "Scale",
+  colorMask: "Colour mask",
+  grayscale: "Grayscale",
+  threshold: "Threshold",
+  deskew: "Deskew",
+  rectify: "Rectify panel",
+};
+
+const newStep = (kind: PreprocessStepKind): PreprocessStep => {
+  switch (kind) {
+    case "scale":
+      return { kind, targetWidth: 600 };
+    case "colorMask":
+      return { kind };
+    case "grayscale":
+      return { kind, gain: 1.35 };
+    case "threshold":
+      return { kind, method: "otsu" };
+    case "deskew":
+      return { kind, maxAngle: 3 };
+    case "rectify":
+      return { kind };
+  }
+};
+
+// the one number each step exposes, if any
+const stepParam = (
+  step: PreprocessStep
+): { label: string; value: number | undefined; set: (v: number | undefined) => PreprocessStep } | null => {
+  switch (step.kind) {
+    case "scale":
+      return {
+        label: "min width",
+        value: step.targetWidth,
+        set: (v) => ({ ...step, targetWidth: v, factor: undefined }),
+      };
+    case "grayscale":
+      return { label: "gain", value: step.gain, set: (v) => ({ ...step, gain: v }) };
+    case "threshold":
+      return step.method === "fixed"
+        ? { label: "value", value: step.value, set: (v) => ({ ...step, value: v }) }
+        : null;
+    case "deskew":
+      return { label: "max °", value: step.maxAngle, set: (v) => ({ ...step, maxAngle: v }) };
+    default:
+      return null;
+  }
+};
+
+const StageStrip = ({ stages }: { stages: PreprocessStage[] }) => (
+  <div className="flex flex-wrap items-start gap-3">
+    {stages.map((stage, i) => (
+      <figure key={i} className="space-y-1">
+        <img
+          src={stage.canvas.toDataURL()}
+          alt={stage.label}
+          className="max-h-24 max-w-[320px] rounded border bg-white"
+        />
+        <figcaption className="text-xs text-muted-foreground">
+          {i}. {stage.label} ({stage.canvas.width}×{stage.canvas.height})
+        </figcaption>
+      </figure>
+    ))}
+  </div>
+);
+
+/**
+ * Edit the layout's preprocessing chains and look at every intermediate canvas
+ */
+const PreprocessingPanel = ({ draft, onChange, sampleCanvas }: PreprocessingPanelProps) => {
+  const chains = getPreprocessChains(draft);
+  const [rowIndex, setRowIndex] = useState(0);
+  const [preview, setPreview] = useState<RowPreprocessPreview | null>(null);
+
+  // stale once the chain or layout changes
+  useEffect(() => {
+    setPreview(null);
+  }, [draft, sampleCanvas]);
+
+  const updateChain = (key: ChainKey, steps: PreprocessStep[]) =>
+    onChange({ ...chains, [key]: steps });
+
+  const updateStep = (key: ChainKey, idx: number, step: PreprocessStep) =>
+    updateChain(
+      key,
+      chains[key].map((s, i) => (i === idx ? step : s))
+    );
+
+  const handlePreview = () => {
+    if (!sampleCanvas) return;
+    setPreview(previewRowPreprocessing(sampleCanvas, draft, rowIndex));
+  };
+
+  const renderStep = (key: ChainKey, step: PreprocessStep, idx: number) => {
+    const param = stepParam(step);
+    return (
+      <div key={idx} className="flex flex-wrap items-center gap-2 rounded-md border px-2 py-1">
+        <span className="text-sm font-medium">{STEP_LABELS[step.kind]}</span>
+        {step.kind === "threshold" && (
+          <Select
+            value={step.method}
+            onValueChange={(v) =>
+              updateStep(key, idx, { ...step, method: v as typeof step.method })
+            }
+          >
+            <SelectTrigger className="h-7 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="otsu">Otsu</SelectItem>
+              <SelectItem value="midpoint">Midpoint</SelectItem>
+              <SelectItem value="fixed">Fixed</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        {step.kind === "colorMask" && (
+          <label className="flex items-center gap-1 text-xs">
+            <Checkbox
+              checked={!!step.aggressive}
+              onCheckedChange={(v) => updateStep(key, idx, { ...step, aggressive: v === true })}
+            />
+            aggressive
+          </label>
+        )}
+        {step.kind === "rectify" && (
+          <label className="flex items-center gap-1 text-xs">
+            <Checkbox
+              checked={!!step.cropPadding}
+              onCheckedChange={(v) => updateStep(key, idx, { ...step, cropPadding: v === true })}
+            />
+            crop margins
+          </label>
+        )}
+        {step.kind === "grayscale" && (
+          <label className="flex items-center gap-1 text-xs">
+            <Checkbox
+              checked={!!step.sharpen}
+              onCheckedChange={(v) => updateStep(key, idx, { ...step, sharpen: v === true })}
+            />
+            sharpen
+          </label>
+        )}
+        {param && (
+          <label className="flex items-center gap-1 text-xs">
+            {param.label}
+            <Input
+              type="number"
+              step="any"
+              className="h-7 w-20"
+              value={param.value ?? ""}
+              onChange={(e) =>
+                updateStep(
+                  key,
+                  idx,
+                  param.set(e.target.value === "" ? undefined : Number(e.target.value))
+                )
+              }
+            />
+          </label>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => updateChain(key, chains[key].filter((_, i) => i !== idx))}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold">Preprocessing</h3>
+          <p className="text-sm text-muted-foreground">
+            Used by every OCR engine for this layout. Scores and ranks should
+            end binarized; rectify and deskew belong on the whole screenshot.
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(undefined)}
+          disabled={!draft.preprocess}
+        >
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Defaults
+        </Button>
+      </div>
+
+      {(Object.keys(CHAIN_LABELS) as ChainKey[]).map((key) => (
+        <div key={key} className="space-y-2">
+          <Label>{CHAIN_LABELS[key]}</Label>
+          <div className="flex flex-wrap items-center gap-2">
+            {chains[key].length === 0 && (
+              <span className="text-sm text-muted-foreground">no steps</span>
+            )}
+            {chains[key].map((step, idx) => renderStep(key, step, idx))}
+            <Select
+              value=""
+              onValueChange={(v) =>
+                updateChain(key, [...chains[key], newStep(v as PreprocessStepKind)])
+              }
+            >
+              <SelectTrigger className="h-8 w-[130px]">
+                <Plus className="h-3 w-3" />
+                <SelectValue placeholder="Add step" />
+              </SelectTrigger>
+              <SelectContent>
+                {PREPROCESS_STEP_KINDS.map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {STEP_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-end gap-2 border-t pt-4">
+        <div className="space-y-1">
+          <Label className="text-xs">Row</Label>
+          <Input
+            type="number"
+            min={1}
+            className="w-20"
+            value={rowIndex + 1}
+            onChange={(e) => setRowIndex(Math.max(0, (parseInt(e.target.value, 10) || 1) - 1))}
+          />
+        </div>
+        <Button variant="outline" onClick={handlePreview} disabled={!sampleCanvas}>
+          <Eye className="mr-2 h-4 w-4" />
+          Show Intermediate Steps
+        </Button>
+        {draft.preprocess === undefined && (
+          <span className="text-xs text-muted-foreground">
+            Using the default chains
+          </span>
+        )}
+      </div>
+
+      {preview && (
+        <div className="space-y-4">
+          {preview.rowCount === 0 && (
+            <p className="text-sm text-destructive">No rows detected with this layout.</p>
+          )}
+          {(Object.keys(CHAIN_LABELS) as ChainKey[]).map((key) =>
+            preview[key].length ? (
+              <div key={key} className="space-y-1">
+                <div className="text-sm font-medium">{CHAIN_LABELS[key]}</div>
+                <StageStrip stages={preview[key]} />
+              </div>
+            ) : null
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default PreprocessingPanel;
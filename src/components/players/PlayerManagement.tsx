@@ -18,6 +18,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { mergePlayers } from "@/lib/batchOperations";
 
 const PlayerManagement = () => {
   const queryClient = useQueryClient();
@@ -47,48 +48,15 @@ const PlayerManagement = () => {
         throw new Error("Cannot merge a player with itself");
       }
 
-      // Update all scores, ledger transactions, and raffle entries to point to target
-      const { error: scoresError } = await supabase
-        .from("scores")
-        .update({ player_id: mergeTargetId })
-        .eq("player_id", mergeSourceId);
-
-      if (scoresError) throw scoresError;
-
-      const { error: ledgerError } = await supabase
-        .from("ledger_transactions")
-        .update({ player_id: mergeTargetId })
-        .eq("player_id", mergeSourceId);
-
-      if (ledgerError) throw ledgerError;
-
-      const { error: raffleError } = await supabase
-        .from("raffle_entries")
-        .update({ player_id: mergeTargetId })
-        .eq("player_id", mergeSourceId);
-
-      if (raffleError) throw raffleError;
-
-      // Update alt accounts to point to new main
-      const { error: altsError } = await supabase
-        .from("players")
-        .update({ main_player_id: mergeTargetId })
-        .eq("main_player_id", mergeSourceId);
-
-      if (altsError) throw altsError;
-
-      // Soft delete the source player
-      const { error: deleteError } = await supabase
-        .from("players")
-        .update({ deleted_at: new Date().toISOString() })
-        .eq("id", mergeSourceId);
-
-      if (deleteError) throw deleteError;
+      // moves scores, weights, ledger and raffle entries, re-points alts and
+      // soft-deletes the source in one transaction, recorded for rollback
+      await mergePlayers(mergeSourceId, mergeTargetId);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["players"] });
       queryClient.invalidateQueries({ queryKey: ["scores"] });
       queryClient.invalidateQueries({ queryKey: ["ledger_transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["batch_operations"] });
       toast.success("Players merged successfully");
       setMergeSourceId("");
       setMergeTargetId("");
@@ -259,7 +227,7 @@ const PlayerManagement = () => {
               <AlertDialogHeader>
                 <AlertDialogTitle>Confirm Player Merge</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This will move all scores, transactions, and raffle entries from the source player to the target player. The source player will be deleted. This action cannot be undone.
+                  This will move all scores, transactions, and raffle entries from the source player to the target player. The source player will be deleted. Where both players have a score for the same event, the higher one is kept. The merge can be rolled back from the batch audit log.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -1,5 +1,5 @@
 // src/components/scores/EnhancedScoreReview.tsx
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,7 +14,10 @@ import {
 import {
   Select,
   SelectContent,
+  SelectGroup,
   SelectItem,
+  SelectLabel,
+  SelectSeparator,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
@@ -28,13 +31,24 @@ import {
   Plus,
   ChevronDown,
   ChevronUp,
+  Cloud,
+  CloudOff,
+  Hand,
 } from "lucide-react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
+  DigitConfidence,
+  DOUBTFUL_DIGIT_CONFIDENCE,
+  formatBigIntWithCommas,
   getConfidenceColor,
   getConfidenceBadgeVariant,
+  reconcileDigitConfidences,
 } from "@/lib/ocrProcessing";
+import ScoreDigitEditor, { ScoreCropWithDigits } from "./ScoreDigitEditor";
+import ScoreImportDialog from "./ScoreImportDialog";
+import { ImportedRow, SCORE_SOURCE_LABELS, ScoreSource } from "@/lib/scoreImport";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -45,6 +59,40 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import type { StitchInfo } from "@/lib/ocrStitch";
+import type { EnsembleInfo } from "@/lib/ocrEngines";
+import { validateRankOrder } from "@/lib/ocrValidation";
+import {
+  PlausibilityFlag,
+  checkScorePlausibility,
+  fetchScoreHistory,
+} from "@/lib/scorePlausibility";
+import {
+  PlayerCandidate,
+  addPlayerAlias,
+  isKnownName,
+  matchPlayerLocal,
+  normalizePlayerName,
+  rankPlayerCandidates,
+} from "@/lib/playerMatching";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  ScoreCommitItem,
+  ScoreDiffRow,
+  commitScores,
+  previewScoreCommit,
+} from "@/lib/scoreCommit";
+import {
+  SessionRowInsert,
+  SessionRowRecord,
+  claimSessionRows,
+  closeReviewSession,
+  createReviewSession,
+  fetchDisplayNames,
+  fetchSessionRows,
+  releaseSessionRows,
+  saveSessionRows,
+} from "@/lib/reviewSessions";
 
 interface Player {
   id: string;
@@ -64,17 +112,27 @@ interface ScoreRow {
   correctedValue: number | null;
   confidence: number;
   imageSource: string;
+  /** OCR unless the row was typed, pasted or imported */
+  source?: ScoreSource;
   uploadId?: string | null;
   linkedPlayerId?: string | null;
   isVerified: boolean;
+  claimedBy?: string | null;
+  verifiedBy?: string | null;
   scoreError?: string;
   bigScore?: string;
+  rank?: number | null;
+  stitch?: StitchInfo;
+  ensemble?: EnsembleInfo;
   metadata?: {
     nameConfidence?: number;
     scoreConfidence?: number;
+    rankConfidence?: number;
     rawScoreText?: string;
+    digitConfidences?: DigitConfidence[];
     nameCanvas?: HTMLCanvasElement;
     scoreCanvas?: HTMLCanvasElement;
+    rankCanvas?: HTMLCanvasElement;
     originalWidth?: number;
     originalHeight?: number;
     processedWidth?: number;
@@ -83,14 +141,34 @@ interface ScoreRow {
   };
 }
 
+/** OCR, pasted and imported rows – anything but the name may be missing */
+type IncomingScoreRow = Partial<ScoreRow> & { name?: string };
+
 interface EnhancedScoreReviewProps {
   eventId: string;
   parsedScores: any[];
   canManage: boolean;
+  /** server-side review session to resume */
+  sessionId?: string | null;
+  onSessionChange?: (sessionId: string | null) => void;
+}
+
+type RowFilter = "all" | "mine" | "unclaimed";
+
+// a flagged score waiting for an officer to confirm it
+interface PlausibilityReport {
+  rowId: string;
+  playerName: string;
+  digits: string;
+  flags: (PlausibilityFlag & { key: string })[];
 }
 
 const PG_INT_MAX = 2147483647;
 const AUTO_VERIFY_CONFIDENCE = 0.5;
+const AUTOSAVE_DELAY_MS = 800;
+const CLAIM_BATCH_SIZE = 20;
+// suggestion items repeat roster ids – Select values must stay unique
+const SUGGESTION_PREFIX = "suggest:";
 
 const isUuid = (val: string | null | undefined) => {
   if (!val) return false;
@@ -108,83 +186,324 @@ const toIntSafe = (digits: string | number | null | undefined): number => {
   return n > PG_INT_MAX ? PG_INT_MAX : n;
 };
 
-const normalize = (s: string) =>
-  s
-    .toLowerCase()
-    .trim()
-    .replace(/\s+/g, " ");
-
-const matchPlayerLocal = (name: string, players: Player[]) => {
-  if (!name) return null;
-  const n = normalize(name);
-
-  const exact = players.find((p) => normalize(p.canonical_name) === n);
-  if (exact) return exact;
-
-  for (const p of players) {
-    if (p.aliases && p.aliases.some((a) => normalize(a) === n)) {
-      return p;
-    }
-  }
-
-  const fuzzy = players.find((p) => normalize(p.canonical_name).startsWith(n));
-  if (fuzzy) return fuzzy;
+// ScoreRow → ocr_rows record (canvases stay in the browser)
+const toSessionRecord = (
+  eventId: string,
+  s: ScoreRow,
+  order: number
+): SessionRowInsert => {
+  const digitsOnly =
+    s.bigScore || s.parsedScore?.toString().replace(/[^\d]/g, "") || "0";
+
+  const smallParsed =
+    typeof s.parsedScore === "number" ? Math.min(s.parsedScore, PG_INT_MAX) : 0;
+
+  const { nameCanvas, scoreCanvas, rankCanvas, ...metadata } = s.metadata ?? {};
+
+  return {
+    id: s.id,
+    event_id: eventId,
+    upload_id: isUuid(s.uploadId) ? s.uploadId : null,
+    row_order: order,
+    parsed_name: s.parsedName ?? "",
+    parsed_rank: s.rank ?? null,
+    parsed_score: smallParsed,
+    // numeric(30,0) – send the digits as text so nothing is rounded
+    parsed_score_big: digitsOnly as unknown as number,
+    raw_text: s.rawText ?? "",
+    raw_score_text: digitsOnly.replace(/\B(?=(\d{3})+(?!\d))/g, ","),
+    corrected_value: s.correctedValue,
+    confidence: s.confidence ?? 0,
+    linked_player_id: s.linkedPlayerId ?? null,
+    is_verified: s.isVerified ?? false,
+    image_source: s.imageSource ?? "",
+    claimed_by: s.claimedBy ?? null,
+    verified_by: s.isVerified ? s.verifiedBy ?? null : null,
+    metadata: {
+      ...metadata,
+      source: s.source ?? "ocr",
+      stitch: s.stitch ?? null,
+      ensemble: s.ensemble ?? null,
+    } as unknown as Json,
+  };
+};
 
-  return null;
+const fromSessionRecord = (r: SessionRowRecord): ScoreRow => {
+  const meta = (r.metadata ?? {}) as Record<string, unknown>;
+  const { stitch, ensemble, source, ...metadata } = meta;
+  // raw_score_text keeps every digit (numeric comes back as a JS number)
+  const bigScore =
+    (r.raw_score_text || "").replace(/[^\d]/g, "") ||
+    String(r.parsed_score ?? 0);
+
+  return {
+    id: r.id,
+    parsedName: r.parsed_name,
+    parsedScore: r.parsed_score,
+    bigScore,
+    rank: r.parsed_rank,
+    rawText: r.raw_text ?? "",
+    correctedValue: r.corrected_value,
+    confidence: Number(r.confidence ?? 0),
+    imageSource: r.image_source ?? "",
+    source: (source as ScoreSource | undefined) ?? "ocr",
+    uploadId: r.upload_id,
+    linkedPlayerId: r.linked_player_id,
+    isVerified: !!r.is_verified,
+    claimedBy: r.claimed_by,
+    verifiedBy: r.verified_by,
+    stitch: (stitch as StitchInfo | null) ?? undefined,
+    ensemble: (ensemble as EnsembleInfo | null) ?? undefined,
+    metadata: metadata as ScoreRow["metadata"],
+  };
 };
 
+const rowKey = (eventId: string, row: ScoreRow, order: number) =>
+  JSON.stringify(toSessionRecord(eventId, row, order));
+
 const EnhancedScoreReview = ({
   eventId,
   parsedScores,
   canManage,
+  sessionId,
+  onSessionChange,
 }: EnhancedScoreReviewProps) => {
   const [players, setPlayers] = useState<Player[]>([]);
+  const [playersLoaded, setPlayersLoaded] = useState(false);
   const [scores, setScores] = useState<ScoreRow[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [showCommitDialog, setShowCommitDialog] = useState(false);
   const [loading, setLoading] = useState(false);
   const [expandedRow, setExpandedRow] = useState<number | null>(null);
+  const [showDiscardDialog, setShowDiscardDialog] = useState(false);
+  const [plausibility, setPlausibility] = useState<PlausibilityReport[]>([]);
+  // flag keys (row + digits + kind) the officer confirmed – edits re-flag
+  const [acknowledged, setAcknowledged] = useState<Set<string>>(new Set());
+  const [checkingPlausibility, setCheckingPlausibility] = useState(false);
+  // server diff of the verified rows against the event's current scores
+  const [commitPreview, setCommitPreview] = useState<ScoreDiffRow[] | null>(null);
+  const [commitPreviewError, setCommitPreviewError] = useState<string | null>(null);
+
+  // ====== review session state ======
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [rowFilter, setRowFilter] = useState<RowFilter>("all");
+  const [saveState, setSaveState] = useState<"saved" | "saving" | "error">(
+    "saved"
+  );
+  const [officerNames, setOfficerNames] = useState<Map<string, string>>(
+    new Map()
+  );
+  // row id → last persisted record (dirty check for autosave)
+  const lastSavedRef = useRef<Map<string, string>>(new Map());
+  const scoresRef = useRef<ScoreRow[]>(scores);
+  scoresRef.current = scores;
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = userId;
+  // the parsedScores batch that already opened a session
+  const handledBatchRef = useRef<ScoreRow[] | null>(null);
+
+  // rank/score consistency (row index → error)
+  const rankErrors = useMemo(() => validateRankOrder(scores), [scores]);
+
+  // top roster candidates per OCR name (only recomputed when names change)
+  const nameKey = scores.map((s) => s.parsedName).join("\n");
+  const candidatesByName = useMemo(() => {
+    const map = new Map<string, PlayerCandidate<Player>[]>();
+    scores.forEach((s) => {
+      if (!map.has(s.parsedName)) {
+        map.set(s.parsedName, rankPlayerCandidates(s.parsedName, players));
+      }
+    });
+    return map;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nameKey, players]);
 
-  // ====== save OCR rows (audit) ======
-  const saveToOCRRows = async (scoreRows: ScoreRow[]) => {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
+  const rememberSaved = (rows: ScoreRow[]) => {
+    lastSavedRef.current = new Map(
+      rows.map((r, i) => [r.id!, rowKey(eventId, r, i)])
+    );
+  };
 
-    const rows = scoreRows.map((s) => {
-      const digitsOnly =
-        s.bigScore ||
-        s.parsedScore?.toString().replace(/[^\d]/g, "") ||
-        "0";
+  // ====== session: open / resume / autosave ======
+  const startSession = async (rows: ScoreRow[]) => {
+    try {
+      const id = await createReviewSession(
+        eventId,
+        rows.map((r, i) => toSessionRecord(eventId, r, i))
+      );
+      rememberSaved(rows);
+      setActiveSessionId(id);
+      onSessionChange?.(id);
+    } catch (err) {
+      console.warn("Failed to create review session:", err);
+      toast.warning(
+        "Could not save this review on the server – edits only live in this tab"
+      );
+    }
+  };
 
-      const smallParsed =
-        typeof s.parsedScore === "number"
-          ? Math.min(s.parsedScore, PG_INT_MAX)
-          : 0;
+  const loadSession = async (id: string) => {
+    try {
+      const rows = (await fetchSessionRows(id)).map(fromSessionRecord);
+      rememberSaved(rows);
+      setScores(rows);
+      setActiveSessionId(id);
+    } catch (err) {
+      toast.error("Failed to load review session: " + (err as Error).message);
+    }
+  };
 
-      return {
-        event_id: eventId,
-        upload_id: isUuid(s.uploadId as any) ? s.uploadId : null,
-        parsed_name: s.parsedName ?? "",
-        parsed_score: smallParsed,
-        parsed_score_big: digitsOnly,
-        raw_text: s.rawText ?? "",
-        raw_score_text: digitsOnly.replace(/\B(?=(\d{3})+(?!\d))/g, ","),
-        corrected_value: s.correctedValue,
-        confidence: s.confidence ?? 0,
-        linked_player_id: s.linkedPlayerId ?? null,
-        is_verified: s.isVerified ?? false,
-        image_source: s.imageSource ?? "",
-      };
+  const flushSession = async () => {
+    const id = activeSessionId;
+    if (!id) return;
+
+    const current = scoresRef.current;
+    const nextSaved = new Map<string, string>();
+    const changed: SessionRowInsert[] = [];
+
+    current.forEach((row, i) => {
+      const key = rowKey(eventId, row, i);
+      nextSaved.set(row.id!, key);
+      if (lastSavedRef.current.get(row.id!) !== key) {
+        changed.push(toSessionRecord(eventId, row, i));
+      }
     });
+    const removed = Array.from(lastSavedRef.current.keys()).filter(
+      (rowId) => !nextSaved.has(rowId)
+    );
+    if (!changed.length && !removed.length) return;
 
-    const { error } = await supabase.from("ocr_rows").insert(rows as any);
-    if (error) {
-      console.warn("Failed to save ocr_rows:", error.message, rows);
+    setSaveState("saving");
+    try {
+      await saveSessionRows(id, changed, removed);
+      lastSavedRef.current = nextSaved;
+      setSaveState("saved");
+    } catch (err) {
+      console.warn("Review autosave failed:", err);
+      setSaveState("error");
     }
   };
 
+  // pull rows changed by another officer, keeping our unsaved edits
+  const mergeRemote = async (id: string) => {
+    let remote: SessionRowRecord[];
+    try {
+      remote = await fetchSessionRows(id);
+    } catch (err) {
+      console.warn("Failed to refresh review session:", err);
+      return;
+    }
+
+    const local = scoresRef.current;
+    const localById = new Map(local.map((r, i) => [r.id!, { row: r, index: i }]));
+    const remoteIds = new Set(remote.map((r) => r.id));
+    const dirtyIds = new Set(
+      local
+        .filter(
+          (r, i) =>
+            !lastSavedRef.current.has(r.id!) ||
+            lastSavedRef.current.get(r.id!) !== rowKey(eventId, r, i)
+        )
+        .map((r) => r.id!)
+    );
+
+    const merged: ScoreRow[] = remote.map((rec) => {
+      const mine = localById.get(rec.id);
+      if (mine && dirtyIds.has(rec.id)) return mine.row;
+      const fresh = fromSessionRecord(rec);
+      // keep the crops we still have in memory
+      return mine
+        ? { ...fresh, metadata: { ...mine.row.metadata, ...fresh.metadata } }
+        : fresh;
+    });
+    // rows added here that the server hasn't seen yet
+    local.forEach((r) => {
+      if (!remoteIds.has(r.id!) && !lastSavedRef.current.has(r.id!)) {
+        merged.push(r);
+      }
+    });
+
+    const nextSaved = new Map<string, string>();
+    merged.forEach((r, i) => {
+      if (!dirtyIds.has(r.id!)) nextSaved.set(r.id!, rowKey(eventId, r, i));
+      else if (lastSavedRef.current.has(r.id!)) {
+        nextSaved.set(r.id!, lastSavedRef.current.get(r.id!)!);
+      }
+    });
+    lastSavedRef.current = nextSaved;
+    setScores(merged);
+  };
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data }) => setUserId(data.user?.id ?? null));
+  }, []);
+
+  // resume a session picked in EventScores
+  useEffect(() => {
+    if (!sessionId || sessionId === activeSessionId) return;
+    loadSession(sessionId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId]);
+
+  // debounced autosave
+  useEffect(() => {
+    if (!activeSessionId) return;
+    const timer = setTimeout(flushSession, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scores, activeSessionId]);
+
+  // live updates from other officers in the same session
+  useEffect(() => {
+    if (!activeSessionId) return;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const channel = supabase
+      .channel(`review_session_${activeSessionId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "ocr_rows",
+          filter: `session_id=eq.${activeSessionId}`,
+        },
+        (payload) => {
+          const changedBy = (payload.new as Partial<SessionRowRecord>)
+            ?.updated_by;
+          // our own autosave echoing back
+          if (payload.eventType !== "DELETE" && changedBy === userIdRef.current) {
+            return;
+          }
+          clearTimeout(refreshTimer);
+          refreshTimer = setTimeout(() => mergeRemote(activeSessionId), 300);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      clearTimeout(refreshTimer);
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeSessionId]);
+
+  // names for claim badges
+  useEffect(() => {
+    const unknown = Array.from(
+      new Set(
+        scores
+          .map((s) => s.claimedBy)
+          .filter((id): id is string => !!id && !officerNames.has(id))
+      )
+    );
+    if (!unknown.length) return;
+    fetchDisplayNames(unknown).then((names) =>
+      setOfficerNames((prev) => new Map([...prev, ...names]))
+    );
+  }, [scores, officerNames]);
+
   // ====== load players ======
   useEffect(() => {
     const fetchPlayers = async () => {
@@ -196,15 +515,14 @@ const EnhancedScoreReview = ({
         .is("deleted_at", null)
         .order("canonical_name");
       if (data) setPlayers(data as Player[]);
+      setPlayersLoaded(true);
     };
     fetchPlayers();
   }, []);
 
-  // ====== map incoming OCR ======
-  useEffect(() => {
-    if (!parsedScores || parsedScores.length === 0) return;
-
-    const mapped: ScoreRow[] = parsedScores.map((s: any) => {
+  // ====== map incoming rows (OCR, pasted, imported) ======
+  const mapIncomingRows = (batch: EnhancedScoreReviewProps["parsedScores"]): ScoreRow[] =>
+    batch.map((s: IncomingScoreRow) => {
       const parsedName = s.parsedName ?? s.name ?? "";
       const bigScore =
         s.bigScore ||
@@ -218,28 +536,88 @@ const EnhancedScoreReview = ({
 
       const suggested = matchPlayerLocal(parsedName, players);
       const hasDigits = /\d/.test(bigScore);
+      // rows read differently on overlapping screenshots need a human look
+      const hasStitchConflict = !!s.stitch?.conflicts?.length;
+      // …and so do scores with a digit tesseract wasn't sure about
+      const hasDoubtfulDigit = !!s.metadata?.digitConfidences?.some(
+        (d: DigitConfidence) => d.confidence < DOUBTFUL_DIGIT_CONFIDENCE
+      );
       const autoVerified =
         !!suggested?.id &&
         (s.confidence ?? 0) >= AUTO_VERIFY_CONFIDENCE &&
-        hasDigits;
+        hasDigits &&
+        !hasStitchConflict &&
+        !hasDoubtfulDigit;
 
       return {
         ...s,
+        id: crypto.randomUUID(),
         parsedName,
         parsedScore,
         bigScore,
+        rank: typeof s.rank === "number" ? s.rank : null,
+        source: s.source ?? "ocr",
         linkedPlayerId: suggested?.id ?? undefined,
         isVerified: autoVerified,
       } as ScoreRow;
     });
 
+  useEffect(() => {
+    if (!playersLoaded || !parsedScores || parsedScores.length === 0) return;
+    // every new OCR batch opens its own review session, once
+    if (handledBatchRef.current === parsedScores) return;
+    handledBatchRef.current = parsedScores;
+
+    const mapped = mapIncomingRows(parsedScores);
     setScores(mapped);
-    saveToOCRRows(mapped);
+    startSession(mapped);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [parsedScores, players, eventId]);
+  }, [parsedScores, playersLoaded, eventId]);
 
   // ====== handlers ======
+  const handleAddAlias = async (playerId: string, alias: string) => {
+    try {
+      const aliases = await addPlayerAlias(playerId, alias);
+      setPlayers((prev) =>
+        prev.map((p) => (p.id === playerId ? { ...p, aliases } : p))
+      );
+
+      // link other unlinked rows with the same spelling
+      const name = normalizePlayerName(alias);
+      setScores((prev) =>
+        prev.map((s) =>
+          !s.linkedPlayerId && normalizePlayerName(s.parsedName) === name
+            ? { ...s, linkedPlayerId: playerId }
+            : s
+        )
+      );
+      toast.success(`Added "${alias}" as an alias`);
+    } catch (err) {
+      toast.error("Failed to add alias: " + (err as Error).message);
+    }
+  };
+
   const handlePlayerSelect = (index: number, playerId: string) => {
+    const row = scores[index];
+    const player = players.find((p) => p.id === playerId);
+    // officer linked a misread name by hand – offer to learn the spelling
+    if (
+      row &&
+      player &&
+      row.parsedName.trim() &&
+      row.linkedPlayerId !== playerId &&
+      !isKnownName(row.parsedName, player)
+    ) {
+      const alias = row.parsedName.trim();
+      toast(`Remember "${alias}" as ${player.canonical_name}?`, {
+        description: "Future screenshots with this spelling will match automatically.",
+        action: {
+          label: "Add alias",
+          onClick: () => handleAddAlias(player.id, alias),
+        },
+      });
+    }
+
     setScores((prev) =>
       prev.map((s, i) =>
         i === index
@@ -285,6 +663,14 @@ const EnhancedScoreReview = ({
               ...s,
               parsedScore: hasDigits ? toIntSafe(digitsOnly) : 0,
               bigScore: hasDigits ? digitsOnly : "0",
+              metadata: {
+                ...s.metadata,
+                digitConfidences: reconcileDigitConfidences(
+                  s.bigScore || "",
+                  digitsOnly,
+                  s.metadata?.digitConfidences
+                ),
+              },
               scoreError: hasDigits ? undefined : "Invalid number format",
               isVerified:
                 s.linkedPlayerId &&
@@ -296,6 +682,15 @@ const EnhancedScoreReview = ({
     );
   };
 
+  const handleRankChange = (index: number, value: string) => {
+    const digits = value.replace(/[^\d]/g, "");
+    const rank = digits ? parseInt(digits, 10) : null;
+
+    setScores((prev) =>
+      prev.map((s, i) => (i === index ? { ...s, rank } : s))
+    );
+  };
+
   const handleVerify = (index: number) => {
     setScores((prev) =>
       prev.map((s, i) =>
@@ -314,6 +709,7 @@ const EnhancedScoreReview = ({
       prev.map((s) =>
         s.linkedPlayerId &&
         !s.scoreError &&
+        !s.stitch?.conflicts.length &&
         (s.confidence ?? 0) >= AUTO_VERIFY_CONFIDENCE
           ? { ...s, isVerified: true }
           : s
@@ -329,6 +725,7 @@ const EnhancedScoreReview = ({
 
   const handleAddRow = () => {
     const newRow: ScoreRow = {
+      id: crypto.randomUUID(),
       parsedName: "",
       parsedScore: 0,
       bigScore: "0",
@@ -336,11 +733,86 @@ const EnhancedScoreReview = ({
       correctedValue: null,
       confidence: 1.0,
       imageSource: "Manual",
+      source: "manual",
       isVerified: false,
     };
     setScores((prev) => [...prev, newRow]);
   };
 
+  // pasted / imported rows join the open session, or start one
+  const handleImportRows = (rows: ImportedRow[]) => {
+    const mapped = mapIncomingRows(rows);
+    if (activeSessionId || scores.length > 0) {
+      setScores((prev) => [...prev, ...mapped]);
+      return;
+    }
+    setScores(mapped);
+    startSession(mapped);
+  };
+
+  // ====== session actions ======
+  const endSession = async (status: "committed" | "discarded") => {
+    const id = activeSessionId;
+    setActiveSessionId(null);
+    lastSavedRef.current = new Map();
+    setScores([]);
+    onSessionChange?.(null);
+    if (!id) return;
+
+    try {
+      await closeReviewSession(id, status);
+    } catch (err) {
+      console.warn("Failed to close review session:", err);
+    }
+  };
+
+  const handleDiscardSession = async () => {
+    setShowDiscardDialog(false);
+    await endSession("discarded");
+    toast.success("Review session discarded");
+  };
+
+  const handleClaimRows = async () => {
+    if (!activeSessionId || !userId) return;
+    const candidates = scores
+      .filter((s) => !s.claimedBy && !s.isVerified && s.id)
+      .slice(0, CLAIM_BATCH_SIZE)
+      .map((s) => s.id!);
+    if (!candidates.length) {
+      toast.info("No unclaimed rows left");
+      return;
+    }
+
+    try {
+      const claimed = new Set(await claimSessionRows(activeSessionId, candidates));
+      setScores((prev) =>
+        prev.map((s) => (claimed.has(s.id!) ? { ...s, claimedBy: userId } : s))
+      );
+      setRowFilter("mine");
+      toast.success(`Claimed ${claimed.size} row(s) for you to verify`);
+    } catch (err) {
+      toast.error("Failed to claim rows: " + (err as Error).message);
+    }
+  };
+
+  const handleReleaseRows = async () => {
+    if (!activeSessionId || !userId) return;
+    const mine = scores
+      .filter((s) => s.claimedBy === userId && !s.isVerified)
+      .map((s) => s.id!);
+
+    try {
+      await releaseSessionRows(activeSessionId, mine);
+      const released = new Set(mine);
+      setScores((prev) =>
+        prev.map((s) => (released.has(s.id!) ? { ...s, claimedBy: null } : s))
+      );
+      toast.success(`Released ${mine.length} row(s)`);
+    } catch (err) {
+      toast.error("Failed to release rows: " + (err as Error).message);
+    }
+  };
+
   const handleMergeDuplicates = () => {
     const playerMap = new Map<string, ScoreRow>();
 
@@ -367,13 +839,88 @@ const EnhancedScoreReview = ({
     );
   };
 
+  // verified rows as sent to the server – alts and duplicates are resolved there
+  const commitItems = (): ScoreCommitItem[] =>
+    scores
+      .filter((s) => s.isVerified && s.linkedPlayerId)
+      .map((s) => ({
+        player_id: s.linkedPlayerId!,
+        score: s.bigScore || "0",
+        rank: s.rank ?? null,
+      }));
+
+  // compare verified scores with each player's history and diff them against
+  // the committed ones before the commit dialog
+  const handleReviewCommit = async () => {
+    const verified = scores.filter((s) => s.isVerified && s.linkedPlayerId);
+    const byId = new Map(players.map((p) => [p.id, p]));
+    const finalIdOf = (playerId: string) => {
+      const p = byId.get(playerId);
+      return p?.is_alt && p.main_player_id ? p.main_player_id : playerId;
+    };
+
+    setCheckingPlausibility(true);
+    setCommitPreview(null);
+    setCommitPreviewError(null);
+    try {
+      const history = await fetchScoreHistory(
+        eventId,
+        Array.from(new Set(verified.map((s) => finalIdOf(s.linkedPlayerId!))))
+      );
+
+      const reports: PlausibilityReport[] = [];
+      for (const s of verified) {
+        const finalId = finalIdOf(s.linkedPlayerId!);
+        const digits = s.bigScore || "0";
+        const flags = checkScorePlausibility(digits, history.get(finalId) ?? []);
+        if (!flags.length) continue;
+        reports.push({
+          rowId: s.id!,
+          playerName: byId.get(finalId)?.canonical_name ?? s.parsedName,
+          digits,
+          flags: flags.map((f) => ({ ...f, key: `${s.id}:${digits}:${f.kind}` })),
+        });
+      }
+      setPlausibility(reports);
+    } catch (err) {
+      // don't block the commit on a failed lookup, but say so
+      console.warn("Score history check failed:", err);
+      toast.warning("Could not check scores against player history");
+      setPlausibility([]);
+    }
+
+    try {
+      setCommitPreview(await previewScoreCommit(eventId, commitItems()));
+    } catch (err) {
+      setCommitPreviewError((err as Error).message);
+    } finally {
+      setCheckingPlausibility(false);
+    }
+    setShowCommitDialog(true);
+  };
+
+  const toggleAcknowledged = (key: string, on: boolean) =>
+    setAcknowledged((prev) => {
+      const next = new Set(prev);
+      if (on) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const unacknowledgedCount = plausibility
+    .flatMap((r) => r.flags)
+    .filter((f) => !acknowledged.has(f.key)).length;
+
   const handleCommitScores = async () => {
     if (!canManage) return;
 
-    const verifiedScores = scores.filter(
-      (s) => s.isVerified && s.linkedPlayerId
-    );
-    if (verifiedScores.length === 0) {
+    if (unacknowledgedCount > 0) {
+      toast.error("⚠️ Confirm every flagged score before committing");
+      return;
+    }
+
+    const items = commitItems();
+    if (items.length === 0) {
       toast.error("⚠️ No verified scores to commit");
       return;
     }
@@ -384,167 +931,45 @@ const EnhancedScoreReview = ({
       return;
     }
 
+    if (validateRankOrder(scores).size > 0) {
+      toast.error("⚠️ Fix rank/score mismatches before committing");
+      return;
+    }
+
     setLoading(true);
     try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { data: allPlayers, error: playersError } = await supabase
-        .from("players")
-        .select("id, is_alt, main_player_id")
-        .is("deleted_at", null);
-
-      if (playersError) throw playersError;
-
-      const playerMap = new Map<string, Player>(
-        (allPlayers || []).map((p: any) => [p.id, p])
+      // all rows or none, recorded as one batch operation
+      const result = await commitScores(
+        eventId,
+        items,
+        activeSessionId ? `review:${activeSessionId.slice(0, 8)}` : undefined
       );
 
-      const playerScores = new Map<string, string>();
-      let skippedCount = 0;
-
-      verifiedScores.forEach((s) => {
-        if (!s.linkedPlayerId) {
-          console.warn("Skipping score - no linked player:", s.parsedName);
-          skippedCount++;
-          return;
-        }
-
-        const p = playerMap.get(s.linkedPlayerId);
-        if (!p) {
-          console.warn("Skipping score - player not found:", s.linkedPlayerId);
-          skippedCount++;
-          return;
-        }
-
-        const finalPlayerId =
-          p.is_alt && p.main_player_id ? p.main_player_id : s.linkedPlayerId;
-
-        // Always use bigScore for large numbers (up to 30 digits)
-        const digits = s.bigScore || "0";
-        
-        // Ensure we have valid digits (allow 0 for now)
-        if (!digits || !/^\d+$/.test(digits)) {
-          console.warn("Skipping score - invalid digits:", s.parsedName, digits);
-          skippedCount++;
-          return;
-        }
-
-        try {
-          const currentBig = BigInt(digits);
-          const existingBig = BigInt(playerScores.get(finalPlayerId) || "0");
-          if (currentBig > existingBig) {
-            playerScores.set(finalPlayerId, digits);
-          }
-        } catch (err) {
-          console.error("Error processing BigInt for:", s.parsedName, digits, err);
-          skippedCount++;
-        }
-      });
-
-      if (playerScores.size === 0) {
-        toast.error("⚠️ No valid scores to commit after validation");
-        setLoading(false);
-        return;
-      }
-
-      const payload = Array.from(playerScores.entries()).map(
-        ([playerId, fullDigits]) => {
-          // fullDigits is already clean digits-only string (1-30 digits)
-          return {
-            event_id: eventId,
-            player_id: playerId,
-            score: fullDigits, // Keep as string for numeric(30,0)
-            raw_score: fullDigits, // Keep as string for numeric(30,0)
-            verified: true,
-            created_by: user.id,
-          };
-        }
+      toast.success(
+        `✅ Committed ${result.new} new and ${result.changed} changed scores` +
+          (result.unchanged > 0 ? ` (${result.unchanged} unchanged)` : "")
       );
-      
-      console.log(`Committing ${payload.length} scores (${verifiedScores.length} verified, ${skippedCount} skipped)`);
-      console.log("Sample payload:", payload.slice(0, 2));
-
-      // Try RPC first, then fallback to direct upsert
-      try {
-        const { data: rpcData, error: rpcError } = await (supabase as any).rpc(
-          "upsert_scores_big_v2",
-          {
-            payload,
-          }
-        );
-
-        if (rpcError) {
-          console.warn("RPC failed, falling back to direct upsert:", rpcError);
-          throw rpcError;
-        }
-
-        const committed = rpcData?.committed ?? 0;
-        const skipped = rpcData?.skipped ?? 0;
-
-        console.log("RPC result:", { committed, skipped, total: payload.length });
-        
-        if (skipped > 0) {
-          console.warn(`⚠️ ${skipped} rows were skipped by the database. Check server logs for details.`);
-        }
-
-        toast.success(
-          `✅ Committed ${committed} players.${
-            skipped > 0 ? ` Skipped ${skipped} rows.` : ""
-          }`
-        );
-        setScores([]);
-        setShowCommitDialog(false);
-      } catch (rpcErr: any) {
-        // Fallback to direct upsert if RPC is missing or schema didn't reload
-        console.log("Attempting direct upsert fallback...");
-        
-        const { error: upsertErr } = await supabase
-          .from("scores")
-          .upsert(
-            payload as any,
-            { onConflict: "event_id,player_id" }
-          );
-
-        if (upsertErr) {
-          console.error("Direct upsert also failed:", upsertErr);
-          throw upsertErr;
-        }
-
-        toast.success(
-          `✅ Committed ${payload.length} scores via fallback method`
-        );
-        setScores([]);
-        setShowCommitDialog(false);
-      }
-    } catch (err: any) {
+      setShowCommitDialog(false);
+      await endSession("committed");
+    } catch (err) {
       console.error("Commit error:", err);
-      
-      // Check for integer overflow error (22003)
-      if (err.code === "22003" || err.message?.includes("out of range for type integer")) {
-        toast.error(
-          "⚠️ Supabase tried to coerce a very large score into an integer. DB function probably not reloaded yet. Please re-run commit in 5s."
-        );
-      } else {
-        toast.error("Failed to commit scores: " + err.message);
-      }
+      toast.error("Failed to commit scores – nothing was saved: " + (err as Error).message);
     } finally {
       setLoading(false);
     }
   };
 
   // ====== render ======
-  const filteredScores = searchTerm
-    ? scores.filter((s) => {
-        const name = s.parsedName || "";
-        return (
-          name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          s.confidence.toString().includes(searchTerm)
-        );
-      })
-    : scores;
+  const filteredScores = scores.filter((s) => {
+    if (rowFilter === "mine" && s.claimedBy !== userId) return false;
+    if (rowFilter === "unclaimed" && s.claimedBy) return false;
+    if (!searchTerm) return true;
+    const name = s.parsedName || "";
+    return (
+      name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      s.confidence.toString().includes(searchTerm)
+    );
+  });
 
   if (!canManage) {
     return (
@@ -557,7 +982,14 @@ const EnhancedScoreReview = ({
   if (scores.length === 0) {
     return (
       <div className="text-center py-8 text-muted-foreground">
-        No scores to review. Upload score sheets first.
+        <p>No scores to review. Upload score sheets first, or paste / import them.</p>
+        <div className="mt-4">
+          <ScoreImportDialog
+            eventId={eventId}
+            onImport={handleImportRows}
+            disabled={!playersLoaded}
+          />
+        </div>
       </div>
     );
   }
@@ -568,9 +1000,10 @@ const EnhancedScoreReview = ({
       (s.confidence ?? 0) >= AUTO_VERIFY_CONFIDENCE &&
       s.linkedPlayerId &&
       !s.isVerified &&
-      !s.scoreError
+      !s.scoreError &&
+      !s.stitch?.conflicts.length
   ).length;
-  const hasErrors = scores.some((s) => s.scoreError);
+  const hasErrors = scores.some((s) => s.scoreError) || rankErrors.size > 0;
 
   return (
     <div className="space-y-4">
@@ -591,6 +1024,12 @@ const EnhancedScoreReview = ({
           Add Row
         </Button>
 
+        <ScoreImportDialog
+          eventId={eventId}
+          onImport={handleImportRows}
+          disabled={!playersLoaded}
+        />
+
         <Button
           variant="outline"
           size="sm"
@@ -614,11 +1053,70 @@ const EnhancedScoreReview = ({
         )}
       </div>
 
+      {/* shared session */}
+      {activeSessionId && (
+        <div className="flex items-center gap-2 flex-wrap rounded-lg border bg-muted/30 px-3 py-2">
+          <div className="flex items-center gap-1 text-sm text-muted-foreground">
+            {saveState === "error" ? (
+              <>
+                <CloudOff className="h-4 w-4 text-destructive" />
+                Not saved – retrying on next edit
+              </>
+            ) : (
+              <>
+                <Cloud className="h-4 w-4" />
+                {saveState === "saving" ? "Saving…" : "Draft saved"}
+              </>
+            )}
+          </div>
+
+          <div className="flex-1" />
+
+          <Select
+            value={rowFilter}
+            onValueChange={(v) => setRowFilter(v as RowFilter)}
+          >
+            <SelectTrigger className="w-[160px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All rows</SelectItem>
+              <SelectItem value="mine">My rows</SelectItem>
+              <SelectItem value="unclaimed">Unclaimed rows</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button variant="outline" size="sm" onClick={handleClaimRows}>
+            <Hand className="mr-2 h-4 w-4" />
+            Claim {CLAIM_BATCH_SIZE} Rows
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleReleaseRows}
+            disabled={!scores.some((s) => s.claimedBy === userId && !s.isVerified)}
+          >
+            Release Mine
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setShowDiscardDialog(true)}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Discard Session
+          </Button>
+        </div>
+      )}
+
       {/* table */}
       <div className="rounded-lg border overflow-hidden">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[80px]">Rank</TableHead>
               <TableHead>Parsed Name</TableHead>
               <TableHead>Parsed Score</TableHead>
               <TableHead>Confidence</TableHead>
@@ -629,14 +1127,35 @@ const EnhancedScoreReview = ({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredScores.map((score, index) => (
+            {filteredScores.map((score) => {
+              // handlers work on the unfiltered list
+              const index = scores.indexOf(score);
+              const rankError = rankErrors.get(index);
+              return (
               <>
                 <TableRow
-                  key={index}
+                  key={score.id ?? index}
                   className={`${score.isVerified ? "bg-muted/50" : ""} ${getConfidenceColor(
                     score.confidence
                   )} border-l-4`}
                 >
+                  <TableCell>
+                    <div className="space-y-1">
+                      <Input
+                        type="text"
+                        inputMode="numeric"
+                        value={score.rank ?? ""}
+                        onChange={(e) => handleRankChange(index, e.target.value)}
+                        className={`w-16 ${rankError ? "border-red-500" : ""}`}
+                        placeholder="#"
+                      />
+                      {rankError && (
+                        <p className="text-xs text-red-500 max-w-[180px]">
+                          {rankError}
+                        </p>
+                      )}
+                    </div>
+                  </TableCell>
                   <TableCell className="font-medium">
                     <Input
                       type="text"
@@ -671,6 +1190,14 @@ const EnhancedScoreReview = ({
                           {score.scoreError}
                         </p>
                       )}
+                      {score.bigScore && score.metadata?.digitConfidences && (
+                        <ScoreDigitEditor
+                          compact
+                          digits={score.bigScore}
+                          confidences={score.metadata.digitConfidences}
+                          onChange={(d) => handleScoreChange(index, d)}
+                        />
+                      )}
                       {score.correctedValue && (
                         <Badge variant="outline" className="text-xs">
                           Auto-corrected
@@ -709,13 +1236,39 @@ const EnhancedScoreReview = ({
                     <Select
                       value={score.linkedPlayerId || ""}
                       onValueChange={(value) =>
-                        handlePlayerSelect(index, value)
+                        handlePlayerSelect(
+                          index,
+                          value.replace(SUGGESTION_PREFIX, "")
+                        )
                       }
                     >
                       <SelectTrigger className="w-full">
                         <SelectValue placeholder="Select player" />
                       </SelectTrigger>
                       <SelectContent>
+                        {!!candidatesByName.get(score.parsedName)?.length && (
+                          <>
+                            <SelectGroup>
+                              <SelectLabel>Best matches</SelectLabel>
+                              {candidatesByName
+                                .get(score.parsedName)!
+                                .map((c) => (
+                                  <SelectItem
+                                    key={c.player.id}
+                                    value={SUGGESTION_PREFIX + c.player.id}
+                                  >
+                                    {c.player.canonical_name}{" "}
+                                    <span className="text-xs text-muted-foreground">
+                                      {Math.round(c.score * 100)}%
+                                      {c.matchedOn !== c.player.canonical_name &&
+                                        ` · alias ${c.matchedOn}`}
+                                    </span>
+                                  </SelectItem>
+                                ))}
+                            </SelectGroup>
+                            <SelectSeparator />
+                          </>
+                        )}
                         {players.map((player) => (
                           <SelectItem key={player.id} value={player.id}>
                             {player.canonical_name}{" "}
@@ -726,7 +1279,46 @@ const EnhancedScoreReview = ({
                     </Select>
                   </TableCell>
                   <TableCell className="text-xs text-muted-foreground">
-                    <div>{score.imageSource}</div>
+                    <div>
+                      {score.stitch
+                        ? score.stitch.sources.join(" + ")
+                        : score.imageSource}
+                    </div>
+                    {score.source && score.source !== "ocr" && (
+                      <Badge variant="outline" className="mt-1 text-xs">
+                        {SCORE_SOURCE_LABELS[score.source]}
+                      </Badge>
+                    )}
+                    {score.stitch && (
+                      <Badge variant="secondary" className="mt-1 text-xs">
+                        Stitched ×{score.stitch.sources.length}
+                      </Badge>
+                    )}
+                    {score.ensemble && (
+                      <Badge
+                        variant={
+                          score.ensemble.agreement < 0.5 ? "destructive" : "outline"
+                        }
+                        className="mt-1 text-xs"
+                        title={score.ensemble.votes
+                          .map((v) => `${v.engine}: ${v.digits || "—"}`)
+                          .join("\n")}
+                      >
+                        {Math.round(
+                          score.ensemble.agreement * score.ensemble.engines.length
+                        )}
+                        /{score.ensemble.engines.length} engines agree
+                      </Badge>
+                    )}
+                    {score.stitch?.conflicts.map((c) => (
+                      <div
+                        key={c.field}
+                        className="mt-1 flex items-center gap-1 text-amber-600"
+                      >
+                        <AlertTriangle className="h-3 w-3" />
+                        {c.field} differs: {c.values.join(" / ")}
+                      </div>
+                    ))}
                     {score.metadata && (
                       <div className="mt-1">
                         {score.metadata.originalWidth}×
@@ -741,6 +1333,15 @@ const EnhancedScoreReview = ({
                     ) : (
                       <Badge variant="outline">Pending</Badge>
                     )}
+                    {score.claimedBy && (
+                      <div className="mt-1 text-xs text-muted-foreground">
+                        {score.claimedBy === userId
+                          ? "Claimed by you"
+                          : `Claimed by ${
+                              officerNames.get(score.claimedBy) ?? "another officer"
+                            }`}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex gap-1 justify-end">
@@ -786,7 +1387,7 @@ const EnhancedScoreReview = ({
 
                 {expandedRow === index && score.metadata?.nameCanvas && (
                   <TableRow>
-                    <TableCell colSpan={7} className="bg-muted/30">
+                    <TableCell colSpan={8} className="bg-muted/30">
                       <div className="p-4 space-y-4">
                         <div className="grid grid-cols-2 gap-4">
                           <div>
@@ -810,11 +1411,19 @@ const EnhancedScoreReview = ({
                             <div className="text-sm font-medium mb-2">
                               Score Region
                             </div>
-                            <img
-                              src={score.metadata.scoreCanvas!.toDataURL()}
-                              alt="Score OCR region"
-                              className="border rounded"
+                            <ScoreCropWithDigits
+                              canvas={score.metadata.scoreCanvas!}
+                              confidences={score.metadata.digitConfidences}
                             />
+                            {score.bigScore && score.metadata.digitConfidences && (
+                              <div className="mt-2">
+                                <ScoreDigitEditor
+                                  digits={score.bigScore}
+                                  confidences={score.metadata.digitConfidences}
+                                  onChange={(d) => handleScoreChange(index, d)}
+                                />
+                              </div>
+                            )}
                             <div className="text-xs text-muted-foreground mt-1">
                               Confidence:{" "}
                               {(
@@ -827,6 +1436,25 @@ const EnhancedScoreReview = ({
                             </div>
                           </div>
                         </div>
+                        {score.metadata.rankCanvas && (
+                          <div>
+                            <div className="text-sm font-medium mb-2">
+                              Rank Region
+                            </div>
+                            <img
+                              src={score.metadata.rankCanvas.toDataURL()}
+                              alt="Rank OCR region"
+                              className="border rounded"
+                            />
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Confidence:{" "}
+                              {(
+                                (score.metadata.rankConfidence || 0) * 100
+                              ).toFixed(1)}
+                              %
+                            </div>
+                          </div>
+                        )}
                         <div className="text-xs text-muted-foreground">
                           <div>
                             Original: {score.metadata.originalWidth}×
@@ -845,7 +1473,8 @@ const EnhancedScoreReview = ({
                   </TableRow>
                 )}
               </>
-            ))}
+              );
+            })}
           </TableBody>
         </Table>
       </div>
@@ -856,17 +1485,20 @@ const EnhancedScoreReview = ({
           {verifiedCount} of {scores.length} scores verified
         </div>
         <Button
-          onClick={() => setShowCommitDialog(true)}
+          onClick={handleReviewCommit}
           disabled={
             verifiedCount === 0 ||
             loading ||
+            checkingPlausibility ||
             hasErrors ||
             !scores.some((s) => s.isVerified && s.linkedPlayerId)
           }
           size="lg"
         >
           <CheckCircle className="mr-2 h-4 w-4" />
-          Commit {verifiedCount} Verified Scores
+          {checkingPlausibility
+            ? "Checking score history..."
+            : `Commit ${verifiedCount} Verified Scores`}
         </Button>
       </div>
 
@@ -878,22 +1510,129 @@ const EnhancedScoreReview = ({
               Commit Verified Scores?
             </AlertDialogTitle>
             <AlertDialogDescription>
-              Commit {verifiedCount} verified scores for this event? This will
-              overwrite existing scores for these players and cannot be undone.
+              Commit {verifiedCount} verified scores for this event? Every row
+              is saved or none is; the import can be rolled back from the
+              batch audit log.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {commitPreviewError && (
+            <p className="text-sm text-destructive">
+              Could not preview the commit: {commitPreviewError}
+            </p>
+          )}
+          {commitPreview && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">
+                  {commitPreview.filter((d) => d.status === "new").length} new
+                </Badge>
+                <Badge variant="destructive">
+                  {commitPreview.filter((d) => d.status === "changed").length} changed
+                </Badge>
+                <Badge variant="outline">
+                  {commitPreview.filter((d) => d.status === "unchanged").length} unchanged
+                </Badge>
+              </div>
+              {commitPreview.some((d) => d.status === "changed") && (
+                <div className="max-h-[30vh] overflow-y-auto rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Player</TableHead>
+                        <TableHead>Current</TableHead>
+                        <TableHead>New</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {commitPreview
+                        .filter((d) => d.status === "changed")
+                        .map((d) => (
+                          <TableRow key={d.player_id}>
+                            <TableCell>
+                              {players.find((p) => p.id === d.player_id)?.canonical_name ??
+                                d.player_id.slice(0, 8)}
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {formatBigIntWithCommas(d.old_score ?? "0")}
+                              {d.old_rank !== null && ` (#${d.old_rank})`}
+                            </TableCell>
+                            <TableCell className="font-mono text-sm">
+                              {formatBigIntWithCommas(d.new_score)}
+                              {d.new_rank !== null && ` (#${d.new_rank})`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          )}
+          {plausibility.length > 0 && (
+            <div className="space-y-3 max-h-[40vh] overflow-y-auto rounded-md border border-amber-300 bg-amber-50 p-3 dark:bg-amber-950/30">
+              <p className="text-sm font-medium">
+                {plausibility.length} score(s) look unusual for these players.
+                Confirm each one is correct:
+              </p>
+              {plausibility.map((r) => (
+                <div key={r.rowId} className="space-y-1">
+                  <div className="text-sm font-medium">
+                    {r.playerName} –{" "}
+                    <span className="font-mono">
+                      {r.digits.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}
+                    </span>
+                  </div>
+                  {r.flags.map((f) => (
+                    <label
+                      key={f.key}
+                      className="flex items-start gap-2 text-sm cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={acknowledged.has(f.key)}
+                        onCheckedChange={(v) => toggleAcknowledged(f.key, v === true)}
+                        className="mt-0.5"
+                      />
+                      <span>{f.message}</span>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
           <AlertDialogFooter>
             <AlertDialogCancel>
               <X className="mr-2 h-4 w-4" />
               Cancel
             </AlertDialogCancel>
-            <AlertDialogAction onClick={handleCommitScores} disabled={loading}>
+            <AlertDialogAction
+              onClick={handleCommitScores}
+              disabled={loading || unacknowledgedCount > 0}
+            >
               <CheckCircle className="mr-2 h-4 w-4" />
               Commit Scores
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <AlertDialog open={showDiscardDialog} onOpenChange={setShowDiscardDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard Review Session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All {scores.length} draft rows are closed for every officer working
+              on this session. Nothing is committed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDiscardSession}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -1,8 +1,60 @@
 // src/components/scores/MultiFileOCRUpload.tsx
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { toast } from "sonner";
-import { runAvalonLeaderboardOCR } from "@/lib/ocrTwoPass";
+import { AlertTriangle, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_OCR_ENGINE_ID,
+  OCR_ENGINES,
+  OCREngineId,
+  OCREngineRow,
+  getOCREngine,
+} from "@/lib/ocrEngines";
+import { fetchNameLanguages } from "@/lib/ocrLanguages";
+import { stitchLeaderboardPages } from "@/lib/ocrStitch";
+import { getPoolSize } from "@/lib/ocrWorkerPool";
+import {
+  HeaderClassification,
+  HeaderTargetEvent,
+  compareHeaderWithEvent,
+  readScreenshotHeader,
+} from "@/lib/ocrHeaderClassify";
+import {
+  StoredScreenshot,
+  markScreenshotProcessed,
+  storeScreenshot,
+} from "@/lib/ocrScreenshots";
+import {
+  BUILTIN_LAYOUT_PROFILES,
+  DEFAULT_LAYOUT_PROFILE_ID,
+  OCRLayoutProfile,
+  fetchLayoutProfiles,
+} from "@/lib/ocrLayoutProfiles";
+
+type FileStatus = "queued" | "running" | "done" | "cancelled" | "error";
+
+interface FileProgress {
+  status: FileStatus;
+  done: number;
+  total: number;
+}
+
+interface FileHeader {
+  classification?: HeaderClassification;
+  failed?: boolean;
+}
+
+const fileKey = (f: File) => `${f.name}:${f.size}:${f.lastModified}`;
 
 export interface MultiFileOCRUploadProps {
   eventId?: string;
@@ -18,6 +70,56 @@ const MultiFileOCRUpload = ({
   // keep file list typed
   const [files, setFiles] = useState<File[]>([]);
   const [processing, setProcessing] = useState(false);
+  const [nameLanguages, setNameLanguages] = useState<string[]>([]);
+  const [profiles, setProfiles] = useState<OCRLayoutProfile[]>(
+    BUILTIN_LAYOUT_PROFILES
+  );
+  const [profileId, setProfileId] = useState(DEFAULT_LAYOUT_PROFILE_ID);
+  const [engineId, setEngineId] = useState<OCREngineId>(DEFAULT_OCR_ENGINE_ID);
+  // per-file progress, same order as `files`
+  const [progress, setProgress] = useState<FileProgress[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  // header read per file (keyed by profile + file) – shown before processing
+  const [headers, setHeaders] = useState<Record<string, FileHeader>>({});
+  const [targetEvent, setTargetEvent] = useState<HeaderTargetEvent | null>(null);
+  const headerStartedRef = useRef(new Set<string>());
+
+  // load saved layout profiles (admin_settings) on top of the built-ins
+  useEffect(() => {
+    fetchLayoutProfiles().then(setProfiles);
+    fetchNameLanguages().then(setNameLanguages);
+  }, []);
+
+  useEffect(() => {
+    if (!eventId) return;
+    supabase
+      .from("events")
+      .select("name, event_type, event_date")
+      .eq("id", eventId)
+      .maybeSingle()
+      .then(({ data }) => setTargetEvent(data));
+  }, [eventId]);
+
+  // classify the header of every new file (re-read when the profile changes)
+  useEffect(() => {
+    const profile = profiles.find((p) => p.id === profileId);
+    if (!profile) return;
+
+    for (const file of files) {
+      const key = `${profileId}:${fileKey(file)}`;
+      if (headerStartedRef.current.has(key)) continue;
+      headerStartedRef.current.add(key);
+
+      readScreenshotHeader(file, profile)
+        .then((classification) =>
+          setHeaders((prev) => ({ ...prev, [key]: { classification } }))
+        )
+        .catch((err) => {
+          console.warn("Header read failed:", file.name, err);
+          setHeaders((prev) => ({ ...prev, [key]: { failed: true } }));
+        });
+    }
+  }, [files, profileId, profiles]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const picked = e.target.files ? Array.from(e.target.files) : [];
@@ -36,6 +138,22 @@ const MultiFileOCRUpload = ({
 
   const handleClear = () => {
     setFiles([]);
+    setProgress([]);
+  };
+
+  const handleRemoveFile = (idx: number) => {
+    setFiles((prev) => prev.filter((_, i) => i !== idx));
+    setProgress([]);
+  };
+
+  const updateProgress = (fileIdx: number, patch: Partial<FileProgress>) => {
+    setProgress((prev) =>
+      prev.map((p, i) => (i === fileIdx ? { ...p, ...patch } : p))
+    );
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
   };
 
   const handleProcess = async () => {
@@ -44,37 +162,133 @@ const MultiFileOCRUpload = ({
       return;
     }
 
+    const profile =
+      profiles.find((p) => p.id === profileId) ?? BUILTIN_LAYOUT_PROFILES[0];
+
+    if (targetEvent) {
+      const mismatched = files.filter((f) => {
+        const h = headers[`${profileId}:${fileKey(f)}`]?.classification;
+        return h && compareHeaderWithEvent(h, targetEvent).length > 0;
+      });
+      if (mismatched.length) {
+        toast.warning(
+          `${mismatched.length} screenshot(s) may not be from this event: ${mismatched
+            .map((f) => f.name)
+            .join(", ")}`
+        );
+      }
+    }
+
+    const engine = getOCREngine(engineId);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(files.map(() => ({ status: "queued", done: 0, total: 0 })));
+
     setProcessing(true);
     try {
-      const allRows: any[] = [];
+      // one row list per screenshot, in the order the files were picked
+      const pages: OCREngineRow[][] = [];
+      const failedFiles: string[] = [];
+
+      for (const [fileIdx, file] of files.entries()) {
+        if (controller.signal.aborted) {
+          updateProgress(fileIdx, { status: "cancelled" });
+          continue;
+        }
 
-      for (const file of files) {
-        const rowsFromThisFile = await runAvalonLeaderboardOCR(file);
+        updateProgress(fileIdx, { status: "running" });
 
-        const stamped = rowsFromThisFile.map((r: any, idx: number) => ({
+        // keep the original so rows can link back to it (and be re-run later)
+        let stored: StoredScreenshot | null = null;
+        if (eventId) {
+          try {
+            stored = await storeScreenshot(eventId, file, profile.id);
+          } catch (err) {
+            console.warn("Failed to store screenshot:", file.name, err);
+            toast.warning(
+              `Could not store ${file.name} – its rows won't link to the screenshot`
+            );
+          }
+        }
+
+        let rowsFromThisFile: OCREngineRow[];
+        try {
+          rowsFromThisFile = await engine.run(file, profile, {
+            signal: controller.signal,
+            nameLanguages,
+            onProgress: ({ done, total }) =>
+              updateProgress(fileIdx, { done, total }),
+          });
+        } catch (err) {
+          // one bad screenshot shouldn't cost the rows of the others
+          if (controller.signal.aborted) {
+            updateProgress(fileIdx, { status: "cancelled" });
+          } else {
+            console.error("OCR failed for", file.name, err);
+            updateProgress(fileIdx, { status: "error" });
+            failedFiles.push(file.name);
+          }
+          continue;
+        }
+        updateProgress(fileIdx, {
+          status: controller.signal.aborted ? "cancelled" : "done",
+        });
+        if (stored) {
+          await markScreenshotProcessed(stored.uploadId, {
+            rowCount: rowsFromThisFile.length,
+            layoutProfileId: profile.id,
+            engine: engine.id,
+            cancelled: controller.signal.aborted,
+          });
+        }
+
+        const stamped = rowsFromThisFile.map((r, idx) => ({
           ...r,
-          uploadId: `${file.name}:${idx}`,
+          uploadId: stored?.uploadId ?? `${file.name}:${idx}`,
           imageSource: file.name,
           parsedName: r.parsedName ?? "",
           parsedScore: typeof r.parsedScore === "number" ? r.parsedScore : 0,
         }));
 
-        allRows.push(...stamped);
+        pages.push(stamped);
       }
 
-      toast.success(
-        `Processed ${allRows.length} rows from ${files.length} file(s).`
-      );
+      // scrolled screenshots overlap – collapse the shared rows
+      const { rows: allRows, collapsed, conflicted } =
+        stitchLeaderboardPages(pages);
 
-      onProcessed?.(allRows);
+      if (controller.signal.aborted) {
+        toast.info(`OCR cancelled – kept ${allRows.length} finished row(s).`);
+      } else if (failedFiles.length > 0) {
+        toast.error(
+          `OCR failed for ${failedFiles.join(", ")} – kept ${allRows.length} row(s) from the other file(s).`
+        );
+      } else {
+        toast.success(
+          `Processed ${allRows.length} rows from ${files.length} file(s).` +
+            (collapsed > 0 ? ` ${collapsed} overlapping row(s) merged.` : "")
+        );
+      }
+      if (conflicted > 0) {
+        toast.warning(
+          `${conflicted} overlapping row(s) were read differently between screenshots – check the flagged rows.`
+        );
+      }
+
+      if (allRows.length > 0) onProcessed?.(allRows);
     } catch (err: any) {
       console.error(err);
       toast.error("OCR failed: " + (err?.message || "unknown error"));
     } finally {
+      abortRef.current = null;
       setProcessing(false);
     }
   };
 
+  const totalRows = progress.reduce((sum, p) => sum + p.total, 0);
+  const doneRows = progress.reduce((sum, p) => sum + p.done, 0);
+  const overallPercent = totalRows > 0 ? (doneRows / totalRows) * 100 : 0;
+
   return (
     <div className="space-y-4">
       <div
@@ -97,31 +311,144 @@ const MultiFileOCRUpload = ({
           <p className="text-sm text-muted-foreground mt-1">
             Drag & drop is also supported
           </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Pick scrolled screenshots top to bottom – overlapping rows are merged
+          </p>
         </label>
       </div>
 
       {files.length > 0 && (
         <div className="flex flex-wrap gap-2 items-center">
-          {files.map((f) => (
-            <div
-              key={f.name + f.size}
-              className="px-3 py-1 bg-muted rounded-md text-sm flex items-center gap-2"
-            >
-              <span className="truncate max-w-[140px]">{f.name}</span>
-              <span className="text-xs text-muted-foreground">
-                {(f.size / 1024).toFixed(1)} KB
-              </span>
-            </div>
-          ))}
-          <Button variant="ghost" size="sm" onClick={handleClear}>
+          {files.map((f, idx) => {
+            const p = progress[idx];
+            const header = headers[`${profileId}:${fileKey(f)}`];
+            const h = header?.classification;
+            const warnings =
+              h && targetEvent ? compareHeaderWithEvent(h, targetEvent) : [];
+            return (
+              <div
+                key={f.name + f.size}
+                className={`px-3 py-1 rounded-md text-sm flex items-center gap-2 ${
+                  warnings.length
+                    ? "bg-amber-100 dark:bg-amber-900/40"
+                    : "bg-muted"
+                }`}
+              >
+                <div className="flex flex-col min-w-0">
+                  <span className="truncate max-w-[160px]">{f.name}</span>
+                  <span className="text-xs text-muted-foreground truncate max-w-[220px]">
+                    {!header
+                      ? "Reading header..."
+                      : header.failed
+                      ? "Header unreadable"
+                      : [
+                          h?.title,
+                          h?.tab && `${h.tab}${h.tabGuessed ? "?" : ""}`,
+                          h?.season,
+                          h?.dateText,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ") || "No header text"}
+                  </span>
+                </div>
+                {warnings.length > 0 && (
+                  <span title={warnings.join("\n")} className="shrink-0">
+                    <AlertTriangle className="h-4 w-4 text-amber-600" />
+                  </span>
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {p && p.status !== "queued"
+                    ? `${p.status === "running" ? "" : p.status + " "}${p.done}/${p.total} rows`
+                    : `${(f.size / 1024).toFixed(1)} KB`}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveFile(idx)}
+                  disabled={processing}
+                  className="text-muted-foreground hover:text-foreground disabled:opacity-50"
+                  aria-label={`Remove ${f.name}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            );
+          })}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClear}
+            disabled={processing}
+          >
             Clear
           </Button>
         </div>
       )}
 
-      <Button onClick={handleProcess} disabled={processing || !canManage}>
-        {processing ? "Processing..." : "Process OCR"}
-      </Button>
+      <div className="flex flex-wrap gap-4">
+        <div className="space-y-2 w-full max-w-xs">
+          <Label>Layout Profile</Label>
+          <Select
+            value={profileId}
+            onValueChange={setProfileId}
+            disabled={processing}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select layout" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2 w-full max-w-xs">
+          <Label>OCR Engine</Label>
+          <Select
+            value={engineId}
+            onValueChange={(v) => setEngineId(v as OCREngineId)}
+            disabled={processing}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {OCR_ENGINES.map((e) => (
+                <SelectItem key={e.id} value={e.id}>
+                  {e.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {getOCREngine(engineId).description}
+          </p>
+        </div>
+      </div>
+
+      {processing && (
+        <div className="space-y-1">
+          <Progress value={overallPercent} />
+          <p className="text-xs text-muted-foreground">
+            {doneRows}/{totalRows} rows recognized · {getPoolSize()} OCR
+            worker(s)
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button onClick={handleProcess} disabled={processing || !canManage}>
+          {processing ? "Processing..." : "Process OCR"}
+        </Button>
+        {processing && (
+          <Button variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,93 @@
+// src/components/scores/ReviewSessionList.tsx
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Link2, PlayCircle } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ReviewSessionSummary,
+  fetchOpenReviewSessions,
+} from "@/lib/reviewSessions";
+
+interface ReviewSessionListProps {
+  eventId: string;
+  activeSessionId: string | null;
+  onResume: (sessionId: string) => void;
+}
+
+const ReviewSessionList = ({
+  eventId,
+  activeSessionId,
+  onResume,
+}: ReviewSessionListProps) => {
+  const [sessions, setSessions] = useState<ReviewSessionSummary[]>([]);
+
+  // refetch whenever the active session changes (opened / committed / discarded)
+  useEffect(() => {
+    fetchOpenReviewSessions(eventId)
+      .then(setSessions)
+      .catch((err: Error) =>
+        console.warn("Failed to load review sessions:", err.message)
+      );
+  }, [eventId, activeSessionId]);
+
+  const handleCopyLink = async (sessionId: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set("session", sessionId);
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      toast.success("Session link copied");
+    } catch {
+      toast.error("Could not copy link");
+    }
+  };
+
+  if (!sessions.length) return null;
+
+  return (
+    <div className="space-y-2 rounded-lg border p-3">
+      <h3 className="text-sm font-medium">Open review sessions</h3>
+      {sessions.map((s) => (
+        <div
+          key={s.id}
+          className="flex flex-wrap items-center justify-between gap-2 text-sm"
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-medium">
+              {s.title || `Review by ${s.createdByName || "Officer"}`}
+            </span>
+            <Badge variant="outline">
+              {s.verifiedCount}/{s.rowCount} verified
+            </Badge>
+            <span className="text-muted-foreground">
+              updated {format(new Date(s.updatedAt), "MMM d, HH:mm")}
+            </span>
+            {s.id === activeSessionId && <Badge>Open here</Badge>}
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handleCopyLink(s.id)}
+            >
+              <Link2 className="mr-2 h-4 w-4" />
+              Copy Link
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onResume(s.id)}
+              disabled={s.id === activeSessionId}
+            >
+              <PlayCircle className="mr-2 h-4 w-4" />
+              Resume
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReviewSessionList;
@@ -0,0 +1,109 @@
+// src/components/scores/ScoreDigitEditor.tsx
+import { useRef } from "react";
+import {
+  DOUBTFUL_DIGIT_CONFIDENCE,
+  DigitConfidence,
+} from "@/lib/ocrProcessing";
+
+interface ScoreDigitEditorProps {
+  /** digits only, same length as `confidences` */
+  digits: string;
+  confidences: DigitConfidence[];
+  onChange: (digits: string) => void;
+  /** table cell mode: render nothing when every digit is confident */
+  compact?: boolean;
+}
+
+/**
+ * One box per digit, doubtful ones highlighted. Typing replaces just that
+ * digit so a 12-digit score never has to be retyped.
+ */
+const ScoreDigitEditor = ({
+  digits,
+  confidences,
+  onChange,
+  compact = false,
+}: ScoreDigitEditorProps) => {
+  const inputs = useRef<(HTMLInputElement | null)[]>([]);
+
+  if (confidences.length !== digits.length) return null;
+
+  const doubtful = confidences.map(
+    (c) => c.confidence < DOUBTFUL_DIGIT_CONFIDENCE
+  );
+  if (compact && !doubtful.some(Boolean)) return null;
+
+  const replaceDigit = (index: number, value: string) => {
+    const d = value.replace(/[^\d]/g, "").slice(-1);
+    if (!d) return;
+    onChange(digits.slice(0, index) + d + digits.slice(index + 1));
+
+    // jump to the next doubtful digit
+    const next = doubtful.findIndex((flag, i) => flag && i > index);
+    if (next >= 0) inputs.current[next]?.focus();
+  };
+
+  return (
+    <div className="flex items-center font-mono text-sm">
+      {Array.from(digits).map((digit, i) => {
+        // thousands separator before this digit
+        const sep = i > 0 && (digits.length - i) % 3 === 0;
+        const conf = confidences[i].confidence;
+        return (
+          <span key={i} className="flex items-center">
+            {sep && <span className="px-px text-muted-foreground">,</span>}
+            <input
+              ref={(el) => (inputs.current[i] = el)}
+              value={digit}
+              inputMode="numeric"
+              onChange={(e) => replaceDigit(i, e.target.value)}
+              onFocus={(e) => e.target.select()}
+              title={`${Math.round(conf * 100)}% confident`}
+              className={`w-4 rounded-sm text-center outline-none focus:ring-1 focus:ring-ring ${
+                doubtful[i]
+                  ? "bg-amber-200 text-amber-900 font-bold dark:bg-amber-800 dark:text-amber-50"
+                  : "bg-transparent"
+              }`}
+            />
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Score crop with the doubtful digits boxed (bbox is in crop pixels)
+ */
+export const ScoreCropWithDigits = ({
+  canvas,
+  confidences,
+}: {
+  canvas: HTMLCanvasElement;
+  confidences?: DigitConfidence[];
+}) => (
+  <div className="relative inline-block">
+    <img
+      src={canvas.toDataURL()}
+      alt="Score OCR region"
+      className="border rounded block"
+    />
+    {confidences?.map((c, i) =>
+      c.bbox && c.confidence < DOUBTFUL_DIGIT_CONFIDENCE ? (
+        <div
+          key={i}
+          className="absolute border-2 border-amber-500 bg-amber-400/20"
+          style={{
+            left: `${(c.bbox.x0 / canvas.width) * 100}%`,
+            top: `${(c.bbox.y0 / canvas.height) * 100}%`,
+            width: `${((c.bbox.x1 - c.bbox.x0) / canvas.width) * 100}%`,
+            height: `${((c.bbox.y1 - c.bbox.y0) / canvas.height) * 100}%`,
+          }}
+          title={`${c.digit}: ${Math.round(c.confidence * 100)}%`}
+        />
+      ) : null
+    )}
+  </div>
+);
+
+export default ScoreDigitEditor;
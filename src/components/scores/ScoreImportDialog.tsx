@@ -0,0 +1,236 @@
+// src/components/scores/ScoreImportDialog.tsx
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ClipboardPaste } from "lucide-react";
+import { toast } from "sonner";
+import { formatBigIntWithCommas } from "@/lib/ocrProcessing";
+import {
+  ImportedRow,
+  ocrClipboardImage,
+  parseScoreText,
+  readScoreFile,
+} from "@/lib/scoreImport";
+
+interface ScoreImportDialogProps {
+  eventId: string;
+  onImport: (rows: ImportedRow[]) => void;
+  disabled?: boolean;
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Paste / upload scores that didn't come through the screenshot upload.
+ * Also listens for Ctrl+V anywhere on the page: images are OCR'd straight
+ * away, text opens this dialog prefilled.
+ */
+const ScoreImportDialog = ({ eventId, onImport, disabled }: ScoreImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [sourceName, setSourceName] = useState("Pasted text");
+  const [fileRows, setFileRows] = useState<ImportedRow[] | null>(null);
+  const [ocrRunning, setOcrRunning] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const rows = fileRows ?? parseScoreText(text, sourceName);
+
+  const reset = () => {
+    setText("");
+    setSourceName("Pasted text");
+    setFileRows(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const importImage = async (image: File) => {
+    setOcrRunning(true);
+    const toastId = toast.loading("Reading pasted image...");
+    try {
+      const imported = await ocrClipboardImage(eventId, image);
+      if (!imported.length) {
+        toast.error("No scores found in the pasted image", { id: toastId });
+        return;
+      }
+      onImport(imported);
+      toast.success(`Added ${imported.length} rows from the pasted image`, { id: toastId });
+    } catch (err) {
+      toast.error("OCR failed: " + (err as Error).message, { id: toastId });
+    } finally {
+      setOcrRunning(false);
+    }
+  };
+
+  // page-wide paste, unless someone is typing into a field
+  useEffect(() => {
+    if (disabled) return;
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (open || ocrRunning || isEditableTarget(e.target)) return;
+      const data = e.clipboardData;
+      if (!data) return;
+
+      const image = Array.from(data.files).find((f) => f.type.startsWith("image/"));
+      if (image) {
+        e.preventDefault();
+        importImage(image);
+        return;
+      }
+
+      const pasted = data.getData("text/plain");
+      if (pasted.trim()) {
+        e.preventDefault();
+        setFileRows(null);
+        setSourceName("Pasted text");
+        setText(pasted);
+        setOpen(true);
+      }
+    };
+
+    window.addEventListener("paste", handlePaste);
+    return () => window.removeEventListener("paste", handlePaste);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [disabled, open, ocrRunning, eventId]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setFileRows(await readScoreFile(file));
+      setSourceName(file.name);
+    } catch (err) {
+      toast.error("Failed to read file: " + (err as Error).message);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!rows.length) return;
+    onImport(rows);
+    toast.success(`Added ${rows.length} rows from ${sourceName}`);
+    setOpen(false);
+    reset();
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        disabled={disabled || ocrRunning}
+        title="Paste text or an image anywhere on the page, or import a CSV / TSV file"
+      >
+        <ClipboardPaste className="mr-2 h-4 w-4" />
+        {ocrRunning ? "Reading image..." : "Import"}
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(o) => {
+          setOpen(o);
+          if (!o) reset();
+        }}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import Scores</DialogTitle>
+            <DialogDescription>
+              Paste name / score lines or a spreadsheet selection, or pick a
+              CSV / TSV export. Rows are matched to players and reviewed like
+              OCR results. Images can be pasted straight onto the page.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="score-import-text">Text</Label>
+            <Textarea
+              id="score-import-text"
+              rows={8}
+              className="font-mono text-sm"
+              placeholder={"1 PlayerOne 12,345,678\nPlayerTwo\t9876543\nname,score\n..."}
+              value={text}
+              onChange={(e) => {
+                setFileRows(null);
+                setSourceName("Pasted text");
+                setText(e.target.value);
+              }}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="score-import-file">Or a file</Label>
+            <Input
+              id="score-import-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+              onChange={handleFileChange}
+            />
+          </div>
+
+          {rows.length > 0 ? (
+            <div className="rounded-lg border overflow-hidden">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Rank</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.slice(0, 100).map((row, idx) => (
+                    <TableRow key={idx}>
+                      <TableCell className="font-mono text-sm">{row.rank ?? "—"}</TableCell>
+                      <TableCell>{row.parsedName || "—"}</TableCell>
+                      <TableCell>{formatBigIntWithCommas(row.bigScore)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {rows.length > 100 && (
+                <p className="p-2 text-xs text-muted-foreground">
+                  …and {rows.length - 100} more
+                </p>
+              )}
+            </div>
+          ) : (
+            (text.trim() || fileRows) && (
+              <p className="text-sm text-muted-foreground">No name / score rows recognised.</p>
+            )
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={!rows.length}>
+              Add {rows.length} Rows
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ScoreImportDialog;
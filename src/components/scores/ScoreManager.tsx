@@ -63,6 +63,7 @@ const ScoreManager = ({
       {activeTab === "upload" ? (
         <div className="rounded-lg border bg-background p-4">
           <MultiFileOCRUpload
+            eventId={eventId || undefined}
             canManage={canManage} // ✅ added to fix TS error
             onProcessed={(rowsFromAllFiles) => {
               // append to existing rows so multiple uploads show together
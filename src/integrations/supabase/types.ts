@@ -38,6 +38,47 @@ export type Database = {
         }
         Relationships: []
       }
+      batch_operation_changes: {
+        Row: {
+          action: string
+          batch_operation_id: string
+          created_at: string
+          new_row: Json | null
+          old_row: Json | null
+          row_id: string
+          seq: number
+          table_name: string
+        }
+        Insert: {
+          action: string
+          batch_operation_id: string
+          created_at?: string
+          new_row?: Json | null
+          old_row?: Json | null
+          row_id: string
+          seq?: number
+          table_name: string
+        }
+        Update: {
+          action?: string
+          batch_operation_id?: string
+          created_at?: string
+          new_row?: Json | null
+          old_row?: Json | null
+          row_id?: string
+          seq?: number
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_operation_changes_batch_operation_id_fkey"
+            columns: ["batch_operation_id"]
+            isOneToOne: false
+            referencedRelation: "batch_operations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       batch_operations: {
         Row: {
           client_ref: string | null
@@ -50,6 +91,7 @@ export type Database = {
           rolled_back_at: string | null
           rolled_back_by: string | null
           status: string
+          updated_at: string
         }
         Insert: {
           client_ref?: string | null
@@ -62,6 +104,7 @@ export type Database = {
           rolled_back_at?: string | null
           rolled_back_by?: string | null
           status?: string
+          updated_at?: string
         }
         Update: {
           client_ref?: string | null
@@ -74,6 +117,7 @@ export type Database = {
           rolled_back_at?: string | null
           rolled_back_by?: string | null
           status?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -158,9 +202,11 @@ export type Database = {
           deleted_at: string | null
           description: string | null
           event_date: string
+          event_type: string | null
           id: string
           location: string | null
           name: string
+          raffle_series_id: string | null
           updated_at: string
         }
         Insert: {
@@ -169,9 +215,11 @@ export type Database = {
           deleted_at?: string | null
           description?: string | null
           event_date: string
+          event_type?: string | null
           id?: string
           location?: string | null
           name: string
+          raffle_series_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -180,12 +228,22 @@ export type Database = {
           deleted_at?: string | null
           description?: string | null
           event_date?: string
+          event_type?: string | null
           id?: string
           location?: string | null
           name?: string
+          raffle_series_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "events_raffle_series_id_fkey"
+            columns: ["raffle_series_id"]
+            isOneToOne: false
+            referencedRelation: "raffle_series"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ledger_transactions: {
         Row: {
@@ -295,8 +353,78 @@ export type Database = {
         }
         Relationships: []
       }
+      ocr_corpus_runs: {
+        Row: {
+          created_at: string
+          created_by: string
+          engine: string
+          id: string
+          label: string | null
+          results: Json
+          summary: Json
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          engine: string
+          id?: string
+          label?: string | null
+          results: Json
+          summary: Json
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          engine?: string
+          id?: string
+          label?: string | null
+          results?: Json
+          summary?: Json
+        }
+        Relationships: []
+      }
+      ocr_corpus_samples: {
+        Row: {
+          created_at: string
+          created_by: string
+          expected_rows: Json
+          id: string
+          image_hash: string
+          image_path: string
+          layout_profile_id: string | null
+          name: string
+          notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expected_rows?: Json
+          id?: string
+          image_hash: string
+          image_path: string
+          layout_profile_id?: string | null
+          name: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expected_rows?: Json
+          id?: string
+          image_hash?: string
+          image_path?: string
+          layout_profile_id?: string | null
+          name?: string
+          notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       ocr_rows: {
         Row: {
+          claimed_by: string | null
           confidence: number | null
           corrected_value: number | null
           created_at: string | null
@@ -305,15 +433,22 @@ export type Database = {
           image_source: string | null
           is_verified: boolean | null
           linked_player_id: string | null
+          metadata: Json | null
           parsed_name: string
+          parsed_rank: number | null
           parsed_score: number
           parsed_score_big: number | null
           raw_score_text: string | null
           raw_text: string | null
+          row_order: number | null
+          session_id: string | null
           updated_at: string | null
+          updated_by: string | null
           upload_id: string | null
+          verified_by: string | null
         }
         Insert: {
+          claimed_by?: string | null
           confidence?: number | null
           corrected_value?: number | null
           created_at?: string | null
@@ -322,15 +457,22 @@ export type Database = {
           image_source?: string | null
           is_verified?: boolean | null
           linked_player_id?: string | null
+          metadata?: Json | null
           parsed_name: string
+          parsed_rank?: number | null
           parsed_score: number
           parsed_score_big?: number | null
           raw_score_text?: string | null
           raw_text?: string | null
+          row_order?: number | null
+          session_id?: string | null
           updated_at?: string | null
+          updated_by?: string | null
           upload_id?: string | null
+          verified_by?: string | null
         }
         Update: {
+          claimed_by?: string | null
           confidence?: number | null
           corrected_value?: number | null
           created_at?: string | null
@@ -339,13 +481,19 @@ export type Database = {
           image_source?: string | null
           is_verified?: boolean | null
           linked_player_id?: string | null
+          metadata?: Json | null
           parsed_name?: string
+          parsed_rank?: number | null
           parsed_score?: number
           parsed_score_big?: number | null
           raw_score_text?: string | null
           raw_text?: string | null
+          row_order?: number | null
+          session_id?: string | null
           updated_at?: string | null
+          updated_by?: string | null
           upload_id?: string | null
+          verified_by?: string | null
         }
         Relationships: [
           {
@@ -362,6 +510,13 @@ export type Database = {
             referencedRelation: "players"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ocr_rows_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "review_sessions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ocr_rows_upload_id_fkey"
             columns: ["upload_id"]
@@ -376,6 +531,10 @@ export type Database = {
           created_at: string
           event_id: string
           id: string
+          image_hash: string | null
+          image_name: string | null
+          image_path: string | null
+          layout_profile_id: string | null
           original_text: string | null
           processed_data: Json | null
           status: string
@@ -386,6 +545,10 @@ export type Database = {
           created_at?: string
           event_id: string
           id?: string
+          image_hash?: string | null
+          image_name?: string | null
+          image_path?: string | null
+          layout_profile_id?: string | null
           original_text?: string | null
           processed_data?: Json | null
           status?: string
@@ -396,6 +559,10 @@ export type Database = {
           created_at?: string
           event_id?: string
           id?: string
+          image_hash?: string | null
+          image_name?: string | null
+          image_path?: string | null
+          layout_profile_id?: string | null
           original_text?: string | null
           processed_data?: Json | null
           status?: string
@@ -480,6 +647,78 @@ export type Database = {
         }
         Relationships: []
       }
+      raffle_draws: {
+        Row: {
+          algorithm: string
+          allow_multiple_wins: boolean
+          batch_operation_id: string | null
+          drawn_at: string
+          drawn_by: string
+          id: string
+          pool: Json
+          raffle_id: string
+          seed: string
+          seed_committed_at: string
+          seed_hash: string
+          tiers: Json
+          total_prizes: number
+          weight_formula: string
+          weight_params: Json
+          winners: Json
+        }
+        Insert: {
+          algorithm?: string
+          allow_multiple_wins?: boolean
+          batch_operation_id?: string | null
+          drawn_at?: string
+          drawn_by: string
+          id?: string
+          pool: Json
+          raffle_id: string
+          seed: string
+          seed_committed_at: string
+          seed_hash: string
+          tiers?: Json
+          total_prizes: number
+          weight_formula: string
+          weight_params: Json
+          winners: Json
+        }
+        Update: {
+          algorithm?: string
+          allow_multiple_wins?: boolean
+          batch_operation_id?: string | null
+          drawn_at?: string
+          drawn_by?: string
+          id?: string
+          pool?: Json
+          raffle_id?: string
+          seed?: string
+          seed_committed_at?: string
+          seed_hash?: string
+          tiers?: Json
+          total_prizes?: number
+          weight_formula?: string
+          weight_params?: Json
+          winners?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "raffle_draws_batch_operation_id_fkey"
+            columns: ["batch_operation_id"]
+            isOneToOne: false
+            referencedRelation: "batch_operations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "raffle_draws_raffle_id_fkey"
+            columns: ["raffle_id"]
+            isOneToOne: false
+            referencedRelation: "raffles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       raffle_entries: {
         Row: {
           batch_operation_id: string | null
@@ -489,6 +728,7 @@ export type Database = {
           player_id: string
           prize_amount: number | null
           raffle_id: string
+          tier_id: string | null
           updated_at: string
           weight: number
         }
@@ -500,6 +740,7 @@ export type Database = {
           player_id: string
           prize_amount?: number | null
           raffle_id: string
+          tier_id?: string | null
           updated_at?: string
           weight?: number
         }
@@ -511,6 +752,7 @@ export type Database = {
           player_id?: string
           prize_amount?: number | null
           raffle_id?: string
+          tier_id?: string | null
           updated_at?: string
           weight?: number
         }
@@ -536,6 +778,13 @@ export type Database = {
             referencedRelation: "raffles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "raffle_entries_tier_id_fkey"
+            columns: ["tier_id"]
+            isOneToOne: false
+            referencedRelation: "raffle_tiers"
+            referencedColumns: ["id"]
+          },
         ]
       }
       raffle_entries_history: {
@@ -547,7 +796,9 @@ export type Database = {
           event_id: string
           id: string
           player_id: string
+          previous_event_id: string | null
           reason: string | null
+          series_id: string | null
         }
         Insert: {
           created_at?: string | null
@@ -557,7 +808,9 @@ export type Database = {
           event_id: string
           id?: string
           player_id: string
+          previous_event_id?: string | null
           reason?: string | null
+          series_id?: string | null
         }
         Update: {
           created_at?: string | null
@@ -567,7 +820,9 @@ export type Database = {
           event_id?: string
           id?: string
           player_id?: string
+          previous_event_id?: string | null
           reason?: string | null
+          series_id?: string | null
         }
         Relationships: [
           {
@@ -584,6 +839,136 @@ export type Database = {
             referencedRelation: "players"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "raffle_entries_history_previous_event_id_fkey"
+            columns: ["previous_event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "raffle_entries_history_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "raffle_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      raffle_seeds: {
+        Row: {
+          committed_at: string
+          committed_by: string
+          id: string
+          raffle_id: string
+          revealed_at: string | null
+          seed: string
+          seed_hash: string
+        }
+        Insert: {
+          committed_at?: string
+          committed_by: string
+          id?: string
+          raffle_id: string
+          revealed_at?: string | null
+          seed: string
+          seed_hash: string
+        }
+        Update: {
+          committed_at?: string
+          committed_by?: string
+          id?: string
+          raffle_id?: string
+          revealed_at?: string | null
+          seed?: string
+          seed_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "raffle_seeds_raffle_id_fkey"
+            columns: ["raffle_id"]
+            isOneToOne: false
+            referencedRelation: "raffles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      raffle_series: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      raffle_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          medal_id: string
+          name: string
+          position: number
+          prize_amount: number
+          prize_count: number
+          raffle_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          medal_id: string
+          name: string
+          position: number
+          prize_amount: number
+          prize_count: number
+          raffle_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          medal_id?: string
+          name?: string
+          position?: number
+          prize_amount?: number
+          prize_count?: number
+          raffle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "raffle_tiers_medal_id_fkey"
+            columns: ["medal_id"]
+            isOneToOne: false
+            referencedRelation: "medals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "raffle_tiers_raffle_id_fkey"
+            columns: ["raffle_id"]
+            isOneToOne: false
+            referencedRelation: "raffles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       raffle_weights: {
@@ -633,6 +1018,7 @@ export type Database = {
       }
       raffles: {
         Row: {
+          allow_multiple_wins: boolean
           created_at: string
           created_by: string
           description: string | null
@@ -641,12 +1027,16 @@ export type Database = {
           id: string
           medal_id: string
           name: string
+          seed_committed_at: string | null
+          seed_hash: string | null
           status: string
           total_prizes: number
           updated_at: string
           weight_formula: string
+          weight_params: Json
         }
         Insert: {
+          allow_multiple_wins?: boolean
           created_at?: string
           created_by: string
           description?: string | null
@@ -655,12 +1045,16 @@ export type Database = {
           id?: string
           medal_id: string
           name: string
+          seed_committed_at?: string | null
+          seed_hash?: string | null
           status?: string
           total_prizes: number
           updated_at?: string
           weight_formula?: string
+          weight_params?: Json
         }
         Update: {
+          allow_multiple_wins?: boolean
           created_at?: string
           created_by?: string
           description?: string | null
@@ -669,10 +1063,13 @@ export type Database = {
           id?: string
           medal_id?: string
           name?: string
+          seed_committed_at?: string | null
+          seed_hash?: string | null
           status?: string
           total_prizes?: number
           updated_at?: string
           weight_formula?: string
+          weight_params?: Json
         }
         Relationships: [
           {
@@ -691,6 +1088,50 @@ export type Database = {
           },
         ]
       }
+      review_sessions: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          created_by: string
+          event_id: string
+          id: string
+          status: string
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by: string
+          event_id: string
+          id?: string
+          status?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string
+          event_id?: string
+          id?: string
+          status?: string
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "review_sessions_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       scores: {
         Row: {
           created_at: string
@@ -774,6 +1215,40 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_raffle_weights: {
+        Args: { event_uuid: string; weights: Json }
+        Returns: Json
+      }
+      batch_rollback_plan: {
+        Args: { batch_uuid: string }
+        Returns: {
+          action: string
+          conflict: boolean
+          live_row: Json
+          new_row: Json
+          old_row: Json
+          row_id: string
+          seq: number
+          table_name: string
+        }[]
+      }
+      commit_raffle_seed: { Args: { raffle_uuid: string }; Returns: Json }
+      commit_score_import: {
+        Args: { client_ref?: string; event_uuid: string; payload: Json }
+        Returns: Json
+      }
+      create_raffle: {
+        Args: {
+          allow_multiple_wins?: boolean
+          event_uuid: string
+          raffle_name: string
+          tiers: Json
+          weight_formula?: string
+          weight_params?: Json
+        }
+        Returns: string
+      }
+      draw_raffle: { Args: { raffle_uuid: string }; Returns: Json }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -781,6 +1256,53 @@ export type Database = {
         }
         Returns: boolean
       }
+      merge_players: {
+        Args: { source_uuid: string; target_uuid: string }
+        Returns: Json
+      }
+      preview_batch_rollback: { Args: { batch_uuid: string }; Returns: Json }
+      preview_raffle_pool: {
+        Args: {
+          event_uuid: string
+          formula: string
+          medal_uuid: string
+          params?: Json
+        }
+        Returns: Json
+      }
+      preview_score_import: {
+        Args: { event_uuid: string; payload: Json }
+        Returns: Json
+      }
+      raffle_carryover: {
+        Args: { event_uuid: string }
+        Returns: {
+          entries: number
+          from_event_id: string
+          player_id: string
+        }[]
+      }
+      raffle_pool: {
+        Args: {
+          event_uuid: string
+          formula: string
+          medal_uuid: string
+          params?: Json
+        }
+        Returns: {
+          carryover: number
+          entries: number
+          name: string
+          player_id: string
+          raw_score: number
+          streak: number
+        }[]
+      }
+      reweight_raffle_event: { Args: { event_uuid: string }; Returns: Json }
+      rollback_batch_operation: {
+        Args: { batch_uuid: string; force?: boolean }
+        Returns: Json
+      }
       run_weighted_distribution_v1: {
         Args: { actor: string; event_uuid: string; medal_uuid: string }
         Returns: Json
@@ -789,7 +1311,19 @@ export type Database = {
         Args: { actor: string; event_uuid: string; medal_uuid: string }
         Returns: Json
       }
-      upsert_scores_big_v2: { Args: { payload: Json }; Returns: Json }
+      score_import_diff: {
+        Args: { event_uuid: string; payload: Json }
+        Returns: {
+          new_rank: number
+          new_score: number
+          old_rank: number
+          old_raw_score: number
+          old_score: number
+          old_verified: boolean
+          player_id: string
+          status: string
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "leader" | "viewer"
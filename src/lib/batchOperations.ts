@@ -0,0 +1,145 @@
+// src/lib/batchOperations.ts
+// Batch operations that record the rows they change (batch_operation_changes)
+// and the rollback that puts those rows back. Ledger rows of a batch are
+// reversed with negated 'rollback' transactions instead.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type ChangeAction = "insert" | "update" | "delete";
+
+type RowSnapshot = Record<string, unknown>;
+
+export interface RollbackChange {
+  tableName: string;
+  rowId: string;
+  /** what the operation did – the rollback does the opposite */
+  action: ChangeAction;
+  /** row before the operation (null for inserts) */
+  oldRow: RowSnapshot | null;
+  /** row as it is now (null if gone) */
+  liveRow: RowSnapshot | null;
+  /** edited since the operation */
+  conflict: boolean;
+  playerName: string | null;
+}
+
+export interface RollbackPreview {
+  changes: RollbackChange[];
+  ledgerReversals: number;
+}
+
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// bookkeeping columns the rollback doesn't meaningfully restore
+const IGNORED_FIELDS = new Set(["id", "updated_at", "last_updated", "created_at"]);
+
+const asSnapshot = (v: unknown): RowSnapshot | null =>
+  v && typeof v === "object" && !Array.isArray(v) ? (v as RowSnapshot) : null;
+
+/**
+ * Fields the rollback will put back: current value → value before the operation
+ */
+export const rollbackFieldChanges = (change: RollbackChange): FieldChange[] => {
+  if (!change.oldRow || !change.liveRow) return [];
+  const fields = new Set([...Object.keys(change.oldRow), ...Object.keys(change.liveRow)]);
+  return Array.from(fields)
+    .filter((f) => !IGNORED_FIELDS.has(f))
+    .filter((f) => JSON.stringify(change.oldRow![f]) !== JSON.stringify(change.liveRow![f]))
+    .map((f) => ({ field: f, from: change.liveRow![f], to: change.oldRow![f] }));
+};
+
+/**
+ * Everything a rollback of this batch would touch, without touching it
+ */
+export const previewRollback = async (batchId: string): Promise<RollbackPreview> => {
+  const { data, error } = await supabase.rpc("preview_batch_rollback", {
+    batch_uuid: batchId,
+  });
+  if (error) throw error;
+
+  const result = asSnapshot(data) ?? {};
+  const changes = Array.isArray(result.changes) ? (result.changes as unknown[]) : [];
+
+  return {
+    changes: changes.map(asSnapshot).filter((c): c is RowSnapshot => !!c).map((c) => ({
+      tableName: String(c.table_name),
+      rowId: String(c.row_id),
+      action: c.action as ChangeAction,
+      oldRow: asSnapshot(c.old_row),
+      liveRow: asSnapshot(c.live_row),
+      conflict: c.conflict === true,
+      playerName: typeof c.player_name === "string" ? c.player_name : null,
+    })),
+    ledgerReversals: Number(result.ledger_reversals ?? 0),
+  };
+};
+
+/**
+ * Restore the batch's before-state. Refused while rows were edited since,
+ * unless force is set.
+ */
+export const rollbackBatchOperation = async (
+  batchId: string,
+  force = false
+): Promise<{ restored: number; ledgerReversed: number; conflicts: number }> => {
+  const { data, error } = await supabase.rpc("rollback_batch_operation", {
+    batch_uuid: batchId,
+    force,
+  });
+  if (error) throw error;
+
+  const result = asSnapshot(data) ?? {};
+  return {
+    restored: Number(result.restored ?? 0),
+    ledgerReversed: Number(result.ledger_reversed ?? 0),
+    conflicts: Number(result.conflicts ?? 0),
+  };
+};
+
+/**
+ * Merge source into target (source is soft-deleted) as one batch operation
+ */
+export const mergePlayers = async (sourceId: string, targetId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("merge_players", {
+    source_uuid: sourceId,
+    target_uuid: targetId,
+  });
+  if (error) throw error;
+  return String(asSnapshot(data)?.batch_operation_id ?? "");
+};
+
+export interface RaffleReweightSummary {
+  /** null when every weight was already current */
+  batchOperationId: string | null;
+  incremented: number;
+  /** changed without going up, e.g. after an earlier event was rolled back */
+  adjusted: number;
+  reset: number;
+  unchanged: number;
+  skipped: number;
+}
+
+/**
+ * Recompute the event's raffle weights from the series carryover and its
+ * winners. Idempotent – a second run finds everything unchanged.
+ */
+export const reweightRaffleEvent = async (eventId: string): Promise<RaffleReweightSummary> => {
+  const { data, error } = await supabase.rpc("reweight_raffle_event", {
+    event_uuid: eventId,
+  });
+  if (error) throw error;
+
+  const result = asSnapshot(data) ?? {};
+  return {
+    batchOperationId: typeof result.batch_operation_id === "string" ? result.batch_operation_id : null,
+    incremented: Number(result.incremented ?? 0),
+    adjusted: Number(result.adjusted ?? 0),
+    reset: Number(result.reset ?? 0),
+    unchanged: Number(result.unchanged ?? 0),
+    skipped: Number(result.skipped ?? 0),
+  };
+};
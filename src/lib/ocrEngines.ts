@@ -0,0 +1,309 @@
+// src/lib/ocrEngines.ts
+// One interface over the leaderboard OCR pipelines. Each pipeline is a
+// strategy (two-pass, smart segment, plain full-text); "ensemble" runs
+// several of them and votes per row on the score digits.
+
+import { PSM } from "tesseract.js";
+import { OCRLayoutProfile, getPreprocessChains } from "./ocrLayoutProfiles";
+import { runAvalonLeaderboardOCR } from "./ocrTwoPass";
+import { SmartOCRRow, runSmartLeaderboardOCR } from "./ocrSmartSegment";
+import { loadImageAtOriginalResolution, runPreprocessChain } from "./ocrPreprocess";
+import { parseScoresFromText } from "./ocrProcessing";
+import { ROW_MATCH_THRESHOLD, rowMatchScore } from "./ocrStitch";
+import { normalizePlayerName } from "./playerMatching";
+import {
+  OCRProgress,
+  OCRRunOptions,
+  buildLangString,
+  isOCRCancelled,
+  recognizeWithPool,
+} from "./ocrWorkerPool";
+
+export type OCREngineId = "two-pass" | "smart" | "full-text" | "ensemble";
+
+export interface EnsembleVote {
+  engine: OCREngineId;
+  parsedName: string;
+  digits: string;
+  rank: number | null;
+  confidence: number;
+}
+
+export interface EnsembleInfo {
+  engines: OCREngineId[];
+  /** one entry per strategy that found this row */
+  votes: EnsembleVote[];
+  /** share of strategies (0..1) that read the winning digits */
+  agreement: number;
+}
+
+export type OCREngineRow = SmartOCRRow & { ensemble?: EnsembleInfo };
+
+export interface OCREngine {
+  id: OCREngineId;
+  label: string;
+  description: string;
+  run: (
+    file: File,
+    profile: OCRLayoutProfile,
+    options?: OCRRunOptions
+  ) => Promise<OCREngineRow[]>;
+}
+
+export const DEFAULT_OCR_ENGINE_ID: OCREngineId = "two-pass";
+
+const ENSEMBLE_MEMBERS: OCREngineId[] = ["two-pass", "smart", "full-text"];
+
+const twoPassEngine: OCREngine = {
+  id: "two-pass",
+  label: "Two-pass (separators)",
+  description: "Splits rows on the dark separator lines, then reads each column.",
+  run: (file, profile, options) => runAvalonLeaderboardOCR(file, profile, options),
+};
+
+const smartEngine: OCREngine = {
+  id: "smart",
+  label: "Smart segment (beige bands)",
+  description: "Finds the beige row bands on an upscaled copy, then reads each column.",
+  run: async (file, profile, options) =>
+    runSmartLeaderboardOCR(
+      await loadImageAtOriginalResolution(file),
+      file.name,
+      profile,
+      options
+    ),
+};
+
+const fullTextEngine: OCREngine = {
+  id: "full-text",
+  label: "Full text",
+  description: "Reads the whole screenshot as one block and parses name / score lines.",
+  run: async (file, profile, options = {}) => {
+    const { signal, onProgress, nameLanguages } = options;
+    onProgress?.({ done: 0, total: 1 });
+
+    // only the image-level chain applies – there are no column crops here
+    const { image: steps } = getPreprocessChains(profile);
+    let source: File | HTMLCanvasElement = file;
+    if (steps.length) {
+      const img = await loadImageAtOriginalResolution(file);
+      const canvas = document.createElement("canvas");
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      canvas.getContext("2d", { willReadFrequently: true })!.drawImage(img, 0, 0);
+      source = runPreprocessChain(canvas, steps).canvas;
+    }
+
+    let text: string;
+    try {
+      const page = await recognizeWithPool(
+        source,
+        { tessedit_pageseg_mode: PSM.SINGLE_BLOCK },
+        { signal, langs: buildLangString(nameLanguages) }
+      );
+      text = page.text || "";
+    } catch (err) {
+      if (isOCRCancelled(err)) return [];
+      throw err;
+    }
+    onProgress?.({ done: 1, total: 1 });
+
+    return parseScoresFromText(text, file.name).map((r) => ({
+      parsedName: r.parsedName,
+      parsedScore: r.parsedScore,
+      bigScore: r.bigScore || "0",
+      rank: r.rank ?? null,
+      rawText: r.rawText,
+      confidence: r.confidence,
+      imageSource: file.name,
+      metadata: {
+        layoutProfileId: profile.id,
+        digitConfidences: r.digitConfidences,
+      },
+    }));
+  },
+};
+
+const digitsOf = (row: OCREngineRow) =>
+  (row.bigScore || "").replace(/[^\d]/g, "").replace(/^0+(?=\d)/, "");
+
+// most common value; ties go to the highest summed confidence
+const pickMajority = <T>(
+  entries: { value: T; confidence: number }[]
+): { value: T; votes: number } | null => {
+  const tally = new Map<T, { votes: number; confidence: number }>();
+  for (const e of entries) {
+    const t = tally.get(e.value) ?? { votes: 0, confidence: 0 };
+    tally.set(e.value, { votes: t.votes + 1, confidence: t.confidence + e.confidence });
+  }
+
+  let best: { value: T; votes: number; confidence: number } | null = null;
+  for (const [value, t] of tally) {
+    if (
+      !best ||
+      t.votes > best.votes ||
+      (t.votes === best.votes && t.confidence > best.confidence)
+    ) {
+      best = { value, ...t };
+    }
+  }
+  return best && { value: best.value, votes: best.votes };
+};
+
+interface Cluster {
+  reads: { engine: OCREngineId; row: OCREngineRow; position: number }[];
+}
+
+/**
+ * Line up the rows each strategy found and vote per row.
+ * Agreement on the score digits drives the row confidence.
+ */
+export const voteEnsembleRows = (
+  results: { engine: OCREngineId; rows: OCREngineRow[] }[]
+): OCREngineRow[] => {
+  const engines = results.map((r) => r.engine);
+  const clusters: Cluster[] = [];
+
+  for (const { engine, rows } of results) {
+    rows.forEach((row, idx) => {
+      // best cluster this strategy hasn't contributed to yet
+      let target: Cluster | null = null;
+      let bestScore = ROW_MATCH_THRESHOLD;
+      for (const c of clusters) {
+        if (c.reads.some((r) => r.engine === engine)) continue;
+        const score = Math.max(...c.reads.map((r) => rowMatchScore(r.row, row)));
+        if (score >= bestScore) {
+          bestScore = score;
+          target = c;
+        }
+      }
+
+      const read = { engine, row, position: idx / Math.max(1, rows.length) };
+      if (target) target.reads.push(read);
+      else clusters.push({ reads: [read] });
+    });
+  }
+
+  const avgPosition = (c: Cluster) =>
+    c.reads.reduce((sum, r) => sum + r.position, 0) / c.reads.length;
+
+  return clusters
+    .sort((a, b) => avgPosition(a) - avgPosition(b))
+    .map((c) => {
+      const digitVote = pickMajority(
+        c.reads
+          .filter((r) => digitsOf(r.row))
+          .map((r) => ({ value: digitsOf(r.row), confidence: r.row.confidence }))
+      );
+      const winners = digitVote
+        ? c.reads.filter((r) => digitsOf(r.row) === digitVote.value)
+        : c.reads;
+
+      // crops / metadata come from the most confident winning read
+      const best = winners.reduce((a, b) =>
+        b.row.confidence > a.row.confidence ? b : a
+      ).row;
+
+      const nameVote = pickMajority(
+        c.reads
+          .filter((r) => r.row.parsedName)
+          .map((r) => ({
+            value: normalizePlayerName(r.row.parsedName),
+            confidence: r.row.confidence,
+          }))
+      );
+      const parsedName =
+        c.reads.find(
+          (r) => nameVote && normalizePlayerName(r.row.parsedName) === nameVote.value
+        )?.row.parsedName ?? best.parsedName;
+
+      const rankVote = pickMajority(
+        c.reads
+          .filter((r) => r.row.rank !== null && r.row.rank !== undefined)
+          .map((r) => ({ value: r.row.rank as number, confidence: r.row.confidence }))
+      );
+
+      const agreement = (digitVote?.votes ?? 0) / engines.length;
+      const meanConfidence =
+        winners.reduce((sum, r) => sum + r.row.confidence, 0) / winners.length;
+
+      const digits = digitVote?.value ?? "";
+      return {
+        ...best,
+        parsedName,
+        bigScore: digits || "0",
+        parsedScore: digits ? Number(digits) : 0,
+        rank: rankVote?.value ?? null,
+        confidence: Math.min(1, 0.5 * agreement + 0.5 * meanConfidence),
+        ensemble: {
+          engines,
+          agreement,
+          votes: c.reads.map((r) => ({
+            engine: r.engine,
+            parsedName: r.row.parsedName,
+            digits: digitsOf(r.row),
+            rank: r.row.rank ?? null,
+            confidence: r.row.confidence,
+          })),
+        },
+      };
+    });
+};
+
+/**
+ * Ensemble over several strategies (they share the worker pool)
+ */
+export const createEnsembleEngine = (members: OCREngineId[]): OCREngine => ({
+  id: "ensemble",
+  label: "Ensemble (vote)",
+  description: `Runs ${members.length} strategies and keeps the score most of them agree on.`,
+  run: async (file, profile, options = {}) => {
+    const { onProgress, ...rest } = options;
+    const progress: OCRProgress[] = members.map(() => ({ done: 0, total: 0 }));
+    const report = () =>
+      onProgress?.({
+        done: progress.reduce((sum, p) => sum + p.done, 0),
+        total: progress.reduce((sum, p) => sum + p.total, 0),
+      });
+
+    const settled = await Promise.allSettled(
+      members.map((id, i) =>
+        getOCREngine(id).run(file, profile, {
+          ...rest,
+          onProgress: (p) => {
+            progress[i] = p;
+            report();
+          },
+        })
+      )
+    );
+
+    const results = settled.flatMap((s, i) =>
+      s.status === "fulfilled" ? [{ engine: members[i], rows: s.value }] : []
+    );
+    if (!results.length) {
+      const failure = settled.find(
+        (s): s is PromiseRejectedResult => s.status === "rejected"
+      );
+      if (failure && !isOCRCancelled(failure.reason)) throw failure.reason;
+      return [];
+    }
+    settled.forEach((s, i) => {
+      if (s.status === "rejected" && !isOCRCancelled(s.reason)) {
+        console.warn(`Ensemble member ${members[i]} failed:`, s.reason);
+      }
+    });
+
+    return voteEnsembleRows(results);
+  },
+});
+
+export const OCR_ENGINES: OCREngine[] = [
+  twoPassEngine,
+  smartEngine,
+  fullTextEngine,
+  createEnsembleEngine(ENSEMBLE_MEMBERS),
+];
+
+export const getOCREngine = (id: OCREngineId | string): OCREngine =>
+  OCR_ENGINES.find((e) => e.id === id) ?? twoPassEngine;
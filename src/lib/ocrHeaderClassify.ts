@@ -0,0 +1,261 @@
+// src/lib/ocrHeaderClassify.ts
+// Read the header strip of a leaderboard screenshot (title, season / date,
+// guild vs individual tab) so a screenshot from the wrong leaderboard or
+// from last week can be caught before its rows are OCR'd.
+
+import { PSM } from "tesseract.js";
+import type { Page } from "tesseract.js";
+import { OCRLayoutProfile } from "./ocrLayoutProfiles";
+import { loadImageAtOriginalResolution } from "./ocrPreprocess";
+import { recognizeWithPool } from "./ocrWorkerPool";
+import { similarity } from "./textSimilarity";
+
+export type LeaderboardTab = "guild" | "individual";
+
+export interface HeaderClassification {
+  title: string | null;
+  season: string | null;
+  dateText: string | null;
+  date: Date | null;
+  tab: LeaderboardTab | null;
+  /** both tab labels were visible and the active one was guessed from shading */
+  tabGuessed: boolean;
+  rawText: string;
+}
+
+export interface HeaderTargetEvent {
+  name: string;
+  event_type: string | null;
+  event_date: string;
+}
+
+// header strip when the profile doesn't say otherwise
+const DEFAULT_HEADER_BOTTOM = 0.18;
+// a screenshot this many days away from the event is probably stale
+const MAX_DATE_DRIFT_DAYS = 3;
+// header title vs event name / type
+const MIN_TITLE_SIMILARITY = 0.5;
+
+const GUILD_WORDS = /\b(guild|alliance|clan|union|team)\b/i;
+const INDIVIDUAL_WORDS = /\b(individual|personal|player|solo|member)s?\b/i;
+
+const MONTHS = [
+  "jan", "feb", "mar", "apr", "may", "jun",
+  "jul", "aug", "sep", "oct", "nov", "dec",
+];
+
+/**
+ * Find a date in header text: 2025-11-16, 16/11/2025, 11/16, 16 Nov, Nov 16
+ */
+export const parseHeaderDate = (
+  text: string,
+  reference = new Date()
+): { text: string; date: Date } | null => {
+  const year = reference.getFullYear();
+  const build = (y: number, m: number, d: number) => {
+    const date = new Date(y < 100 ? 2000 + y : y, m - 1, d);
+    return date.getMonth() === m - 1 && date.getDate() === d ? date : null;
+  };
+
+  const iso = text.match(/\b(\d{4})[-./](\d{1,2})[-./](\d{1,2})\b/);
+  if (iso) {
+    const date = build(+iso[1], +iso[2], +iso[3]);
+    if (date) return { text: iso[0], date };
+  }
+
+  // dd/mm(/yyyy) first, mm/dd as fallback when the day is out of range
+  const numeric = text.match(/\b(\d{1,2})[-./](\d{1,2})(?:[-./](\d{2,4}))?\b/);
+  if (numeric) {
+    const y = numeric[3] ? +numeric[3] : year;
+    const date = build(y, +numeric[2], +numeric[1]) ?? build(y, +numeric[1], +numeric[2]);
+    if (date) return { text: numeric[0], date };
+  }
+
+  const monthName = MONTHS.join("|");
+  const dayMonth = text.match(new RegExp(`\\b(\\d{1,2})\\s*(${monthName})[a-z]*\\.?(?:\\s+(\\d{4}))?`, "i"));
+  const monthDay = text.match(new RegExp(`\\b(${monthName})[a-z]*\\.?\\s*(\\d{1,2})(?:,?\\s+(\\d{4}))?`, "i"));
+  const named = dayMonth
+    ? { d: +dayMonth[1], m: dayMonth[2], y: dayMonth[3], text: dayMonth[0] }
+    : monthDay
+    ? { d: +monthDay[2], m: monthDay[1], y: monthDay[3], text: monthDay[0] }
+    : null;
+  if (named) {
+    const m = MONTHS.indexOf(named.m.slice(0, 3).toLowerCase()) + 1;
+    const date = build(named.y ? +named.y : year, m, named.d);
+    if (date) return { text: named.text.trim(), date };
+  }
+
+  return null;
+};
+
+// mean luminance under a word's box – the active tab is drawn brighter
+const boxLuminance = (
+  canvas: HTMLCanvasElement,
+  bbox: { x0: number; y0: number; x1: number; y1: number }
+) => {
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  const w = Math.max(1, bbox.x1 - bbox.x0);
+  const h = Math.max(1, bbox.y1 - bbox.y0);
+  const data = ctx.getImageData(bbox.x0, bbox.y0, w, h).data;
+  let sum = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    sum += data[i] * 0.3 + data[i + 1] * 0.59 + data[i + 2] * 0.11;
+  }
+  return sum / (data.length / 4);
+};
+
+const detectTab = (
+  page: Page,
+  canvas: HTMLCanvasElement
+): { tab: LeaderboardTab | null; guessed: boolean } => {
+  const words = (page.blocks ?? []).flatMap((b) =>
+    b.paragraphs.flatMap((p) => p.lines.flatMap((l) => l.words))
+  );
+  const guild = words.find((w) => GUILD_WORDS.test(w.text));
+  const individual = words.find((w) => INDIVIDUAL_WORDS.test(w.text));
+
+  if (guild && !individual) return { tab: "guild", guessed: false };
+  if (individual && !guild) return { tab: "individual", guessed: false };
+  if (!guild || !individual) return { tab: null, guessed: false };
+
+  return {
+    tab:
+      boxLuminance(canvas, guild.bbox) >= boxLuminance(canvas, individual.bbox)
+        ? "guild"
+        : "individual",
+    guessed: true,
+  };
+};
+
+/**
+ * Pull title / season / date out of the header text
+ */
+export const classifyHeaderText = (
+  text: string
+): Omit<HeaderClassification, "tab" | "tabGuessed"> => {
+  const lines = text
+    .split("\n")
+    .map((l) => l.replace(/[|_~]+/g, " ").replace(/\s+/g, " ").trim())
+    .filter((l) => l.length >= 3);
+
+  const seasonMatch = text.match(/\b(season|week|round)\s*#?\s*(\d{1,3})\b/i);
+  const found = parseHeaderDate(text);
+
+  // title: the longest mostly-letters line that isn't a tab, season or date line
+  const title =
+    lines
+      .filter((l) => {
+        const letters = (l.match(/\p{L}/gu) || []).length;
+        return (
+          letters / l.length > 0.6 &&
+          !(GUILD_WORDS.test(l) && INDIVIDUAL_WORDS.test(l)) &&
+          !(seasonMatch && l.includes(seasonMatch[0])) &&
+          !(found && l.includes(found.text))
+        );
+      })
+      .sort((a, b) => b.length - a.length)[0] ?? null;
+
+  return {
+    title,
+    season: seasonMatch
+      ? `${seasonMatch[1][0].toUpperCase()}${seasonMatch[1].slice(1).toLowerCase()} ${seasonMatch[2]}`
+      : null,
+    dateText: found?.text ?? null,
+    date: found?.date ?? null,
+    rawText: text.trim(),
+  };
+};
+
+/**
+ * OCR the header strip of one screenshot
+ */
+export const readScreenshotHeader = async (
+  file: File,
+  profile: OCRLayoutProfile,
+  signal?: AbortSignal
+): Promise<HeaderClassification> => {
+  const img = await loadImageAtOriginalResolution(file);
+  const bottom = profile.headerBottom ?? DEFAULT_HEADER_BOTTOM;
+  const height = Math.max(1, Math.round(img.naturalHeight * bottom));
+
+  // 2× upscale – header text is small on phone screenshots
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth * 2;
+  canvas.height = height * 2;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, img.naturalWidth, height, 0, 0, canvas.width, canvas.height);
+
+  const page = await recognizeWithPool(
+    canvas,
+    { tessedit_pageseg_mode: PSM.SPARSE_TEXT },
+    { signal, output: { text: true, blocks: true } }
+  );
+
+  const { tab, guessed } = detectTab(page, canvas);
+  return { ...classifyHeaderText(page.text || ""), tab, tabGuessed: guessed };
+};
+
+const foldWords = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/**
+ * Reasons the screenshot may not belong to the event (empty = looks fine)
+ */
+export const compareHeaderWithEvent = (
+  header: HeaderClassification,
+  event: HeaderTargetEvent
+): string[] => {
+  const warnings: string[] = [];
+
+  if (header.title) {
+    const title = foldWords(header.title);
+    const candidates = [event.name, event.event_type]
+      .filter((c): c is string => !!c)
+      .map(foldWords);
+    // name often carries a date or number – compare word by word too
+    const best = Math.max(
+      ...candidates.map((c) => {
+        const whole = similarity(title, c);
+        const words = c.split(" ").filter((w) => w.length >= 3);
+        const shared = words.filter((w) => title.includes(w)).length;
+        return Math.max(whole, words.length ? shared / words.length : 0);
+      })
+    );
+    if (candidates.length && best < MIN_TITLE_SIMILARITY) {
+      warnings.push(
+        `Title "${header.title}" doesn't match ${event.event_type ? `type "${event.event_type}"` : `event "${event.name}"`}`
+      );
+    }
+  }
+
+  if (header.date) {
+    const eventDate = new Date(`${event.event_date}T00:00:00`);
+    const days = Math.abs(header.date.getTime() - eventDate.getTime()) / 86_400_000;
+    if (days > MAX_DATE_DRIFT_DAYS) {
+      warnings.push(
+        `Dated ${header.dateText} but the event is on ${event.event_date}`
+      );
+    }
+  }
+
+  if (header.tab) {
+    const context = `${event.name} ${event.event_type ?? ""}`;
+    const expected: LeaderboardTab | null = GUILD_WORDS.test(context)
+      ? "guild"
+      : INDIVIDUAL_WORDS.test(context)
+      ? "individual"
+      : null;
+    if (expected && expected !== header.tab) {
+      warnings.push(
+        `Shows the ${header.tab} tab, expected ${expected}` +
+          (header.tabGuessed ? " (tab guessed from highlight)" : "")
+      );
+    }
+  }
+
+  return warnings;
+};
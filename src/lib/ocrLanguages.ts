@@ -0,0 +1,89 @@
+// src/lib/ocrLanguages.ts
+// Extra tesseract models for the name column (stored in admin_settings).
+// The .traineddata files are not bundled – admins drop them into
+// public/tessdata and enable them here.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { LOCAL_TESSDATA_PATH } from "./ocrWorkerPool";
+
+export const NAME_LANGUAGES_SETTING_KEY = "ocr_name_languages";
+
+export interface NameLanguageOption {
+  /** tesseract model code (file name without .traineddata) */
+  code: string;
+  label: string;
+}
+
+export const NAME_LANGUAGE_OPTIONS: NameLanguageOption[] = [
+  { code: "chi_sim", label: "Chinese (Simplified)" },
+  { code: "chi_tra", label: "Chinese (Traditional)" },
+  { code: "jpn", label: "Japanese" },
+  { code: "kor", label: "Korean" },
+  { code: "rus", label: "Russian" },
+  { code: "ukr", label: "Ukrainian" },
+  { code: "deu", label: "German" },
+  { code: "fra", label: "French" },
+  { code: "spa", label: "Spanish" },
+  { code: "por", label: "Portuguese" },
+  { code: "pol", label: "Polish" },
+  { code: "tur", label: "Turkish" },
+  { code: "vie", label: "Vietnamese" },
+];
+
+const KNOWN_CODES = new Set(NAME_LANGUAGE_OPTIONS.map((o) => o.code));
+
+/**
+ * Extra name-column models enabled by an admin (empty = English only)
+ */
+export const fetchNameLanguages = async (): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from("admin_settings")
+    .select("value")
+    .eq("key", NAME_LANGUAGES_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Failed to load OCR name languages:", error.message);
+    return [];
+  }
+
+  const value = data?.value;
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string" && KNOWN_CODES.has(v))
+    : [];
+};
+
+export const saveNameLanguages = async (codes: string[]) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase.from("admin_settings").upsert(
+    {
+      key: NAME_LANGUAGES_SETTING_KEY,
+      value: codes.filter((c) => KNOWN_CODES.has(c)) as unknown as Json,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "key" }
+  );
+
+  if (error) throw error;
+};
+
+/**
+ * true when public/tessdata serves the model file
+ */
+export const isModelAvailable = async (code: string): Promise<boolean> => {
+  try {
+    const res = await fetch(`${LOCAL_TESSDATA_PATH}/${code}.traineddata`, {
+      method: "HEAD",
+    });
+    // the SPA fallback answers 200 with index.html for missing files
+    return res.ok && !(res.headers.get("content-type") || "").includes("text/html");
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,220 @@
+// src/lib/ocrLayoutProfiles.ts
+// Named layout profiles for the leaderboard OCR pipelines
+// (row trims, column crops, separator thresholds) – stored in admin_settings
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  DEFAULT_PREPROCESS_CHAINS,
+  PreprocessChains,
+  isPreprocessChains,
+} from "./ocrPreprocess";
+
+export const LAYOUT_PROFILES_SETTING_KEY = "ocr_layout_profiles";
+
+/**
+ * Horizontal slice of a leaderboard row, as fractions of the row width (0..1)
+ */
+export interface ColumnBounds {
+  left: number;
+  right: number;
+}
+
+export interface OCRLayoutProfile {
+  id: string;
+  name: string;
+  /** ocrTwoPass: px trimmed off the top of each row to drop the separator bar */
+  rowTopCut: number;
+  /** ocrTwoPass: px trimmed off the bottom of each row */
+  rowBottomCut: number;
+  /** ocrTwoPass: avg row luminance below this counts as a separator line */
+  separatorThreshold: number;
+  /** ocrSmartSegment: avg row brightness below this closes a beige band */
+  segmentThreshold: number;
+  /** max rows read from one screenshot */
+  maxRows: number;
+  nameColumn: ColumnBounds;
+  scoreColumn: ColumnBounds;
+  /** ocrSmartSegment: its own name / score split – nameColumn / scoreColumn when unset */
+  smartColumns?: { nameColumn: ColumnBounds; scoreColumn: ColumnBounds };
+  /** rank badge on the left of the row – rank is not read when unset */
+  rankColumn?: ColumnBounds;
+  /** bottom of the title / tab header as a fraction of image height */
+  headerBottom?: number;
+  /** image / crop preprocessing used by every OCR strategy (defaults when unset) */
+  preprocess?: PreprocessChains;
+}
+
+export const DEFAULT_LAYOUT_PROFILE_ID = "avalon-beige-20";
+
+/**
+ * Built-in profiles. Stored profiles with the same id override these.
+ */
+export const BUILTIN_LAYOUT_PROFILES: OCRLayoutProfile[] = [
+  {
+    id: DEFAULT_LAYOUT_PROFILE_ID,
+    name: "Avalon beige 20-row",
+    rowTopCut: 8,
+    rowBottomCut: 14,
+    separatorThreshold: 90,
+    segmentThreshold: 80,
+    maxRows: 20,
+    nameColumn: { left: 0, right: 0.5 },
+    scoreColumn: { left: 0.615, right: 0.995 },
+    // the smart segmenter has always split this layout at 55%
+    smartColumns: {
+      nameColumn: { left: 0, right: 0.55 },
+      scoreColumn: { left: 0.55, right: 1 },
+    },
+    rankColumn: { left: 0, right: 0.09 },
+  },
+  {
+    id: "avalon-mobile",
+    name: "Avalon mobile",
+    rowTopCut: 6,
+    rowBottomCut: 10,
+    separatorThreshold: 90,
+    segmentThreshold: 80,
+    maxRows: 12,
+    nameColumn: { left: 0, right: 0.55 },
+    scoreColumn: { left: 0.58, right: 0.99 },
+    rankColumn: { left: 0, right: 0.1 },
+  },
+  {
+    id: "tablet-landscape",
+    name: "Tablet landscape",
+    rowTopCut: 10,
+    rowBottomCut: 16,
+    separatorThreshold: 90,
+    segmentThreshold: 80,
+    maxRows: 20,
+    nameColumn: { left: 0.05, right: 0.45 },
+    scoreColumn: { left: 0.66, right: 0.98 },
+    rankColumn: { left: 0, right: 0.05 },
+  },
+];
+
+export const getDefaultLayoutProfile = (): OCRLayoutProfile =>
+  BUILTIN_LAYOUT_PROFILES[0];
+
+export const getPreprocessChains = (profile: OCRLayoutProfile): PreprocessChains =>
+  profile.preprocess ?? DEFAULT_PREPROCESS_CHAINS;
+
+export const isBuiltinLayoutProfile = (id: string): boolean =>
+  BUILTIN_LAYOUT_PROFILES.some((p) => p.id === id);
+
+/**
+ * Convert column fractions into pixel crop bounds for a row of `rowWidth` px
+ */
+export const columnToPixels = (
+  column: ColumnBounds,
+  rowWidth: number
+): { x: number; width: number } => {
+  const left = Math.max(0, Math.min(1, column.left));
+  const right = Math.max(left, Math.min(1, column.right));
+  const x = Math.floor(rowWidth * left);
+  const width = Math.max(1, Math.floor(rowWidth * right) - x);
+  return { x, width };
+};
+
+const isColumnBounds = (v: unknown): v is ColumnBounds => {
+  if (!v || typeof v !== "object") return false;
+  const c = v as Record<string, unknown>;
+  return typeof c.left === "number" && typeof c.right === "number";
+};
+
+const isSmartColumns = (v: unknown): v is OCRLayoutProfile["smartColumns"] => {
+  if (!v || typeof v !== "object") return false;
+  const c = v as Record<string, unknown>;
+  return isColumnBounds(c.nameColumn) && isColumnBounds(c.scoreColumn);
+};
+
+const isLayoutProfile = (v: unknown): v is OCRLayoutProfile => {
+  if (!v || typeof v !== "object") return false;
+  const p = v as Record<string, unknown>;
+  return (
+    typeof p.id === "string" &&
+    typeof p.name === "string" &&
+    typeof p.rowTopCut === "number" &&
+    typeof p.rowBottomCut === "number" &&
+    typeof p.separatorThreshold === "number" &&
+    typeof p.segmentThreshold === "number" &&
+    typeof p.maxRows === "number" &&
+    isColumnBounds(p.nameColumn) &&
+    isColumnBounds(p.scoreColumn) &&
+    (p.smartColumns === undefined || isSmartColumns(p.smartColumns)) &&
+    (p.rankColumn === undefined || isColumnBounds(p.rankColumn)) &&
+    (p.headerBottom === undefined || typeof p.headerBottom === "number") &&
+    (p.preprocess === undefined || isPreprocessChains(p.preprocess))
+  );
+};
+
+const fetchStoredProfiles = async (): Promise<OCRLayoutProfile[]> => {
+  const { data, error } = await supabase
+    .from("admin_settings")
+    .select("value")
+    .eq("key", LAYOUT_PROFILES_SETTING_KEY)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("Failed to load OCR layout profiles:", error.message);
+    return [];
+  }
+
+  const value = data?.value;
+  return Array.isArray(value)
+    ? (value as unknown[]).filter(isLayoutProfile)
+    : [];
+};
+
+/**
+ * Built-in profiles merged with the ones saved in admin_settings
+ */
+export const fetchLayoutProfiles = async (): Promise<OCRLayoutProfile[]> => {
+  const stored = await fetchStoredProfiles();
+
+  return [
+    ...BUILTIN_LAYOUT_PROFILES.map(
+      (p) => stored.find((s) => s.id === p.id) ?? p
+    ),
+    ...stored.filter((p) => !isBuiltinLayoutProfile(p.id)),
+  ];
+};
+
+const writeStoredProfiles = async (profiles: OCRLayoutProfile[]) => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const { error } = await supabase.from("admin_settings").upsert(
+    {
+      key: LAYOUT_PROFILES_SETTING_KEY,
+      value: profiles as unknown as Json,
+      updated_by: user.id,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "key" }
+  );
+
+  if (error) throw error;
+};
+
+/**
+ * Insert or replace a profile (by id) in admin_settings
+ */
+export const saveLayoutProfile = async (profile: OCRLayoutProfile) => {
+  const stored = await fetchStoredProfiles();
+  const next = stored.some((p) => p.id === profile.id)
+    ? stored.map((p) => (p.id === profile.id ? profile : p))
+    : [...stored, profile];
+  await writeStoredProfiles(next);
+};
+
+/**
+ * Remove a stored profile. Built-ins fall back to their shipped values.
+ */
+export const deleteLayoutProfile = async (id: string) => {
+  const stored = await fetchStoredProfiles();
+  await writeStoredProfiles(stored.filter((p) => p.id !== id));
+};
@@ -3,6 +3,8 @@
  * Handles resolution preservation, smart scaling, and image enhancement
  */
 
+import { rectifyLeaderboard } from './ocrRectify';
+
 export interface PreprocessedImage {
   canvas: HTMLCanvasElement;            // binarized / high-contrast → good for scores
   grayscaleCanvas: HTMLCanvasElement;   // detail-preserved → good for names
@@ -282,6 +284,292 @@ const applyUnsharpMask = (
   return output;
 };
 
+/* ------------------------------------------------------------------ */
+/* Preprocessing chains shared by the OCR strategies                   */
+/* ------------------------------------------------------------------ */
+
+export type PreprocessStep =
+  /** upscale to at least `targetWidth` px, or by `factor`; auto when neither is set */
+  | { kind: 'scale'; targetWidth?: number; factor?: number }
+  /** R-G mask for brown text on beige (binarizes) */
+  | { kind: 'colorMask'; aggressive?: boolean }
+  /** luminance + linear contrast stretch around 128 */
+  | { kind: 'grayscale'; gain?: number; sharpen?: boolean }
+  | { kind: 'threshold'; method: 'otsu' | 'midpoint' | 'fixed'; value?: number }
+  /** straighten a slightly rotated screenshot (projection profile search) */
+  | { kind: 'deskew'; maxAngle?: number }
+  /** find the leaderboard panel in a photo / tilted capture and flatten it */
+  | { kind: 'rectify'; cropPadding?: boolean };
+
+export type PreprocessStepKind = PreprocessStep['kind'];
+
+export interface PreprocessChains {
+  /** whole screenshot, before rows are detected – rectify / deskew belong here */
+  image: PreprocessStep[];
+  name: PreprocessStep[];
+  score: PreprocessStep[];
+  rank: PreprocessStep[];
+}
+
+export interface PreprocessStage {
+  label: string;
+  canvas: HTMLCanvasElement;
+}
+
+export const PREPROCESS_STEP_KINDS: PreprocessStepKind[] = [
+  'scale',
+  'colorMask',
+  'grayscale',
+  'threshold',
+  'deskew',
+  'rectify',
+];
+
+/**
+ * What the inline boostContrast / binarizeForScore helpers used to do
+ */
+export const DEFAULT_PREPROCESS_CHAINS: PreprocessChains = {
+  // leaves clean captures untouched
+  image: [{ kind: 'rectify' }],
+  name: [{ kind: 'grayscale', gain: 1.35 }],
+  score: [
+    { kind: 'grayscale', gain: 1.35 },
+    { kind: 'threshold', method: 'midpoint' },
+  ],
+  rank: [
+    { kind: 'grayscale', gain: 1.35 },
+    { kind: 'threshold', method: 'midpoint' },
+  ],
+};
+
+export const describePreprocessStep = (step: PreprocessStep): string => {
+  switch (step.kind) {
+    case 'scale':
+      return step.targetWidth
+        ? `scale to ≥${step.targetWidth}px`
+        : step.factor
+        ? `scale ×${step.factor}`
+        : 'scale (auto)';
+    case 'colorMask':
+      return step.aggressive ? 'colour mask (aggressive)' : 'colour mask';
+    case 'grayscale':
+      return `grayscale ×${step.gain ?? 1.35}${step.sharpen ? ' + sharpen' : ''}`;
+    case 'threshold':
+      return step.method === 'fixed'
+        ? `threshold @${step.value ?? 128}`
+        : `threshold (${step.method})`;
+    case 'deskew':
+      return `deskew ±${step.maxAngle ?? 3}°`;
+    case 'rectify':
+      return step.cropPadding ? 'rectify + crop' : 'rectify';
+  }
+};
+
+const isPreprocessStep = (v: unknown): v is PreprocessStep => {
+  if (!v || typeof v !== 'object') return false;
+  const kind = (v as { kind?: unknown }).kind;
+  return PREPROCESS_STEP_KINDS.includes(kind as PreprocessStepKind);
+};
+
+export const isPreprocessChains = (v: unknown): v is PreprocessChains => {
+  if (!v || typeof v !== 'object') return false;
+  const c = v as Record<string, unknown>;
+  return (['image', 'name', 'score', 'rank'] as const).every(
+    (k) => Array.isArray(c[k]) && (c[k] as unknown[]).every(isPreprocessStep)
+  );
+};
+
+const copyCanvas = (src: HTMLCanvasElement, width = src.width, height = src.height) => {
+  const c = document.createElement('canvas');
+  c.width = Math.max(1, Math.round(width));
+  c.height = Math.max(1, Math.round(height));
+  const ctx = c.getContext('2d', { willReadFrequently: true })!;
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(src, 0, 0, c.width, c.height);
+  return c;
+};
+
+const scaleStep = (
+  src: HTMLCanvasElement,
+  step: Extract<PreprocessStep, { kind: 'scale' }>
+) => {
+  const factor = step.targetWidth
+    ? Math.max(1, step.targetWidth / src.width)
+    : step.factor ?? calculateOptimalScale(src.width);
+  if (factor === 1) return copyCanvas(src);
+  return copyCanvas(src, src.width * factor, src.height * factor);
+};
+
+const grayscaleStep = (
+  canvas: HTMLCanvasElement,
+  step: Extract<PreprocessStep, { kind: 'grayscale' }>
+) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+  const gain = step.gain ?? 1.35;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const g = data[i] * 0.3 + data[i + 1] * 0.59 + data[i + 2] * 0.11;
+    const v = Math.min(255, Math.max(0, (g - 128) * gain + 128));
+    data[i] = data[i + 1] = data[i + 2] = v;
+  }
+
+  ctx.putImageData(
+    step.sharpen ? applyUnsharpMask(imageData, canvas.width, canvas.height, 1, 0.6) : imageData,
+    0,
+    0
+  );
+  return canvas;
+};
+
+const thresholdStep = (
+  canvas: HTMLCanvasElement,
+  step: Extract<PreprocessStep, { kind: 'threshold' }>
+) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const data = imageData.data;
+
+  // work on the channel mean so colour input is fine too
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (data[i] + data[i + 1] + data[i + 2]) / 3;
+  }
+
+  let threshold = step.value ?? 128;
+  if (step.method === 'otsu') {
+    threshold = calculateOtsuThreshold(data);
+  } else if (step.method === 'midpoint') {
+    let min = 255;
+    let max = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i] < min) min = data[i];
+      if (data[i] > max) max = data[i];
+    }
+    threshold = (min + max) / 2;
+  }
+
+  for (let i = 0; i < data.length; i += 4) {
+    const value = data[i] > threshold ? 255 : 0;
+    data[i] = data[i + 1] = data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+
+  ctx.putImageData(imageData, 0, 0);
+  return canvas;
+};
+
+/**
+ * Skew angle in degrees (positive = text runs down to the right).
+ * Searches the angle whose sheared row histogram of dark pixels is sharpest.
+ */
+export const estimateSkewAngle = (src: HTMLCanvasElement, maxAngle = 3): number => {
+  // a small copy is plenty for the angle
+  const scale = Math.min(1, 400 / src.width);
+  const small = copyCanvas(src, src.width * scale, src.height * scale);
+  const { width, height } = small;
+  const data = small
+    .getContext('2d', { willReadFrequently: true })!
+    .getImageData(0, 0, width, height).data;
+
+  const dark: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114 < 100) {
+        dark.push([x, y]);
+      }
+    }
+  }
+  if (!dark.length) return 0;
+
+  let best = 0;
+  let bestScore = -1;
+  for (let a = -maxAngle; a <= maxAngle + 1e-9; a += 0.25) {
+    const t = Math.tan((a * Math.PI) / 180);
+    const bins = new Map<number, number>();
+    for (const [x, y] of dark) {
+      const yy = Math.round(y - x * t);
+      bins.set(yy, (bins.get(yy) ?? 0) + 1);
+    }
+    let score = 0;
+    for (const count of bins.values()) score += count * count;
+    // ties keep the smaller correction
+    if (score > bestScore || (score === bestScore && Math.abs(a) < Math.abs(best))) {
+      bestScore = score;
+      best = a;
+    }
+  }
+  return Math.abs(best) < 0.25 ? 0 : best;
+};
+
+const deskewStep = (
+  src: HTMLCanvasElement,
+  step: Extract<PreprocessStep, { kind: 'deskew' }>
+) => {
+  const angle = estimateSkewAngle(src, step.maxAngle ?? 3);
+  if (!angle) return copyCanvas(src);
+
+  const out = document.createElement('canvas');
+  out.width = src.width;
+  out.height = src.height;
+  const ctx = out.getContext('2d', { willReadFrequently: true })!;
+  // fill the uncovered corners with the background colour
+  const [r, g, b] = src
+    .getContext('2d', { willReadFrequently: true })!
+    .getImageData(0, 0, 1, 1).data;
+  ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+  ctx.fillRect(0, 0, out.width, out.height);
+  ctx.translate(out.width / 2, out.height / 2);
+  ctx.rotate((-angle * Math.PI) / 180);
+  ctx.drawImage(src, -src.width / 2, -src.height / 2);
+  return out;
+};
+
+/**
+ * Run a chain on a copy of `source`. With `keepStages` every intermediate
+ * canvas is returned too (debug view); otherwise only the result.
+ */
+export const runPreprocessChain = (
+  source: HTMLCanvasElement,
+  steps: PreprocessStep[],
+  { keepStages = false }: { keepStages?: boolean } = {}
+): { canvas: HTMLCanvasElement; stages: PreprocessStage[] } => {
+  let canvas = copyCanvas(source);
+  const stages: PreprocessStage[] = keepStages
+    ? [{ label: 'input', canvas: copyCanvas(source) }]
+    : [];
+
+  for (const step of steps) {
+    switch (step.kind) {
+      case 'scale':
+        canvas = scaleStep(canvas, step);
+        break;
+      case 'colorMask':
+        canvas = preprocessColorMask(canvas, step.aggressive).canvas;
+        break;
+      case 'grayscale':
+        canvas = grayscaleStep(canvas, step);
+        break;
+      case 'threshold':
+        canvas = thresholdStep(canvas, step);
+        break;
+      case 'deskew':
+        canvas = deskewStep(canvas, step);
+        break;
+      case 'rectify':
+        canvas = rectifyLeaderboard(canvas, { cropPadding: step.cropPadding }).canvas;
+        break;
+    }
+    if (keepStages) {
+      stages.push({ label: describePreprocessStep(step), canvas: copyCanvas(canvas) });
+    }
+  }
+
+  return { canvas, stages };
+};
+
 /**
  * Preprocess image file with smart scaling and enhancement
  */
@@ -7,6 +7,21 @@
  * - Backward-compatible with existing UI
  */
 
+import type { Page } from "tesseract.js";
+
+/**
+ * One digit of a score read with its own confidence (0..1).
+ * bbox is in pixels of the score crop that was recognized.
+ */
+export interface DigitConfidence {
+  digit: string;
+  confidence: number;
+  bbox?: { x0: number; y0: number; x1: number; y1: number };
+}
+
+// digits below this are highlighted for the officer to check
+export const DOUBTFUL_DIGIT_CONFIDENCE = 0.8;
+
 export interface OCRResult {
   parsedName: string;
   parsedScore: number;
@@ -15,8 +30,23 @@ export interface OCRResult {
   confidence: number;
   originalLine: string;
   bigScore?: string; // bigint-safe string version
+  rank?: number | null; // leaderboard position, when the line starts with one
+  digitConfidences?: DigitConfidence[];
 }
 
+/**
+ * Clean an OCR'd player name while keeping its real characters (CJK, Hangul,
+ * Cyrillic, accents, decorative symbols). NFKC folds full-width and other
+ * compatibility forms; only control chars and border junk at the edges go.
+ */
+export const cleanOCRName = (text: string): string =>
+  (text || "")
+    .normalize("NFKC")
+    .replace(/[\p{Cc}\p{Cf}]/gu, " ")
+    .replace(/^[\s|[\]{}"'`,.:;]+|[\s|[\]{}"'`,.:;]+$/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
 /**
  * Auto-correct common OCR mistakes in numeric values (BIGINT support)
  */
@@ -28,6 +58,8 @@ export const correctNumericOCR = (
   confidence: number;
   rawText: string;
   bigValue: string;
+  /** text-only estimate: substituted digits are doubtful, appended zeros more so */
+  digits: DigitConfidence[];
 } => {
   let corrected = false;
   let workingText = text.trim();
@@ -41,6 +73,13 @@ export const correctNumericOCR = (
 
   if (workingText !== originalText) corrected = true;
 
+  // substitutions keep the length, so positions still line up
+  const digits: DigitConfidence[] = [];
+  Array.from(workingText).forEach((ch, i) => {
+    if (!/\d/.test(ch)) return;
+    digits.push({ digit: ch, confidence: ch === originalText[i] ? 0.9 : 0.6 });
+  });
+
   // Remove spaces
   workingText = workingText.replace(/\s/g, "");
 
@@ -63,9 +102,11 @@ export const correctNumericOCR = (
     const afterComma = commaPattern[2];
     if (afterComma.length === 1) {
       workingText = workingText + "00";
+      digits.push({ digit: "0", confidence: 0.4 }, { digit: "0", confidence: 0.4 });
       corrected = true;
     } else if (afterComma.length === 2) {
       workingText = workingText + "0";
+      digits.push({ digit: "0", confidence: 0.4 });
       corrected = true;
     }
   }
@@ -85,9 +126,55 @@ export const correctNumericOCR = (
     corrected,
     confidence: Math.max(0, Math.min(1, confidence)),
     rawText: originalText,
+    digits,
   };
 };
 
+/**
+ * Per-digit confidences from a tesseract page recognized with `blocks: true`
+ */
+export const digitConfidencesFromPage = (page: Page): DigitConfidence[] => {
+  const out: DigitConfidence[] = [];
+  for (const block of page.blocks ?? []) {
+    for (const para of block.paragraphs) {
+      for (const line of para.lines) {
+        for (const word of line.words) {
+          for (const sym of word.symbols) {
+            for (const ch of Array.from(sym.text || "")) {
+              if (!/\d/.test(ch)) continue;
+              out.push({
+                digit: ch,
+                confidence: (sym.confidence || 0) / 100,
+                bbox: sym.bbox,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Keep digit confidences in step with an edited score. Digits the officer
+ * typed become certain; a change in length drops the per-digit data.
+ */
+export const reconcileDigitConfidences = (
+  prevDigits: string,
+  nextDigits: string,
+  prev?: DigitConfidence[]
+): DigitConfidence[] | undefined => {
+  if (!prev || prev.length !== prevDigits.length) return undefined;
+  if (prevDigits.length !== nextDigits.length) return undefined;
+
+  return prev.map((d, i) =>
+    nextDigits[i] === prevDigits[i]
+      ? d
+      : { ...d, digit: nextDigits[i], confidence: 1 }
+  );
+};
+
 /**
  * Parse comma-formatted number to BIGINT string
  */
@@ -102,6 +189,19 @@ export const formatBigIntWithCommas = (value: string): string => {
   return value.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
 };
 
+/**
+ * Parse an OCR'd rank badge ("#12", "12.", "l2") → 1..999 or null
+ */
+export const parseRankText = (text: string): number | null => {
+  const digits = (text || "")
+    .replace(/[Il|]/g, "1")
+    .replace(/[Oo]/g, "0")
+    .replace(/[^\d]/g, "");
+  if (!digits || digits.length > 3) return null;
+  const rank = parseInt(digits, 10);
+  return rank >= 1 ? rank : null;
+};
+
 /**
  * Parse OCR text into structured score entries with tolerant name/score detection
  * Handles variable row counts, messy OCR artifacts, and BIGINT-safe parsing.
@@ -119,8 +219,16 @@ export const parseScoresFromText = (
     const originalLine = line;
     if (!line) continue;
 
-    // 1) strip leading OCR junk
-    const cleaned = line.replace(/^[|I1\.\-]+/, "").trim();
+    // 1) leading rank ("12 Name 1,234" / "#12. Name 1,234"), then strip OCR junk
+    let rank: number | null = null;
+    let rest = line;
+    const rankMatch = line.match(/^#?\s*(\d{1,3})[.)]?\s+(?=.*\p{L}.*\d)/u);
+    if (rankMatch) {
+      rank = parseRankText(rankMatch[1]);
+      rest = line.slice(rankMatch[0].length);
+    }
+
+    const cleaned = rest.replace(/^[|I1\.\-]+/, "").trim();
     if (!cleaned) continue;
 
     // 2) find the RIGHTMOST number (score)
@@ -130,12 +238,11 @@ export const parseScoresFromText = (
     const rawScoreText = numMatch[1];
     const namePart = cleaned.slice(0, numMatch.index).trim();
 
-    // 3) normalize name
-    const parsedName = namePart
-      .replace(/\s{2,}/g, " ")
-      .replace(/[^\w\s\.\-]/g, "")
-      .trim();
-    if (parsedName.length < 2) continue;
+    // 3) normalize name (single-character names only make sense outside ASCII)
+    const parsedName = cleanOCRName(namePart);
+    if (!parsedName || (parsedName.length < 2 && /^[ -~]$/.test(parsedName))) {
+      continue;
+    }
 
     // 4) correct score
     const correction = autoCorrect
@@ -146,6 +253,7 @@ export const parseScoresFromText = (
           confidence: 0.9,
           rawText: rawScoreText,
           bigValue: rawScoreText.replace(/[^\d]/g, "") || "0",
+          digits: [] as DigitConfidence[],
         };
 
     // 5) confidence blending
@@ -171,6 +279,8 @@ export const parseScoresFromText = (
       confidence: finalConfidence,
       originalLine,
       bigScore: correction.bigValue, // <- bigint-safe
+      rank,
+      digitConfidences: correction.digits.length ? correction.digits : undefined,
     });
   }
 
@@ -0,0 +1,457 @@
+// src/lib/ocrQuality.ts
+// Regression corpus for the OCR pipelines: labelled screenshots with their
+// ground-truth rows, a runner that pushes them through an engine and a
+// report (per-field accuracy, digit error rate, rows that used to be right).
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { OCREngineId, OCREngineRow, getOCREngine } from "./ocrEngines";
+import {
+  BUILTIN_LAYOUT_PROFILES,
+  DEFAULT_LAYOUT_PROFILE_ID,
+  OCRLayoutProfile,
+} from "./ocrLayoutProfiles";
+import {
+  OCR_SCREENSHOT_BUCKET,
+  downloadScreenshot,
+  extensionOf,
+  hashFile,
+} from "./ocrScreenshots";
+import { ROW_MATCH_THRESHOLD, rowMatchScore } from "./ocrStitch";
+import { isOCRCancelled } from "./ocrWorkerPool";
+import { normalizePlayerName } from "./playerMatching";
+import { levenshtein } from "./textSimilarity";
+
+export interface CorpusRow {
+  name: string;
+  /** digits only */
+  score: string;
+  rank: number | null;
+}
+
+export interface CorpusSample {
+  id: string;
+  name: string;
+  imagePath: string;
+  layoutProfileId: string | null;
+  notes: string | null;
+  expectedRows: CorpusRow[];
+}
+
+export interface RowOutcome {
+  expected: CorpusRow;
+  /** null when the engine didn't produce a matching row */
+  actual: CorpusRow | null;
+  nameOk: boolean;
+  scoreOk: boolean;
+  /** null when the ground truth has no rank */
+  rankOk: boolean | null;
+  /** edit distance between expected and read digits */
+  digitErrors: number;
+}
+
+export interface SampleReport {
+  sampleId: string;
+  sampleName: string;
+  rows: RowOutcome[];
+  /** rows the engine read that aren't in the ground truth */
+  extraRows: CorpusRow[];
+  error?: string;
+}
+
+export interface QualitySummary {
+  samples: number;
+  expectedRows: number;
+  missingRows: number;
+  extraRows: number;
+  nameAccuracy: number;
+  scoreAccuracy: number;
+  rankAccuracy: number | null;
+  /** row counts as correct when both name and score are */
+  rowAccuracy: number;
+  digitErrorRate: number;
+}
+
+export interface QualityRun {
+  id: string;
+  engine: string;
+  label: string | null;
+  createdAt: string;
+  summary: QualitySummary;
+  results: SampleReport[];
+}
+
+export interface RowRegression {
+  sampleName: string;
+  before: RowOutcome;
+  after: RowOutcome;
+}
+
+// pairs below this aren't the same row – expected row counts as missing
+const MIN_PAIR_SCORE = ROW_MATCH_THRESHOLD * 0.6;
+
+const digitsOnly = (s: string | null | undefined) =>
+  (s ?? "").replace(/[^\d]/g, "").replace(/^0+(?=\d)/, "");
+
+const toCorpusRow = (row: OCREngineRow): CorpusRow => ({
+  name: row.parsedName,
+  score: digitsOnly(row.bigScore),
+  rank: row.rank ?? null,
+});
+
+const asStitchable = (row: CorpusRow) => ({
+  parsedName: row.name,
+  bigScore: row.score,
+  rank: row.rank,
+  confidence: 1,
+  imageSource: "",
+});
+
+const isCorpusRow = (v: unknown): v is CorpusRow => {
+  const r = v as CorpusRow;
+  return (
+    !!r &&
+    typeof r.name === "string" &&
+    typeof r.score === "string" &&
+    (r.rank === null || typeof r.rank === "number")
+  );
+};
+
+/**
+ * Pair expected and read rows in screen order (monotone alignment that
+ * maximises the summed row match score)
+ */
+export const alignRows = (
+  expected: CorpusRow[],
+  actual: CorpusRow[]
+): { pairs: [number, number | null][]; extra: number[] } => {
+  const n = expected.length;
+  const m = actual.length;
+  const score = expected.map((e) =>
+    actual.map((a) => rowMatchScore(asStitchable(e), asStitchable(a)))
+  );
+
+  const dp = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const s = score[i - 1][j - 1];
+      dp[i][j] = Math.max(
+        dp[i - 1][j],
+        dp[i][j - 1],
+        s >= MIN_PAIR_SCORE ? dp[i - 1][j - 1] + s : -Infinity
+      );
+    }
+  }
+
+  const matchOf = new Array<number | null>(n).fill(null);
+  const used = new Set<number>();
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    const s = score[i - 1][j - 1];
+    if (s >= MIN_PAIR_SCORE && dp[i][j] === dp[i - 1][j - 1] + s) {
+      matchOf[i - 1] = j - 1;
+      used.add(j - 1);
+      i--;
+      j--;
+    } else if (dp[i][j] === dp[i - 1][j]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return {
+    pairs: matchOf.map((a, idx) => [idx, a]),
+    extra: actual.map((_, idx) => idx).filter((idx) => !used.has(idx)),
+  };
+};
+
+/**
+ * Compare one screenshot's OCR rows with its ground truth
+ */
+export const evaluateSample = (
+  sample: Pick<CorpusSample, "id" | "name" | "expectedRows">,
+  rows: CorpusRow[]
+): SampleReport => {
+  const { pairs, extra } = alignRows(sample.expectedRows, rows);
+
+  return {
+    sampleId: sample.id,
+    sampleName: sample.name,
+    extraRows: extra.map((idx) => rows[idx]),
+    rows: pairs.map(([e, a]) => {
+      const expected = sample.expectedRows[e];
+      const actual = a === null ? null : rows[a];
+      const want = digitsOnly(expected.score);
+      const got = digitsOnly(actual?.score);
+      return {
+        expected,
+        actual,
+        nameOk:
+          !!actual &&
+          normalizePlayerName(actual.name) === normalizePlayerName(expected.name),
+        scoreOk: !!actual && got === want,
+        rankOk: expected.rank === null ? null : actual?.rank === expected.rank,
+        digitErrors: actual ? levenshtein(want, got) : want.length,
+      };
+    }),
+  };
+};
+
+const ratio = (part: number, whole: number) => (whole ? part / whole : 1);
+
+export const summarizeReports = (reports: SampleReport[]): QualitySummary => {
+  const rows = reports.flatMap((r) => r.rows);
+  const ranked = rows.filter((r) => r.rankOk !== null);
+  const digits = rows.reduce((sum, r) => sum + digitsOnly(r.expected.score).length, 0);
+
+  return {
+    samples: reports.length,
+    expectedRows: rows.length,
+    missingRows: rows.filter((r) => !r.actual).length,
+    extraRows: reports.reduce((sum, r) => sum + r.extraRows.length, 0),
+    nameAccuracy: ratio(rows.filter((r) => r.nameOk).length, rows.length),
+    scoreAccuracy: ratio(rows.filter((r) => r.scoreOk).length, rows.length),
+    rankAccuracy: ranked.length
+      ? ranked.filter((r) => r.rankOk).length / ranked.length
+      : null,
+    rowAccuracy: ratio(rows.filter((r) => r.nameOk && r.scoreOk).length, rows.length),
+    digitErrorRate: digits
+      ? rows.reduce((sum, r) => sum + r.digitErrors, 0) / digits
+      : 0,
+  };
+};
+
+const outcomeKey = (sampleId: string, row: RowOutcome) =>
+  `${sampleId}:${normalizePlayerName(row.expected.name)}:${digitsOnly(row.expected.score)}`;
+
+/**
+ * Rows that were fully correct in `previous` and aren't any more
+ */
+export const findRegressions = (
+  current: SampleReport[],
+  previous: SampleReport[]
+): RowRegression[] => {
+  const before = new Map<string, RowOutcome>();
+  for (const report of previous) {
+    for (const row of report.rows) before.set(outcomeKey(report.sampleId, row), row);
+  }
+
+  return current.flatMap((report) =>
+    report.rows.flatMap((after) => {
+      const prev = before.get(outcomeKey(report.sampleId, after));
+      const wasOk = prev && prev.nameOk && prev.scoreOk;
+      return wasOk && !(after.nameOk && after.scoreOk)
+        ? [{ sampleName: report.sampleName, before: prev, after }]
+        : [];
+    })
+  );
+};
+
+/**
+ * Run every sample through one engine (sequentially – the pool already
+ * parallelises the rows of one screenshot)
+ */
+export const runQualityCorpus = async (
+  samples: CorpusSample[],
+  engineId: OCREngineId,
+  profiles: OCRLayoutProfile[],
+  options: {
+    signal?: AbortSignal;
+    nameLanguages?: string[];
+    onSample?: (done: number, total: number) => void;
+  } = {}
+): Promise<SampleReport[]> => {
+  const { signal, nameLanguages, onSample } = options;
+  const engine = getOCREngine(engineId);
+  const fallback =
+    profiles.find((p) => p.id === DEFAULT_LAYOUT_PROFILE_ID) ?? BUILTIN_LAYOUT_PROFILES[0];
+  const reports: SampleReport[] = [];
+
+  for (const sample of samples) {
+    if (signal?.aborted) break;
+    onSample?.(reports.length, samples.length);
+
+    const profile = profiles.find((p) => p.id === sample.layoutProfileId) ?? fallback;
+    try {
+      const file = await downloadScreenshot(sample.imagePath, sample.name);
+      const rows = await engine.run(file, profile, { signal, nameLanguages });
+      if (signal?.aborted) break;
+      reports.push(evaluateSample(sample, rows.map(toCorpusRow)));
+    } catch (err) {
+      if (isOCRCancelled(err)) break;
+      reports.push({
+        ...evaluateSample(sample, []),
+        error: (err as Error).message,
+      });
+    }
+  }
+
+  onSample?.(reports.length, samples.length);
+  return reports;
+};
+
+/**
+ * OCR rows in corpus form (for pre-filling the ground truth of a new sample)
+ */
+export const readCorpusRows = async (
+  file: File,
+  engineId: OCREngineId,
+  profile: OCRLayoutProfile,
+  nameLanguages?: string[]
+): Promise<CorpusRow[]> => {
+  const rows = await getOCREngine(engineId).run(file, profile, { nameLanguages });
+  return rows.map(toCorpusRow);
+};
+
+// ---------------------------------------------------------------------------
+// storage
+
+export const fetchCorpusSamples = async (): Promise<CorpusSample[]> => {
+  const { data, error } = await supabase
+    .from("ocr_corpus_samples")
+    .select("id, name, image_path, layout_profile_id, notes, expected_rows")
+    .order("created_at");
+  if (error) throw error;
+
+  return (data || []).map((s) => ({
+    id: s.id,
+    name: s.name,
+    imagePath: s.image_path,
+    layoutProfileId: s.layout_profile_id,
+    notes: s.notes,
+    expectedRows: Array.isArray(s.expected_rows)
+      ? (s.expected_rows as unknown[]).filter(isCorpusRow)
+      : [],
+  }));
+};
+
+/**
+ * Add a labelled screenshot (stored under corpus/ in the screenshot bucket)
+ */
+export const createCorpusSample = async (
+  file: File,
+  sample: Omit<CorpusSample, "id" | "imagePath">
+): Promise<CorpusSample> => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const imageHash = await hashFile(file);
+  const imagePath = `corpus/${imageHash}.${extensionOf(file)}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(OCR_SCREENSHOT_BUCKET)
+    .upload(imagePath, file, { contentType: file.type || undefined });
+  if (uploadError && !/exists/i.test(uploadError.message)) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("ocr_corpus_samples")
+    .insert({
+      name: sample.name,
+      image_path: imagePath,
+      image_hash: imageHash,
+      layout_profile_id: sample.layoutProfileId,
+      notes: sample.notes,
+      expected_rows: sample.expectedRows as unknown as Json,
+      created_by: user.id,
+    })
+    .select("id")
+    .single();
+  if (error) {
+    if (error.code === "23505") throw new Error("This screenshot is already in the corpus");
+    throw error;
+  }
+
+  return { ...sample, id: data.id, imagePath };
+};
+
+export const updateCorpusSample = async (
+  id: string,
+  patch: Partial<Pick<CorpusSample, "name" | "layoutProfileId" | "notes" | "expectedRows">>
+) => {
+  const { error } = await supabase
+    .from("ocr_corpus_samples")
+    .update({
+      name: patch.name,
+      layout_profile_id: patch.layoutProfileId,
+      notes: patch.notes,
+      expected_rows: patch.expectedRows as unknown as Json | undefined,
+    })
+    .eq("id", id);
+  if (error) throw error;
+};
+
+export const deleteCorpusSample = async (sample: CorpusSample) => {
+  const { error } = await supabase
+    .from("ocr_corpus_samples")
+    .delete()
+    .eq("id", sample.id);
+  if (error) throw error;
+
+  const { error: removeError } = await supabase.storage
+    .from(OCR_SCREENSHOT_BUCKET)
+    .remove([sample.imagePath]);
+  if (removeError) console.warn("Failed to remove corpus image:", removeError.message);
+};
+
+export const saveQualityRun = async (
+  engine: OCREngineId,
+  results: SampleReport[],
+  label?: string
+): Promise<QualityRun> => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const summary = summarizeReports(results);
+  const { data, error } = await supabase
+    .from("ocr_corpus_runs")
+    .insert({
+      engine,
+      label: label?.trim() || null,
+      summary: summary as unknown as Json,
+      results: results as unknown as Json,
+      created_by: user.id,
+    })
+    .select("id, created_at")
+    .single();
+  if (error) throw error;
+
+  return {
+    id: data.id,
+    engine,
+    label: label?.trim() || null,
+    createdAt: data.created_at,
+    summary,
+    results,
+  };
+};
+
+/**
+ * Most recent stored runs for an engine, newest first
+ */
+export const fetchQualityRuns = async (
+  engine: OCREngineId,
+  limit = 10
+): Promise<QualityRun[]> => {
+  const { data, error } = await supabase
+    .from("ocr_corpus_runs")
+    .select("id, engine, label, created_at, summary, results")
+    .eq("engine", engine)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+
+  return (data || []).map((r) => ({
+    id: r.id,
+    engine: r.engine,
+    label: r.label,
+    createdAt: r.created_at,
+    summary: r.summary as unknown as QualitySummary,
+    results: r.results as unknown as SampleReport[],
+  }));
+};
@@ -0,0 +1,355 @@
+// src/lib/ocrRectify.ts
+// Find the leaderboard panel in a photo of a screen (or a tilted / padded
+// screenshot) and warp it to a flat rectangle, so row segmentation can keep
+// assuming full-width horizontal separators.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** corners in image px: top-left, top-right, bottom-right, bottom-left */
+export type Quad = [Point, Point, Point, Point];
+
+export interface RectifyResult {
+  canvas: HTMLCanvasElement;
+  /** detected panel, null when nothing usable was found */
+  quad: Quad | null;
+  /** false when the input was already flat (returned unchanged) */
+  applied: boolean;
+}
+
+// detection runs on a copy this wide
+const DETECT_WIDTH = 400;
+// the panel has to cover at least this share of the image
+const MIN_PANEL_AREA = 0.2;
+// corners closer than this (fraction of the side) count as axis-aligned
+const FLAT_TOLERANCE = 0.015;
+// closing radius (detect px) – bridges the dark separators between rows
+const CLOSE_RADIUS = 3;
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+
+const otsu = (values: Uint8Array): number => {
+  const hist = new Array(256).fill(0);
+  for (const v of values) hist[v]++;
+  const total = values.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * hist[i];
+
+  let sumB = 0;
+  let wB = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let i = 0; i < 256; i++) {
+    wB += hist[i];
+    if (!wB) continue;
+    const wF = total - wB;
+    if (!wF) break;
+    sumB += i * hist[i];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const between = wB * wF * (mB - mF) * (mB - mF);
+    if (between > best) {
+      best = between;
+      threshold = i;
+    }
+  }
+  return threshold;
+};
+
+// max (dilate) or min (erode) over a square window, separable
+const morph = (mask: Uint8Array, w: number, h: number, r: number, dilate: boolean) => {
+  const pick = dilate ? Math.max : Math.min;
+  const tmp = new Uint8Array(mask.length);
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let v = mask[y * w + x];
+      for (let d = -r; d <= r; d++) {
+        const xx = x + d;
+        if (xx >= 0 && xx < w) v = pick(v, mask[y * w + xx]);
+      }
+      tmp[y * w + x] = v;
+    }
+  }
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let v = tmp[y * w + x];
+      for (let d = -r; d <= r; d++) {
+        const yy = y + d;
+        if (yy >= 0 && yy < h) v = pick(v, tmp[yy * w + x]);
+      }
+      out[y * w + x] = v;
+    }
+  }
+  return out;
+};
+
+// pixel indices of the largest 4-connected blob of 1s
+const largestComponent = (mask: Uint8Array, w: number, h: number): number[] => {
+  const seen = new Uint8Array(mask.length);
+  let best: number[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const blob: number[] = [];
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      blob.push(i);
+      const x = i % w;
+      const y = (i - x) / w;
+      const next = [
+        x > 0 ? i - 1 : -1,
+        x < w - 1 ? i + 1 : -1,
+        y > 0 ? i - w : -1,
+        y < h - 1 ? i + w : -1,
+      ];
+      for (const n of next) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (blob.length > best.length) best = blob;
+  }
+  return best;
+};
+
+const quadArea = (q: Quad) => {
+  let a = 0;
+  for (let i = 0; i < 4; i++) {
+    const p = q[i];
+    const n = q[(i + 1) % 4];
+    a += p.x * n.y - n.x * p.y;
+  }
+  return Math.abs(a) / 2;
+};
+
+const isConvex = (q: Quad) => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = q[i];
+    const b = q[(i + 1) % 4];
+    const c = q[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) continue;
+    if (sign && Math.sign(cross) !== sign) return false;
+    sign = Math.sign(cross);
+  }
+  return true;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Corners of the leaderboard panel (the largest bright region once the row
+ * separators are closed), in `canvas` px. null when nothing panel-like is found.
+ */
+export const detectPanelQuad = (canvas: HTMLCanvasElement): Quad | null => {
+  const scale = Math.min(1, DETECT_WIDTH / canvas.width);
+  const w = Math.max(1, Math.round(canvas.width * scale));
+  const h = Math.max(1, Math.round(canvas.height * scale));
+  const small = document.createElement("canvas");
+  small.width = w;
+  small.height = h;
+  const ctx = small.getContext("2d", { willReadFrequently: true })!;
+  ctx.drawImage(canvas, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+
+  const lum = new Uint8Array(w * h);
+  for (let i = 0; i < lum.length; i++) lum[i] = luminance(data, i * 4);
+  const threshold = otsu(lum);
+
+  let mask = new Uint8Array(lum.length);
+  for (let i = 0; i < lum.length; i++) mask[i] = lum[i] > threshold ? 1 : 0;
+  // closing: separators and text disappear, the panel becomes one blob
+  mask = morph(morph(mask, w, h, CLOSE_RADIUS, true), w, h, CLOSE_RADIUS, false);
+
+  const blob = largestComponent(mask, w, h);
+  if (blob.length < w * h * MIN_PANEL_AREA) return null;
+
+  // extreme points along the diagonals
+  let tl = blob[0];
+  let tr = blob[0];
+  let br = blob[0];
+  let bl = blob[0];
+  const xy = (i: number) => [i % w, Math.floor(i / w)] as const;
+  for (const i of blob) {
+    const [x, y] = xy(i);
+    const [tlx, tly] = xy(tl);
+    const [trx, try_] = xy(tr);
+    const [brx, bry] = xy(br);
+    const [blx, bly] = xy(bl);
+    if (x + y < tlx + tly) tl = i;
+    if (x - y > trx - try_) tr = i;
+    if (x + y > brx + bry) br = i;
+    if (y - x > bly - blx) bl = i;
+  }
+
+  const toImage = (i: number): Point => {
+    const [x, y] = xy(i);
+    // back to full-res px (pixel centre)
+    return { x: (x + 0.5) / scale, y: (y + 0.5) / scale };
+  };
+  const quad: Quad = [toImage(tl), toImage(tr), toImage(br), toImage(bl)];
+
+  if (!isConvex(quad)) return null;
+  if (quadArea(quad) < canvas.width * canvas.height * MIN_PANEL_AREA) return null;
+  return quad;
+};
+
+/**
+ * true when the quad is an axis-aligned rectangle (nothing to warp)
+ */
+export const isFlatQuad = (q: Quad, width: number, height: number): boolean => {
+  const tolX = width * FLAT_TOLERANCE;
+  const tolY = height * FLAT_TOLERANCE;
+  const [tl, tr, br, bl] = q;
+  return (
+    Math.abs(tl.y - tr.y) <= tolY &&
+    Math.abs(bl.y - br.y) <= tolY &&
+    Math.abs(tl.x - bl.x) <= tolX &&
+    Math.abs(tr.x - br.x) <= tolX
+  );
+};
+
+/**
+ * 3×3 homography (row-major, h[8] = 1) mapping the four `from` points onto `to`
+ */
+export const computeHomography = (from: Quad, to: Quad): number[] => {
+  // 8 equations, 8 unknowns: solve A·h = b by Gaussian elimination
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+    }
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    if (Math.abs(A[col][col]) < 1e-12) throw new Error("Degenerate panel corners");
+
+    for (let r = col + 1; r < 8; r++) {
+      const f = A[r][col] / A[col][col];
+      for (let c = col; c < 8; c++) A[r][c] -= f * A[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+
+  const h = new Array(8).fill(0);
+  for (let r = 7; r >= 0; r--) {
+    let s = b[r];
+    for (let c = r + 1; c < 8; c++) s -= A[r][c] * h[c];
+    h[r] = s / A[r][r];
+  }
+  return [...h, 1];
+};
+
+/**
+ * Warp the `quad` region of `src` onto a width × height rectangle
+ * (inverse mapping, bilinear sampling)
+ */
+export const warpQuad = (
+  src: HTMLCanvasElement,
+  quad: Quad,
+  width: number,
+  height: number
+): HTMLCanvasElement => {
+  const rect: Quad = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height },
+  ];
+  // destination px → source px
+  const m = computeHomography(rect, quad);
+
+  const srcData = src
+    .getContext("2d", { willReadFrequently: true })!
+    .getImageData(0, 0, src.width, src.height).data;
+  const out = document.createElement("canvas");
+  out.width = width;
+  out.height = height;
+  const outCtx = out.getContext("2d", { willReadFrequently: true })!;
+  const outImg = outCtx.createImageData(width, height);
+  const dst = outImg.data;
+  const sw = src.width;
+  const sh = src.height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const d = m[6] * px + m[7] * py + m[8];
+      const sx = (m[0] * px + m[1] * py + m[2]) / d - 0.5;
+      const sy = (m[3] * px + m[4] * py + m[5]) / d - 0.5;
+
+      const x0 = Math.max(0, Math.min(sw - 1, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(sh - 1, Math.floor(sy)));
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const a = srcData[(y0 * sw + x0) * 4 + c];
+        const bb = srcData[(y0 * sw + x1) * 4 + c];
+        const cc = srcData[(y1 * sw + x0) * 4 + c];
+        const dd = srcData[(y1 * sw + x1) * 4 + c];
+        dst[o + c] =
+          a * (1 - fx) * (1 - fy) + bb * fx * (1 - fy) + cc * (1 - fx) * fy + dd * fx * fy;
+      }
+      dst[o + 3] = 255;
+    }
+  }
+
+  outCtx.putImageData(outImg, 0, 0);
+  return out;
+};
+
+/**
+ * Detect the panel and flatten it. Clean captures come back untouched;
+ * with `cropPadding` an axis-aligned panel is still cropped out of its margins.
+ */
+export const rectifyLeaderboard = (
+  src: HTMLCanvasElement,
+  { cropPadding = false }: { cropPadding?: boolean } = {}
+): RectifyResult => {
+  const quad = detectPanelQuad(src);
+  if (!quad) return { canvas: src, quad: null, applied: false };
+
+  const [tl, tr, br, bl] = quad;
+  const flat = isFlatQuad(quad, src.width, src.height);
+  const fillsImage =
+    flat &&
+    tl.x <= src.width * FLAT_TOLERANCE * 2 &&
+    tl.y <= src.height * FLAT_TOLERANCE * 2 &&
+    br.x >= src.width * (1 - FLAT_TOLERANCE * 2) &&
+    br.y >= src.height * (1 - FLAT_TOLERANCE * 2);
+  if (fillsImage || (flat && !cropPadding)) {
+    return { canvas: src, quad, applied: false };
+  }
+
+  // keep the longer of each pair of opposite edges so no detail is lost
+  const width = Math.round(Math.max(distance(tl, tr), distance(bl, br)));
+  const height = Math.round(Math.max(distance(tl, bl), distance(tr, br)));
+  if (width < 2 || height < 2) return { canvas: src, quad, applied: false };
+
+  return { canvas: warpQuad(src, quad, width, height), quad, applied: true };
+};
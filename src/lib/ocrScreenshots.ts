@@ -0,0 +1,145 @@
+// src/lib/ocrScreenshots.ts
+// Store uploaded leaderboard screenshots (Supabase storage + ocr_uploads)
+// so every OCR row can point back at the image it came from.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export const OCR_SCREENSHOT_BUCKET = "ocr-screenshots";
+
+export interface StoredScreenshot {
+  uploadId: string;
+  imagePath: string;
+  imageHash: string;
+  /** true when this exact image was already stored for the event */
+  reused: boolean;
+}
+
+/**
+ * SHA-256 of the file bytes, hex encoded
+ */
+export const hashFile = async (file: Blob): Promise<string> => {
+  const buf = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest("SHA-256", buf);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+export const extensionOf = (file: File) => {
+  const fromName = file.name.split(".").pop();
+  if (fromName && fromName !== file.name) return fromName.toLowerCase();
+  return file.type.split("/")[1] || "png";
+};
+
+/**
+ * Upload a screenshot once per event (deduped by hash) and return its ocr_uploads row
+ */
+export const storeScreenshot = async (
+  eventId: string,
+  file: File,
+  layoutProfileId?: string
+): Promise<StoredScreenshot> => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+
+  const imageHash = await hashFile(file);
+
+  const { data: existing, error: existingError } = await supabase
+    .from("ocr_uploads")
+    .select("id, image_path")
+    .eq("event_id", eventId)
+    .eq("image_hash", imageHash)
+    .maybeSingle();
+  if (existingError) throw existingError;
+
+  if (existing?.image_path) {
+    return {
+      uploadId: existing.id,
+      imagePath: existing.image_path,
+      imageHash,
+      reused: true,
+    };
+  }
+
+  const imagePath = `${eventId}/${imageHash}.${extensionOf(file)}`;
+  const { error: uploadError } = await supabase.storage
+    .from(OCR_SCREENSHOT_BUCKET)
+    .upload(imagePath, file, { contentType: file.type || undefined });
+
+  // object can already exist if an earlier insert failed half way
+  if (uploadError && !/exists/i.test(uploadError.message)) throw uploadError;
+
+  const { data: inserted, error: insertError } = await supabase
+    .from("ocr_uploads")
+    .insert({
+      event_id: eventId,
+      uploaded_by: user.id,
+      status: "pending",
+      image_path: imagePath,
+      image_hash: imageHash,
+      image_name: file.name,
+      layout_profile_id: layoutProfileId ?? null,
+    })
+    .select("id")
+    .single();
+  if (insertError) throw insertError;
+
+  return { uploadId: inserted.id, imagePath, imageHash, reused: false };
+};
+
+/**
+ * Record the OCR outcome on the upload row
+ */
+export const markScreenshotProcessed = async (
+  uploadId: string,
+  summary: {
+    rowCount: number;
+    layoutProfileId: string;
+    engine?: string;
+    cancelled?: boolean;
+  }
+) => {
+  const { error } = await supabase
+    .from("ocr_uploads")
+    .update({
+      status: summary.cancelled ? "partial" : "processed",
+      layout_profile_id: summary.layoutProfileId,
+      processed_data: summary as unknown as Json,
+    })
+    .eq("id", uploadId);
+
+  if (error) console.warn("Failed to update ocr_uploads:", error.message);
+};
+
+/**
+ * Short-lived URL for showing a stored screenshot
+ */
+export const getScreenshotUrl = async (
+  imagePath: string,
+  expiresIn = 3600
+): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(OCR_SCREENSHOT_BUCKET)
+    .createSignedUrl(imagePath, expiresIn);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/**
+ * Download a stored screenshot back into a File (for re-running OCR)
+ */
+export const downloadScreenshot = async (
+  imagePath: string,
+  fileName?: string
+): Promise<File> => {
+  const { data, error } = await supabase.storage
+    .from(OCR_SCREENSHOT_BUCKET)
+    .download(imagePath);
+  if (error) throw error;
+
+  const name = fileName || imagePath.split("/").pop() || "screenshot.png";
+  return new File([data], name, { type: data.type });
+};
@@ -1,35 +1,50 @@
 // src/lib/ocrSmartSegment.ts
 // Browser-only helper for Avalon beige/brown leaderboard OCR
 
-import { createWorker, Worker } from "tesseract.js";
-
-// we keep 1 worker for the whole session
-let sharedWorker: Worker | null = null;
-
-async function getWorker(): Promise<Worker> {
-  if (sharedWorker) return sharedWorker;
-  // keep it simple: english only
-  sharedWorker = await createWorker("eng");
-  return sharedWorker;
-}
+import { PSM } from "tesseract.js";
+import {
+  OCRLayoutProfile,
+  columnToPixels,
+  getDefaultLayoutProfile,
+  getPreprocessChains,
+} from "@/lib/ocrLayoutProfiles";
+import { PreprocessStep, runPreprocessChain } from "@/lib/ocrPreprocess";
+import {
+  DigitConfidence,
+  cleanOCRName,
+  digitConfidencesFromPage,
+  parseRankText,
+} from "@/lib/ocrProcessing";
+import {
+  OCRRunOptions,
+  buildLangString,
+  isOCRCancelled,
+  recognizeWithPool,
+} from "@/lib/ocrWorkerPool";
 
 export interface SmartOCRRow {
   parsedName: string;
   parsedScore: number;
   bigScore: string;
+  rank: number | null;
   rawText: string;
   confidence: number;
   imageSource: string;
   metadata?: {
     nameConfidence?: number;
     scoreConfidence?: number;
+    rankConfidence?: number;
+    rawScoreText?: string;
+    digitConfidences?: DigitConfidence[];
     nameCanvas?: HTMLCanvasElement;
     scoreCanvas?: HTMLCanvasElement;
+    rankCanvas?: HTMLCanvasElement;
     originalWidth?: number;
     originalHeight?: number;
     processedWidth?: number;
     processedHeight?: number;
     scaleFactor?: number;
+    layoutProfileId?: string;
   };
 }
 
@@ -73,10 +88,11 @@ function upscaleCanvas(
  * strategy:
  *  - scan each row (y)
  *  - compute avg brightness
- *  - dark bar ≈ brightness < 80, but only if it spans most of the width
+ *  - dark bar ≈ brightness < profile threshold (80 by default)
  */
 function detectBeigeSegments(
-  canvas: HTMLCanvasElement
+  canvas: HTMLCanvasElement,
+  profile: OCRLayoutProfile
 ): Segment[] {
   const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
   const { width, height } = canvas;
@@ -101,7 +117,7 @@ function detectBeigeSegments(
   }
 
   // dark lines (dividers) usually around 35–75 brightness
-  const DARK = 80;
+  const DARK = profile.segmentThreshold;
   const segments: Segment[] = [];
   let start = 0;
 
@@ -124,8 +140,8 @@ function detectBeigeSegments(
     segments.push({ y: start, h: height - start });
   }
 
-  // hard cap to 20 rows (your use case)
-  return segments.slice(0, 20);
+  // hard cap from the profile (20 rows for the beige leaderboard)
+  return segments.slice(0, profile.maxRows);
 }
 
 /**
@@ -147,98 +163,143 @@ function cropCanvas(
 }
 
 /**
- * 5. split row → name (left) / score (right)
- * on your screenshots: name is ~ 0–55%, score is rightmost
+ * 5. split row → rank (optional) / name (left) / score (right)
+ * column bounds come from the layout profile (its smartColumns when set)
  */
 function splitRow(
-  rowCanvas: HTMLCanvasElement
-): { nameCanvas: HTMLCanvasElement; scoreCanvas: HTMLCanvasElement } {
-  const splitX = Math.round(rowCanvas.width * 0.55);
-  const nameCanvas = cropCanvas(rowCanvas, 0, 0, splitX, rowCanvas.height);
-  // remove 4px right noise
-  const scoreWidth = rowCanvas.width - splitX - 4;
+  rowCanvas: HTMLCanvasElement,
+  profile: OCRLayoutProfile
+): {
+  nameCanvas: HTMLCanvasElement;
+  scoreCanvas: HTMLCanvasElement;
+  rankCanvas?: HTMLCanvasElement;
+} {
+  const columns = profile.smartColumns ?? profile;
+  const nameCol = columnToPixels(columns.nameColumn, rowCanvas.width);
+  const scoreCol = columnToPixels(columns.scoreColumn, rowCanvas.width);
+  // remove 4px right noise when the score runs to the edge of the row
+  if (columns.scoreColumn.right >= 1) {
+    scoreCol.width = Math.max(1, scoreCol.width - 4);
+  }
+  const nameCanvas = cropCanvas(
+    rowCanvas,
+    nameCol.x,
+    0,
+    nameCol.width,
+    rowCanvas.height
+  );
   const scoreCanvas = cropCanvas(
     rowCanvas,
-    splitX,
+    scoreCol.x,
     0,
-    scoreWidth,
+    scoreCol.width,
     rowCanvas.height
   );
-  return { nameCanvas, scoreCanvas };
-}
-
-/**
- * 6. binarize score area → white text on black
- */
-function binarizeForScore(c: HTMLCanvasElement): HTMLCanvasElement {
-  const ctx = c.getContext("2d", { willReadFrequently: true })!;
-  const { width, height } = c;
-  const img = ctx.getImageData(0, 0, width, height);
-  const data = img.data;
-
-  // find min/max
-  let min = 255;
-  let max = 0;
-  for (let i = 0; i < data.length; i += 4) {
-    const v = (data[i] + data[i + 1] + data[i + 2]) / 3;
-    if (v < min) min = v;
-    if (v > max) max = v;
+  let rankCanvas: HTMLCanvasElement | undefined;
+  if (profile.rankColumn) {
+    const rankCol = columnToPixels(profile.rankColumn, rowCanvas.width);
+    rankCanvas = cropCanvas(
+      rowCanvas,
+      rankCol.x,
+      0,
+      rankCol.width,
+      rowCanvas.height
+    );
   }
-  const mid = (min + max) / 2;
-
-  for (let i = 0; i < data.length; i += 4) {
-    const v = (data[i] + data[i + 1] + data[i + 2]) / 3;
-    const out = v > mid ? 255 : 0;
-    data[i] = data[i + 1] = data[i + 2] = out;
-    data[i + 3] = 255;
-  }
-
-  ctx.putImageData(img, 0, 0);
-  return c;
+  return { nameCanvas, scoreCanvas, rankCanvas };
 }
 
 /**
- * 7. OCR name
+ * 6. OCR name – the Latin whitelist only applies when no extra models are
+ * loaded, otherwise it would throw away every non-ASCII character
  */
 async function ocrName(
   canvas: HTMLCanvasElement,
-  worker: Worker
-): Promise<{ text: string; conf: number }> {
-  await worker.setParameters({
-    tessedit_pageseg_mode: "6", // single block of text
-    tessedit_char_whitelist:
-      "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .'_-",
-  } as any);
-  const { data } = await worker.recognize(canvas);
+  steps: PreprocessStep[],
+  signal?: AbortSignal,
+  nameLanguages: string[] = []
+): Promise<{ text: string; conf: number; canvas: HTMLCanvasElement }> {
+  const prepared = runPreprocessChain(canvas, steps).canvas;
+  const data = await recognizeWithPool(
+    prepared,
+    {
+      tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+      tessedit_char_whitelist: nameLanguages.length
+        ? ""
+        : "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz .'_-",
+    },
+    { signal, langs: buildLangString(nameLanguages) }
+  );
   return {
-    text: (data.text || "").trim(),
+    text: cleanOCRName(data.text || ""),
     conf: (data.confidence || 0) / 100,
+    canvas: prepared,
   };
 }
 
 /**
- * 8. OCR score
+ * 7. OCR score
  */
 async function ocrScore(
   canvas: HTMLCanvasElement,
-  worker: Worker
-): Promise<{ text: string; conf: number }> {
-  const bin = binarizeForScore(canvas);
-  await worker.setParameters({
-    tessedit_pageseg_mode: "7", // single line
-    tessedit_char_whitelist: "0123456789,",
-  } as any);
-  const { data } = await worker.recognize(bin);
+  steps: PreprocessStep[],
+  signal?: AbortSignal
+): Promise<{
+  text: string;
+  conf: number;
+  digits: DigitConfidence[];
+  canvas: HTMLCanvasElement;
+}> {
+  const prepared = runPreprocessChain(canvas, steps).canvas;
+  const data = await recognizeWithPool(
+    prepared,
+    {
+      tessedit_pageseg_mode: PSM.SINGLE_LINE,
+      tessedit_char_whitelist: "0123456789,",
+    },
+    { signal, output: { text: true, blocks: true } }
+  );
   let raw = (data.text || "").trim();
   raw = raw.replace(/[^\d,]/g, "");
+  const digits = digitConfidencesFromPage(data);
+  const lineConf = (data.confidence || 0) / 100;
   return {
     text: raw,
+    // one doubtful digit makes the whole score doubtful
+    conf: digits.length
+      ? Math.min(lineConf, ...digits.map((d) => d.confidence))
+      : lineConf,
+    digits,
+    canvas: prepared,
+  };
+}
+
+/**
+ * 7b. OCR rank badge
+ */
+async function ocrRank(
+  canvas: HTMLCanvasElement,
+  steps: PreprocessStep[],
+  signal?: AbortSignal
+): Promise<{ rank: number | null; conf: number; canvas: HTMLCanvasElement }> {
+  const prepared = runPreprocessChain(canvas, steps).canvas;
+  const data = await recognizeWithPool(
+    prepared,
+    {
+      tessedit_pageseg_mode: PSM.SINGLE_LINE,
+      tessedit_char_whitelist: "0123456789",
+    },
+    { signal }
+  );
+  return {
+    rank: parseRankText(data.text || ""),
     conf: (data.confidence || 0) / 100,
+    canvas: prepared,
   };
 }
 
 /**
- * 9. normalize score → bigint string + number (capped)
+ * 8. normalize score → bigint string + number (capped)
  */
 function normalizeScore(raw: string): { num: number; big: string } {
   const digits = raw.replace(/[^\d]/g, "");
@@ -247,32 +308,74 @@ function normalizeScore(raw: string): { num: number; big: string } {
   return { num: isNaN(num) ? 0 : num, big: digits };
 }
 
+/**
+ * Base canvas the bands are found on: the image after the layout's
+ * image-level chain (rectify / deskew)
+ */
+function prepareBaseCanvas(
+  img: HTMLImageElement,
+  profile: OCRLayoutProfile
+): HTMLCanvasElement {
+  const { image } = getPreprocessChains(profile);
+  return image.length
+    ? runPreprocessChain(imageToCanvas(img), image).canvas
+    : imageToCanvas(img);
+}
+
+/**
+ * PUBLIC: beige bands in base canvas px (calibration overlay)
+ */
+export function previewSmartSegments(
+  img: HTMLImageElement,
+  profile: OCRLayoutProfile = getDefaultLayoutProfile()
+): Array<{ y: number; h: number }> {
+  const baseCanvas = prepareBaseCanvas(img, profile);
+  const scaled = upscaleCanvas(baseCanvas, 1240);
+  const scale = scaled.height / baseCanvas.height;
+  return detectBeigeSegments(scaled, profile).map((seg) => ({
+    y: seg.y / scale,
+    h: seg.h / scale,
+  }));
+}
+
 /**
  * PUBLIC: run OCR on ONE <img>
+ * rows run in parallel on the worker pool; on cancel the finished rows are kept
  */
 export async function runSmartLeaderboardOCR(
   img: HTMLImageElement,
-  sourceName: string
+  sourceName: string,
+  profile: OCRLayoutProfile = getDefaultLayoutProfile(),
+  options: OCRRunOptions = {}
 ): Promise<SmartOCRRow[]> {
-  const baseCanvas = imageToCanvas(img);
+  const { signal, onProgress, nameLanguages } = options;
+  const chains = getPreprocessChains(profile);
+  const baseCanvas = prepareBaseCanvas(img, profile);
   const scaled = upscaleCanvas(baseCanvas, 1240);
 
-  const segments = detectBeigeSegments(scaled);
+  const segments = detectBeigeSegments(scaled, profile);
   if (!segments.length) return [];
 
-  const worker = await getWorker();
-
-  const out: SmartOCRRow[] = [];
+  const out: Array<SmartOCRRow | null> = new Array(segments.length).fill(null);
+  let done = 0;
+  onProgress?.({ done, total: segments.length });
 
-  for (const seg of segments) {
+  const tasks = segments.map(async (seg, idx) => {
     const rowCanvas = cropCanvas(scaled, 0, seg.y, scaled.width, seg.h);
-    const { nameCanvas, scoreCanvas } = splitRow(rowCanvas);
-
-    const [nameRes, scoreRes] = await Promise.all([
-      ocrName(nameCanvas, worker),
-      ocrScore(scoreCanvas, worker),
+    const { nameCanvas, scoreCanvas, rankCanvas } = splitRow(
+      rowCanvas,
+      profile
+    );
+
+    const [nameRes, scoreRes, rankRes] = await Promise.all([
+      ocrName(nameCanvas, chains.name, signal, nameLanguages),
+      ocrScore(scoreCanvas, chains.score, signal),
+      rankCanvas ? ocrRank(rankCanvas, chains.rank, signal) : Promise.resolve(null),
     ]);
 
+    done++;
+    onProgress?.({ done, total: segments.length });
+
     const norm = normalizeScore(scoreRes.text);
 
     // overall confidence = weighted
@@ -282,28 +385,42 @@ export async function runSmartLeaderboardOCR(
         : Math.max(nameRes.conf, scoreRes.conf);
 
     // ignore rows that are clearly garbage
-    if (!nameRes.text && !norm.big) continue;
+    if (!nameRes.text && !norm.big) return;
 
-    out.push({
+    out[idx] = {
       parsedName: nameRes.text,
       parsedScore: norm.num,
       bigScore: norm.big,
+      rank: rankRes?.rank ?? null,
       rawText: `${nameRes.text} ${scoreRes.text}`.trim(),
       confidence: overall,
       imageSource: sourceName,
       metadata: {
         nameConfidence: nameRes.conf,
         scoreConfidence: scoreRes.conf,
+        rankConfidence: rankRes?.conf,
+        rawScoreText: scoreRes.text,
+        digitConfidences:
+          scoreRes.digits.length === norm.big.length ? scoreRes.digits : undefined,
         nameCanvas,
-        scoreCanvas,
+        scoreCanvas: scoreRes.canvas,
+        rankCanvas: rankRes?.canvas ?? rankCanvas,
         originalWidth: baseCanvas.width,
         originalHeight: baseCanvas.height,
         processedWidth: scaled.width,
         processedHeight: scaled.height,
         scaleFactor: scaled.width / baseCanvas.width,
+        layoutProfileId: profile.id,
       },
-    });
-  }
+    };
+  });
+
+  const settled = await Promise.allSettled(tasks);
+  const failure = settled.find(
+    (r): r is PromiseRejectedResult =>
+      r.status === "rejected" && !isOCRCancelled(r.reason)
+  );
+  if (failure) throw failure.reason;
 
-  return out;
+  return out.filter((r): r is SmartOCRRow => r !== null);
 }
@@ -0,0 +1,174 @@
+// src/lib/ocrStitch.ts
+// Stitch several scrolled screenshots of one leaderboard into a single
+// ordered list. Consecutive screenshots usually overlap by a few rows –
+// those rows are detected (rank / name / score similarity) and collapsed.
+
+import { similarity } from "./textSimilarity";
+
+export interface StitchableRow {
+  parsedName: string;
+  bigScore?: string;
+  parsedScore?: number;
+  rank?: number | null;
+  confidence: number;
+  imageSource: string;
+}
+
+export interface StitchConflict {
+  field: "name" | "score" | "rank";
+  /** one read per screenshot the row was seen on */
+  values: string[];
+}
+
+export interface StitchInfo {
+  /** screenshots this row was read from (in order) */
+  sources: string[];
+  conflicts: StitchConflict[];
+}
+
+export type StitchedRow<T extends StitchableRow> = T & { stitch?: StitchInfo };
+
+export interface StitchResult<T extends StitchableRow> {
+  rows: StitchedRow<T>[];
+  /** overlapping row count between page i and page i+1 */
+  overlaps: number[];
+  collapsed: number;
+  conflicted: number;
+}
+
+// a pair of reads needs at least this much combined similarity
+export const ROW_MATCH_THRESHOLD = 0.75;
+
+const normalizeName = (s: string) =>
+  (s || "").normalize("NFKC").toLowerCase().replace(/\s+/g, " ").trim();
+
+const digitsOf = (row: StitchableRow) =>
+  (row.bigScore || row.parsedScore?.toString() || "").replace(/[^\d]/g, "");
+
+const hasRank = (row: StitchableRow) =>
+  typeof row.rank === "number" && row.rank > 0;
+
+/**
+ * 0..1 likelihood that two reads are the same leaderboard row
+ */
+export const rowMatchScore = (a: StitchableRow, b: StitchableRow): number => {
+  // different ranks can never be the same row
+  if (hasRank(a) && hasRank(b) && a.rank !== b.rank) return 0;
+
+  const nameSim = similarity(normalizeName(a.parsedName), normalizeName(b.parsedName));
+  const da = digitsOf(a);
+  const db = digitsOf(b);
+  const scoreSim = da && db ? similarity(da, db) : 0;
+
+  let score = 0.5 * nameSim + 0.5 * scoreSim;
+  // same rank + one strong field is enough
+  if (hasRank(a) && hasRank(b) && (nameSim >= 0.6 || scoreSim >= 0.8)) {
+    score = Math.max(score, ROW_MATCH_THRESHOLD);
+  }
+  return score;
+};
+
+/**
+ * Largest k where the last k rows of `prev` line up with the first k rows of `next`
+ */
+export const findPageOverlap = (
+  prev: StitchableRow[],
+  next: StitchableRow[]
+): number => {
+  const maxK = Math.min(prev.length, next.length);
+
+  for (let k = maxK; k > 0; k--) {
+    let aligned = true;
+    for (let i = 0; i < k; i++) {
+      if (rowMatchScore(prev[prev.length - k + i], next[i]) < ROW_MATCH_THRESHOLD) {
+        aligned = false;
+        break;
+      }
+    }
+    if (aligned) return k;
+  }
+
+  return 0;
+};
+
+const mergeReads = <T extends StitchableRow>(
+  kept: StitchedRow<T>,
+  incoming: T
+): StitchedRow<T> => {
+  const prevInfo: StitchInfo = kept.stitch ?? {
+    sources: [kept.imageSource],
+    conflicts: [],
+  };
+
+  // highest confidence read wins, other reads stay visible as conflicts
+  const base: StitchedRow<T> =
+    (incoming.confidence ?? 0) > (kept.confidence ?? 0)
+      ? { ...incoming }
+      : { ...kept };
+
+  const conflicts: StitchConflict[] = [];
+  const addConflict = (field: StitchConflict["field"], a: string, b: string) => {
+    const existing = prevInfo.conflicts.find((c) => c.field === field);
+    conflicts.push({
+      field,
+      values: [...(existing?.values ?? [a]), b],
+    });
+  };
+
+  if (normalizeName(kept.parsedName) !== normalizeName(incoming.parsedName)) {
+    addConflict("name", kept.parsedName, incoming.parsedName);
+  }
+  if (digitsOf(kept) !== digitsOf(incoming)) {
+    addConflict("score", digitsOf(kept), digitsOf(incoming));
+  }
+  if (hasRank(kept) && hasRank(incoming) && kept.rank !== incoming.rank) {
+    addConflict("rank", String(kept.rank), String(incoming.rank));
+  }
+
+  // keep conflicts from earlier merges that this read agreed with
+  for (const c of prevInfo.conflicts) {
+    if (!conflicts.some((n) => n.field === c.field)) conflicts.push(c);
+  }
+
+  base.stitch = {
+    sources: [...prevInfo.sources, incoming.imageSource],
+    conflicts,
+  };
+  return base;
+};
+
+/**
+ * Stitch per-screenshot row lists (each top-to-bottom, pages in scroll order)
+ */
+export const stitchLeaderboardPages = <T extends StitchableRow>(
+  pages: T[][]
+): StitchResult<T> => {
+  const rows: StitchedRow<T>[] = [];
+  const overlaps: number[] = [];
+  let collapsed = 0;
+  let prevPage: T[] = [];
+
+  for (const page of pages) {
+    if (!page.length) continue;
+
+    const overlap = prevPage.length ? findPageOverlap(prevPage, page) : 0;
+    if (prevPage.length) overlaps.push(overlap);
+
+    // overlapping rows are the tail of what we already have
+    const start = rows.length - overlap;
+    for (let i = 0; i < overlap; i++) {
+      rows[start + i] = mergeReads(rows[start + i], page[i]);
+    }
+    rows.push(...page.slice(overlap));
+
+    collapsed += overlap;
+    prevPage = page;
+  }
+
+  return {
+    rows,
+    overlaps,
+    collapsed,
+    conflicted: rows.filter((r) => r.stitch?.conflicts.length).length,
+  };
+};
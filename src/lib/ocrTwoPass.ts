@@ -1,7 +1,31 @@
 // src/lib/ocrTwoPass.ts
 // Avalon leaderboard OCR – separator version (wider crops + contrast)
 
-import Tesseract from "tesseract.js";
+import type { PSM } from "tesseract.js";
+import {
+  OCRLayoutProfile,
+  columnToPixels,
+  getDefaultLayoutProfile,
+  getPreprocessChains,
+} from "@/lib/ocrLayoutProfiles";
+import {
+  PreprocessStage,
+  PreprocessStep,
+  runPreprocessChain,
+} from "@/lib/ocrPreprocess";
+import {
+  DigitConfidence,
+  cleanOCRName,
+  digitConfidencesFromPage,
+  parseRankText,
+} from "@/lib/ocrProcessing";
+import type { OCREngineRow } from "@/lib/ocrEngines";
+import {
+  OCRRunOptions,
+  buildLangString,
+  isOCRCancelled,
+  recognizeWithPool,
+} from "@/lib/ocrWorkerPool";
 
 /* ------------------------ tiny helpers ------------------------ */
 
@@ -45,43 +69,19 @@ const cropCanvas = (
   return out;
 };
 
-/**
- * quick contrast boost:
- *  - convert to gray
- *  - push dark pixels darker, light pixels lighter
- */
-const boostContrast = (canvas: HTMLCanvasElement): HTMLCanvasElement => {
-  const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
-  const { width, height } = canvas;
-  const imgData = ctx.getImageData(0, 0, width, height);
-  const data = imgData.data;
-
-  // simple linear boost tuned for beige/brown
-  const gain = 1.35;
-  for (let i = 0; i < data.length; i += 4) {
-    // gray
-    const g = data[i] * 0.3 + data[i + 1] * 0.59 + data[i + 2] * 0.11;
-    // center around 128 and stretch
-    let v = (g - 128) * gain + 128;
-    if (v < 0) v = 0;
-    if (v > 255) v = 255;
-    data[i] = data[i + 1] = data[i + 2] = v;
-  }
-
-  ctx.putImageData(imgData, 0, 0);
-  return canvas;
-};
-
 /* -------------------- separator detection --------------------- */
 
-const detectSeparatorLines = (canvas: HTMLCanvasElement): number[] => {
+export const detectSeparatorLines = (
+  canvas: HTMLCanvasElement,
+  darkThreshold = 90
+): number[] => {
   const h = canvas.height;
   const w = canvas.width;
   const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
   const data = ctx.getImageData(0, 0, w, h).data;
 
-  // we made this more forgiving
-  const DARK_THRESHOLD = 90;
+  // threshold comes from the layout profile (90 = the old forgiving default)
+  const DARK_THRESHOLD = darkThreshold;
   const MIN_RUN = 3;
 
   const seps: number[] = [];
@@ -162,86 +162,207 @@ const makeRowRects = (
   return rows.filter((r) => r.height > 26);
 };
 
+/* -------------------- trimmed row boxes ---------------------- */
+
+export interface RowBox {
+  /** top of the trimmed row inside the base canvas */
+  y: number;
+  height: number;
+}
+
+/**
+ * Detected separators + the trimmed row boxes the OCR pass will crop.
+ * Shared with the calibration tool so its overlay matches the real crops.
+ */
+export const computeRowBoxes = (
+  base: HTMLCanvasElement,
+  profile: OCRLayoutProfile
+): { separators: number[]; rows: RowBox[] } => {
+  const separators = detectSeparatorLines(base, profile.separatorThreshold);
+  const rowRects = makeRowRects(base, separators).slice(0, profile.maxRows);
+
+  const rows = rowRects.map((rect) => {
+    // take the raw row with a tiny outside pad
+    const padY = 2;
+    const rawY = Math.max(0, rect.y - padY);
+    const rawHeight = Math.min(
+      base.height - rect.y + padY,
+      rect.height + padY * 2
+    );
+
+    // hard-trim inside the row to drop the dark horizontal lines
+    const height = Math.max(
+      16,
+      rawHeight - profile.rowTopCut - profile.rowBottomCut
+    );
+    return { y: rawY + profile.rowTopCut, height };
+  });
+
+  return { separators, rows };
+};
+
+export interface RowPreprocessPreview {
+  /** whole screenshot after the image-level chain */
+  image: PreprocessStage[];
+  name: PreprocessStage[];
+  score: PreprocessStage[];
+  rank: PreprocessStage[];
+  rowCount: number;
+}
+
+/**
+ * Every intermediate canvas for one row (calibration debug view)
+ */
+export const previewRowPreprocessing = (
+  source: HTMLCanvasElement,
+  profile: OCRLayoutProfile,
+  rowIndex = 0
+): RowPreprocessPreview => {
+  const chains = getPreprocessChains(profile);
+  const image = runPreprocessChain(source, chains.image, { keepStages: true });
+  const base = image.canvas;
+  const { rows } = computeRowBoxes(base, profile);
+  const row = rows[Math.min(rowIndex, rows.length - 1)];
+  if (!row) {
+    return { image: image.stages, name: [], score: [], rank: [], rowCount: 0 };
+  }
+
+  const rowCanvas = cropCanvas(base, 0, row.y, base.width, row.height);
+  const crop = (column: OCRLayoutProfile["nameColumn"] | undefined) => {
+    if (!column) return null;
+    const { x, width } = columnToPixels(column, rowCanvas.width);
+    return cropCanvas(rowCanvas, x, 0, width, rowCanvas.height);
+  };
+  const stagesFor = (canvas: HTMLCanvasElement | null, steps: PreprocessStep[]) =>
+    canvas ? runPreprocessChain(canvas, steps, { keepStages: true }).stages : [];
+
+  return {
+    image: image.stages,
+    name: stagesFor(crop(profile.nameColumn), chains.name),
+    score: stagesFor(crop(profile.scoreColumn), chains.score),
+    rank: stagesFor(crop(profile.rankColumn), chains.rank),
+    rowCount: rows.length,
+  };
+};
+
 /* ----------------------- OCR wrapper -------------------------- */
 
 const recognizeCanvas = async (
   canvas: HTMLCanvasElement,
   psm: number,
-  allowlist?: string
-): Promise<{ text: string; confidence: number }> => {
-  // boost contrast before sending to tesseract
-  const boosted = boostContrast(canvas);
-  const dataUrl = boosted.toDataURL("image/png");
-
-  const { data } = await Tesseract.recognize(dataUrl, "eng", {
-    tessedit_pageseg_mode: psm,
-    tessedit_char_whitelist: allowlist,
-  } as any);
+  allowlist: string | undefined,
+  steps: PreprocessStep[],
+  { signal, langs, withDigits = false }: {
+    signal?: AbortSignal;
+    langs?: string;
+    /** also return per-digit confidences (symbol output) */
+    withDigits?: boolean;
+  } = {}
+): Promise<{
+  text: string;
+  confidence: number;
+  digits: DigitConfidence[];
+  /** what tesseract saw – digit boxes are in these pixels */
+  canvas: HTMLCanvasElement;
+}> => {
+  // the layout's preprocessing chain for this column
+  const prepared = runPreprocessChain(canvas, steps).canvas;
+  const dataUrl = prepared.toDataURL("image/png");
+
+  // runs on whichever pool worker is free
+  const data = await recognizeWithPool(
+    dataUrl,
+    {
+      tessedit_pageseg_mode: String(psm) as PSM,
+      tessedit_char_whitelist: allowlist ?? "",
+    },
+    {
+      signal,
+      langs,
+      output: withDigits ? { text: true, blocks: true } : undefined,
+    }
+  );
 
   return {
     text: data?.text || "",
     confidence: data?.confidence || 0,
+    digits: withDigits ? digitConfidencesFromPage(data) : [],
+    canvas: prepared,
   };
 };
 
 /* ----------------------- MAIN EXPORT -------------------------- */
 
-export const runAvalonLeaderboardOCR = async (file: File): Promise<any[]> => {
+/**
+ * Rows are recognized in parallel on the worker pool. When `options.signal`
+ * is aborted the rows that already finished are returned (in row order).
+ */
+export const runAvalonLeaderboardOCR = async (
+  file: File,
+  profile: OCRLayoutProfile = getDefaultLayoutProfile(),
+  options: OCRRunOptions = {}
+): Promise<OCREngineRow[]> => {
+  const { signal, onProgress, nameLanguages } = options;
+  const nameLangs = buildLangString(nameLanguages);
+  const chains = getPreprocessChains(profile);
   const img = await loadImageFromFile(file);
-  const base = imageToCanvas(img);
+  // image-level steps (rectify / deskew) run before the rows are found
+  const base = chains.image.length
+    ? runPreprocessChain(imageToCanvas(img), chains.image).canvas
+    : imageToCanvas(img);
 
-  // 1) detect rows
-  const seps = detectSeparatorLines(base);
-  const rowRects = makeRowRects(base, seps);
+  // 1) detect rows + 2) trim them (see computeRowBoxes)
+  const { rows } = computeRowBoxes(base, profile);
 
-  const out: any[] = [];
+  const out: Array<OCREngineRow | null> = new Array(rows.length).fill(null);
+  let done = 0;
+  onProgress?.({ done, total: rows.length });
 
-  for (const rect of rowRects) {
-    // 2) take the raw row with a tiny outside pad
-    const padY = 2;
-    const rawRow = cropCanvas(
-      base,
-      0,
-      Math.max(0, rect.y - padY),
-      base.width,
-      Math.min(base.height - rect.y + padY, rect.height + padY * 2)
-    );
-
-    // 3) hard-trim inside the row to drop the dark horizontal lines
-    const ROW_TOP_CUT = 8;     // bump to 6 if you still see the bar
-    const ROW_BOTTOM_CUT = 14;
-    const cleanRowHeight = Math.max(
-      16,
-      rawRow.height - ROW_TOP_CUT - ROW_BOTTOM_CUT
-    );
-    const rowCanvas = cropCanvas(
-      rawRow,
-      0,
-      ROW_TOP_CUT,
-      rawRow.width,
-      cleanRowHeight
-    );
+  const tasks = rows.map(async (row, idx) => {
+    // 3) crop the trimmed row
+    const rowCanvas = cropCanvas(base, 0, row.y, base.width, row.height);
 
     // 4) column crops (use the row width, not the base width)
     const totalW = rowCanvas.width;
-    const nameX = 4;
-    const nameW = Math.floor(totalW * 0.5);   // left half for names
+    const nameCol = columnToPixels(profile.nameColumn, totalW);
+    const scoreCol = columnToPixels(profile.scoreColumn, totalW);
 
-    const scoreW = Math.floor(totalW * 0.38); // right 38% for score
-    const scoreX = totalW - scoreW - 4;       // pull back a few px
-
-    const nameCanvas = cropCanvas(rowCanvas, nameX, 0, nameW, rowCanvas.height);
+    const nameCanvas = cropCanvas(
+      rowCanvas,
+      nameCol.x,
+      0,
+      nameCol.width,
+      rowCanvas.height
+    );
     const scoreCanvas = cropCanvas(
       rowCanvas,
-      scoreX,
+      scoreCol.x,
       0,
-      scoreW,
+      scoreCol.width,
       rowCanvas.height
     );
 
-    // 5) OCR
-    const nameRes = await recognizeCanvas(nameCanvas, 7 /* single line */);
-    const scoreRes = await recognizeCanvas(scoreCanvas, 7, "0123456789,");
+    const rankCol = profile.rankColumn
+      ? columnToPixels(profile.rankColumn, totalW)
+      : null;
+    const rankCanvas = rankCol
+      ? cropCanvas(rowCanvas, rankCol.x, 0, rankCol.width, rowCanvas.height)
+      : undefined;
+
+    // 5) OCR (all crops of the row queue at once)
+    const [nameRes, scoreRes, rankRes] = await Promise.all([
+      recognizeCanvas(nameCanvas, 7 /* single line */, undefined, chains.name, {
+        signal,
+        langs: nameLangs,
+      }),
+      recognizeCanvas(scoreCanvas, 7, "0123456789,", chains.score, {
+        signal,
+        withDigits: true,
+      }),
+      rankCanvas
+        ? recognizeCanvas(rankCanvas, 7, "0123456789", chains.rank, { signal })
+        : Promise.resolve(null),
+    ]);
 
     // 6) normalize score
     const rawScore = (scoreRes.text || "").replace(/\s+/g, "");
@@ -250,31 +371,53 @@ export const runAvalonLeaderboardOCR = async (file: File): Promise<any[]> => {
 
     // 7) combined confidence (bias to name)
     const nameConf = (nameRes.confidence || 0) / 100;
-    const scoreConf = (scoreRes.confidence || 0) / 100;
+    // one doubtful digit makes the whole score doubtful
+    const lineScoreConf = (scoreRes.confidence || 0) / 100;
+    const scoreConf = scoreRes.digits.length
+      ? Math.min(lineScoreConf, ...scoreRes.digits.map((d) => d.confidence))
+      : lineScoreConf;
     const combined = Math.min(1, nameConf * 0.7 + scoreConf * 0.3);
 
-    // 8) push row
-    out.push({
-      parsedName: (nameRes.text || "").trim(),
+    // 8) store row in its slot
+    out[idx] = {
+      parsedName: cleanOCRName(nameRes.text),
       parsedScore,
       bigScore: digitsOnly || "0",
+      rank: rankRes ? parseRankText(rankRes.text) : null,
       confidence: combined,
       rawText: `${nameRes.text || ""} | ${scoreRes.text || ""}`,
       imageSource: file.name,
       metadata: {
         nameConfidence: nameConf,
         scoreConfidence: scoreConf,
+        rankConfidence: rankRes ? (rankRes.confidence || 0) / 100 : undefined,
         rawScoreText: rawScore,
-        nameCanvas,
-        scoreCanvas,
+        // only usable when it lines up with the digits we kept
+        digitConfidences:
+          scoreRes.digits.length === digitsOnly.length ? scoreRes.digits : undefined,
+        nameCanvas: nameRes.canvas,
+        scoreCanvas: scoreRes.canvas,
+        rankCanvas: rankRes?.canvas,
         originalWidth: base.width,
         originalHeight: base.height,
         processedWidth: base.width,
         processedHeight: base.height,
         scaleFactor: 1,
+        layoutProfileId: profile.id,
       },
-    });
-  }
+    };
 
-  return out;
+    done++;
+    onProgress?.({ done, total: rows.length });
+  });
+
+  const settled = await Promise.allSettled(tasks);
+  const failure = settled.find(
+    (r): r is PromiseRejectedResult =>
+      r.status === "rejected" && !isOCRCancelled(r.reason)
+  );
+  if (failure) throw failure.reason;
+
+  // cancelled rows leave holes – keep the finished ones
+  return out.filter((r): r is OCREngineRow => r !== null);
 };
@@ -0,0 +1,76 @@
+// src/lib/ocrValidation.ts
+// Cross-row sanity checks for OCR'd leaderboards
+
+export interface RankedScoreRow {
+  rank?: number | null;
+  bigScore?: string;
+  parsedScore?: number;
+}
+
+const scoreOf = (row: RankedScoreRow): bigint | null => {
+  const digits = (row.bigScore || row.parsedScore?.toString() || "").replace(
+    /[^\d]/g,
+    ""
+  );
+  if (!digits || /^0+$/.test(digits)) return null;
+  return BigInt(digits);
+};
+
+const formatScore = (n: bigint) =>
+  n.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+
+/**
+ * Leaderboards are sorted by score, so a better rank must never have a
+ * lower score than the rank below it – when it does, one of the two reads
+ * almost always has a misread digit. Duplicate ranks are flagged too.
+ *
+ * Returns row index → error message. Rows without a rank (or score) are skipped.
+ */
+export const validateRankOrder = (
+  rows: RankedScoreRow[]
+): Map<number, string> => {
+  const errors = new Map<number, string>();
+
+  const ranked = rows
+    .map((row, index) => ({ index, rank: row.rank, score: scoreOf(row) }))
+    .filter(
+      (r): r is { index: number; rank: number; score: bigint | null } =>
+        typeof r.rank === "number" && r.rank > 0
+    )
+    .sort((a, b) => a.rank - b.rank);
+
+  const addError = (index: number, message: string) => {
+    const existing = errors.get(index);
+    errors.set(index, existing ? `${existing}; ${message}` : message);
+  };
+
+  for (let i = 1; i < ranked.length; i++) {
+    const above = ranked[i - 1];
+    const below = ranked[i];
+
+    if (above.rank === below.rank) {
+      addError(above.index, `Rank #${above.rank} appears more than once`);
+      addError(below.index, `Rank #${below.rank} appears more than once`);
+      continue;
+    }
+
+    if (above.score === null || below.score === null) continue;
+
+    if (above.score < below.score) {
+      addError(
+        above.index,
+        `Rank #${above.rank} has a lower score than #${below.rank} (${formatScore(
+          below.score
+        )}) – likely a misread digit`
+      );
+      addError(
+        below.index,
+        `Rank #${below.rank} has a higher score than #${above.rank} (${formatScore(
+          above.score
+        )}) – likely a misread digit`
+      );
+    }
+  }
+
+  return errors;
+};
@@ -0,0 +1,218 @@
+// src/lib/ocrWorkerPool.ts
+// Pool of Tesseract workers shared by every OCR pipeline.
+// Jobs queue up here and run on whichever worker is idle, so crops from
+// one screenshot are recognized in parallel and the tab stays responsive.
+
+import {
+  createWorker,
+  ImageLike,
+  OutputFormats,
+  Page,
+  Worker,
+  WorkerParams,
+} from "tesseract.js";
+
+// tesseract workers are memory hungry – never more than this
+const MAX_POOL_SIZE = 4;
+
+export const DEFAULT_OCR_LANGS = "eng";
+// extra .traineddata files are served from public/tessdata (see README)
+export const LOCAL_TESSDATA_PATH = "/tessdata";
+
+export interface OCRProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Options every leaderboard OCR pipeline accepts
+ */
+export interface OCRRunOptions {
+  signal?: AbortSignal;
+  /** per-row progress for one screenshot */
+  onProgress?: (progress: OCRProgress) => void;
+  /** extra tesseract models for the name column, e.g. ["kor", "rus"] */
+  nameLanguages?: string[];
+}
+
+export interface RecognizeOptions {
+  signal?: AbortSignal;
+  output?: Partial<OutputFormats>;
+  /** tesseract language string, e.g. "eng+kor" */
+  langs?: string;
+}
+
+interface PoolSlot {
+  worker: Promise<Worker>;
+  langs: string;
+  busy: boolean;
+}
+
+interface QueuedJob {
+  run: (worker: Worker) => Promise<void>;
+  fail: (err: unknown) => void;
+  signal?: AbortSignal;
+  langs: string;
+}
+
+let slots: PoolSlot[] = [];
+let queue: QueuedJob[] = [];
+
+/**
+ * Workers to spin up: leave one core for the UI thread
+ */
+export const getPoolSize = (): number => {
+  const cores =
+    typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_POOL_SIZE, cores - 1));
+};
+
+export const createCancelledError = () =>
+  new DOMException("OCR cancelled", "AbortError");
+
+export const isOCRCancelled = (err: unknown): boolean =>
+  err instanceof DOMException && err.name === "AbortError";
+
+/**
+ * "eng" + extra models, deduped, in tesseract's "a+b" form
+ */
+export const buildLangString = (extra: string[] = []): string =>
+  Array.from(new Set([DEFAULT_OCR_LANGS, ...extra.filter(Boolean)])).join("+");
+
+// eng alone comes from the CDN as before; anything else must be local
+const workerOptions = (langs: string) =>
+  langs === DEFAULT_OCR_LANGS
+    ? {}
+    : { langPath: LOCAL_TESSDATA_PATH, gzip: false };
+
+const spawnWorker = (langs = DEFAULT_OCR_LANGS) =>
+  createWorker(langs, undefined, workerOptions(langs));
+
+const ensureSlots = () => {
+  if (slots.length) return;
+  slots = Array.from({ length: getPoolSize() }, () => ({
+    worker: spawnWorker(),
+    langs: DEFAULT_OCR_LANGS,
+    busy: false,
+  }));
+};
+
+// switch an idle slot to other models (slow – only when no job matches).
+// The lang path is fixed per worker, so it is replaced instead of reinitialized.
+const switchLangs = (slot: PoolSlot, langs: string) => {
+  slot.worker.then((w) => w.terminate()).catch(() => undefined);
+  slot.langs = langs;
+  slot.worker = spawnWorker(langs);
+};
+
+// prefer a job the slot can run without reloading models
+const takeJob = (slot: PoolSlot): QueuedJob | undefined => {
+  const idx = queue.findIndex((j) => j.langs === slot.langs);
+  const [job] = queue.splice(idx >= 0 ? idx : 0, 1);
+  return job;
+};
+
+const pump = () => {
+  for (const slot of slots) {
+    if (slot.busy) continue;
+
+    let job = takeJob(slot);
+    // drop jobs cancelled while they were waiting
+    while (job?.signal?.aborted) {
+      job.fail(createCancelledError());
+      job = takeJob(slot);
+    }
+    if (!job) return;
+
+    const current = job;
+    if (slot.langs !== current.langs) switchLangs(slot, current.langs);
+
+    slot.busy = true;
+    slot.worker
+      .then(current.run, (err) => {
+        // worker failed to boot (or a model file is missing) –
+        // retry with a fresh one next time
+        slot.worker = spawnWorker(slot.langs);
+        current.fail(err);
+      })
+      .finally(() => {
+        slot.busy = false;
+        pump();
+      });
+  }
+};
+
+/**
+ * Queue one recognize call. Params are applied to the worker right before
+ * the job runs, so jobs with different whitelists / PSMs can share the pool.
+ */
+export const recognizeWithPool = (
+  image: ImageLike,
+  params: Partial<WorkerParams> = {},
+  { signal, output, langs = DEFAULT_OCR_LANGS }: RecognizeOptions = {}
+): Promise<Page> => {
+  if (signal?.aborted) return Promise.reject(createCancelledError());
+  ensureSlots();
+
+  return new Promise<Page>((resolve, reject) => {
+    // the signal is shared by the whole batch – drop the listener as soon as
+    // this job settles so it doesn't keep the image alive until the batch ends
+    const onAbort = () => {
+      // still waiting in the queue → cancel right away
+      const idx = queue.indexOf(job);
+      if (idx >= 0) {
+        queue.splice(idx, 1);
+        fail(createCancelledError());
+      }
+    };
+    const succeed = (page: Page) => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve(page);
+    };
+    const fail = (err: unknown) => {
+      signal?.removeEventListener("abort", onAbort);
+      reject(err);
+    };
+
+    const job: QueuedJob = {
+      signal,
+      langs,
+      fail,
+      run: async (worker) => {
+        if (signal?.aborted) {
+          fail(createCancelledError());
+          return;
+        }
+        try {
+          await worker.setParameters(params);
+          const { data } = await worker.recognize(image, {}, output);
+          succeed(data);
+        } catch (err) {
+          fail(err);
+        }
+      },
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    queue.push(job);
+    pump();
+  });
+};
+
+/**
+ * Shut every worker down (queued jobs are cancelled)
+ */
+export const terminateOCRPool = async () => {
+  const pending = queue;
+  queue = [];
+  pending.forEach((job) => job.fail(createCancelledError()));
+
+  const old = slots;
+  slots = [];
+  await Promise.all(
+    old.map((slot) =>
+      slot.worker.then((w) => w.terminate()).catch(() => undefined)
+    )
+  );
+};
@@ -0,0 +1,166 @@
+// src/lib/playerMatching.ts
+// Match OCR'd names against the roster (canonical names + aliases).
+// Candidates are scored by edit distance on the plain name and on an
+// "OCR skeleton" where look-alike characters collapse to one form.
+
+import { supabase } from "@/integrations/supabase/client";
+import { similarity } from "./textSimilarity";
+
+export interface MatchablePlayer {
+  id: string;
+  canonical_name: string;
+  aliases: string[] | null;
+}
+
+export interface PlayerCandidate<T extends MatchablePlayer = MatchablePlayer> {
+  player: T;
+  /** 0..1, 1 = exact name or alias */
+  score: number;
+  /** the canonical name or alias that matched best */
+  matchedOn: string;
+}
+
+// below this a candidate isn't worth showing
+const MIN_CANDIDATE_SCORE = 0.6;
+// auto-link only when the best candidate is this close …
+const AUTO_MATCH_SCORE = 0.85;
+// … and clearly ahead of the next player
+const AUTO_MATCH_MARGIN = 0.05;
+
+// characters tesseract mixes up, mapped to one representative
+const OCR_CONFUSIONS: [RegExp, string][] = [
+  [/rn/g, "m"],
+  [/vv/g, "w"],
+  [/[0oq]/g, "o"],
+  [/[1il|!]/g, "l"],
+  [/[5s$]/g, "s"],
+  [/[8b]/g, "b"],
+  [/[2z]/g, "z"],
+];
+
+// NFKC keeps CJK / Hangul / accents but folds full-width and ligature forms
+export const normalizePlayerName = (s: string) =>
+  s
+    .normalize("NFKC")
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, " ");
+
+/**
+ * Lowercase, strip accents / full-width forms and decoration
+ * (underscores, dots, spaces) but keep letters of any script
+ */
+export const foldPlayerName = (s: string) =>
+  s
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}|!$]/gu, "");
+
+/**
+ * Folded name with OCR look-alikes collapsed (Dr4gon → dragon is still an
+ * edit, but K4i / Kai and rn / m are not)
+ */
+export const ocrSkeleton = (s: string) =>
+  OCR_CONFUSIONS.reduce((acc, [re, to]) => acc.replace(re, to), foldPlayerName(s));
+
+const scoreName = (name: string, candidate: string): number => {
+  if (normalizePlayerName(name) === normalizePlayerName(candidate)) return 1;
+
+  const a = foldPlayerName(name);
+  const b = foldPlayerName(candidate);
+  if (!a || !b) return 0;
+  if (a === b) return 0.98;
+
+  const skA = ocrSkeleton(name);
+  const skB = ocrSkeleton(candidate);
+  if (skA === skB) return 0.95;
+
+  let best = Math.max(similarity(a, b), similarity(skA, skB) * 0.97);
+
+  // truncated reads ("DragonSla") – only trust reasonably long prefixes
+  if (a.length >= 4 && b.startsWith(a)) {
+    best = Math.max(best, 0.8 + 0.1 * (a.length / b.length));
+  }
+
+  return best;
+};
+
+/**
+ * Best roster candidates for an OCR'd name, highest score first
+ */
+export const rankPlayerCandidates = <T extends MatchablePlayer>(
+  name: string,
+  players: T[],
+  limit = 3
+): PlayerCandidate<T>[] => {
+  if (!name.trim()) return [];
+
+  const candidates: PlayerCandidate<T>[] = [];
+  for (const player of players) {
+    let best: PlayerCandidate<T> | null = null;
+    for (const option of [player.canonical_name, ...(player.aliases || [])]) {
+      const score = scoreName(name, option);
+      if (!best || score > best.score) best = { player, score, matchedOn: option };
+    }
+    if (best && best.score >= MIN_CANDIDATE_SCORE) candidates.push(best);
+  }
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+/**
+ * Best candidate when it is confident and unambiguous, otherwise null
+ */
+export const matchPlayerLocal = <T extends MatchablePlayer>(
+  name: string,
+  players: T[]
+): T | null => {
+  const [top, next] = rankPlayerCandidates(name, players, 2);
+  if (!top || top.score < AUTO_MATCH_SCORE) return null;
+  if (top.score < 1 && next && top.score - next.score < AUTO_MATCH_MARGIN) {
+    return null;
+  }
+  return top.player;
+};
+
+/**
+ * true when the name is already the player's canonical name or an alias
+ */
+export const isKnownName = (name: string, player: MatchablePlayer) => {
+  const n = normalizePlayerName(name);
+  return [player.canonical_name, ...(player.aliases || [])].some(
+    (option) => normalizePlayerName(option) === n
+  );
+};
+
+/**
+ * Remember an OCR spelling as an alias so it matches exactly next time
+ */
+export const addPlayerAlias = async (
+  playerId: string,
+  alias: string
+): Promise<string[]> => {
+  const trimmed = alias.trim();
+
+  const { data, error } = await supabase
+    .from("players")
+    .select("aliases")
+    .eq("id", playerId)
+    .single();
+  if (error) throw error;
+
+  const aliases = data.aliases || [];
+  if (aliases.some((a) => normalizePlayerName(a) === normalizePlayerName(trimmed))) {
+    return aliases;
+  }
+
+  const next = [...aliases, trimmed];
+  const { error: updateError } = await supabase
+    .from("players")
+    .update({ aliases: next })
+    .eq("id", playerId);
+  if (updateError) throw updateError;
+
+  return next;
+};
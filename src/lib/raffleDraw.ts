@@ -0,0 +1,275 @@
+// src/lib/raffleDraw.ts
+// Raffle draws run on the server (draw_raffle) from a seed whose sha256 is
+// published before the draw (commit_raffle_seed). Each draw stores the seed,
+// the prize tiers and the weighted pool it drew from, and replayRaffleDraw
+// recomputes the winners from them so anyone can check the result.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+
+// v1: one prize list, one win per player. v2: prize tiers drawn in order with
+// the counter running on across tiers – v1 is v2 with a single tier.
+const RAFFLE_DRAW_ALGORITHMS = new Set(["sha256-v1", "sha256-v2"]);
+
+export const DEFAULT_PRIZE_AMOUNT = 25000000; // 25M medals per win
+
+export interface RafflePoolEntry {
+  player_id: string;
+  name: string;
+  /** from the raffle's weight formula */
+  entries: number;
+}
+
+export interface RaffleDrawWinner extends RafflePoolEntry {
+  prize_amount: number;
+  /** null on draws from before tiers */
+  tier_id: string | null;
+  tier_name: string | null;
+  medal_id: string | null;
+}
+
+export interface RaffleDrawTier {
+  tier_id: string | null;
+  name: string;
+  medal_id: string | null;
+  prize_count: number;
+  prize_amount: number;
+}
+
+export interface RaffleTierInput {
+  name: string;
+  medal_id: string;
+  prize_count: number;
+  prize_amount: number;
+}
+
+export interface ReplayedWin {
+  player_id: string;
+  tier_id: string | null;
+}
+
+export interface RaffleDrawRecord {
+  id: string;
+  raffleId: string;
+  algorithm: string;
+  seed: string;
+  seedHash: string;
+  seedCommittedAt: string;
+  /** in the order the draw walked it */
+  pool: RafflePoolEntry[];
+  /** in draw order */
+  tiers: RaffleDrawTier[];
+  /** once per tier instead of once per raffle */
+  allowMultipleWins: boolean;
+  /** first winner first */
+  winners: RaffleDrawWinner[];
+  totalPrizes: number;
+  weightFormula: string;
+  drawnAt: string;
+  /** undone in the audit log – the raffle was redrawn (or is pending again) */
+  rolledBack: boolean;
+}
+
+export interface RaffleDrawVerification {
+  seedMatchesHash: boolean;
+  winnersMatch: boolean;
+  replayed: ReplayedWin[];
+}
+
+type Obj = Record<string, unknown>;
+
+const asObj = (v: unknown): Obj => (v && typeof v === "object" && !Array.isArray(v) ? (v as Obj) : {});
+
+const toPoolEntry = (v: unknown): RafflePoolEntry => {
+  const o = asObj(v);
+  return {
+    player_id: String(o.player_id ?? ""),
+    name: typeof o.name === "string" ? o.name : "Unknown",
+    entries: Number(o.entries ?? 0),
+  };
+};
+
+const str = (v: unknown): string | null => (typeof v === "string" ? v : null);
+
+const toWinner = (v: unknown): RaffleDrawWinner => {
+  const o = asObj(v);
+  return {
+    ...toPoolEntry(v),
+    prize_amount: Number(o.prize_amount ?? 0),
+    tier_id: str(o.tier_id),
+    tier_name: str(o.tier_name),
+    medal_id: str(o.medal_id),
+  };
+};
+
+const toTier = (v: unknown): RaffleDrawTier => {
+  const o = asObj(v);
+  return {
+    tier_id: str(o.tier_id),
+    name: str(o.name) ?? "",
+    medal_id: str(o.medal_id),
+    prize_count: Number(o.prize_count ?? 0),
+    prize_amount: Number(o.prize_amount ?? 0),
+  };
+};
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+/**
+ * Create a raffle with its prize tiers (drawn in the given order)
+ */
+export const createRaffle = async (
+  eventId: string,
+  raffle: {
+    name: string;
+    tiers: RaffleTierInput[];
+    weightFormula: string;
+    weightParams: unknown;
+    allowMultipleWins: boolean;
+  }
+): Promise<string> => {
+  const { data, error } = await supabase.rpc("create_raffle", {
+    event_uuid: eventId,
+    raffle_name: raffle.name,
+    tiers: raffle.tiers as unknown as Json,
+    weight_formula: raffle.weightFormula,
+    weight_params: raffle.weightParams as Json,
+    allow_multiple_wins: raffle.allowMultipleWins,
+  });
+  if (error) throw error;
+  return String(data ?? "");
+};
+
+/**
+ * Pick a secret seed for a pending raffle and publish its hash
+ */
+export const commitRaffleSeed = async (raffleId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc("commit_raffle_seed", { raffle_uuid: raffleId });
+  if (error) throw error;
+  return String(asObj(data).seed_hash ?? "");
+};
+
+/**
+ * Draw every tier with the committed seed – entries, prizes (ledger), weights,
+ * history and event totals are written together or not at all
+ */
+export const drawRaffle = async (
+  raffleId: string
+): Promise<{ drawId: string; batchOperationId: string; winners: RaffleDrawWinner[] }> => {
+  const { data, error } = await supabase.rpc("draw_raffle", {
+    raffle_uuid: raffleId,
+  });
+  if (error) throw error;
+
+  const result = asObj(data);
+  return {
+    drawId: String(result.draw_id ?? ""),
+    batchOperationId: String(result.batch_operation_id ?? ""),
+    winners: Array.isArray(result.winners) ? result.winners.map(toWinner) : [],
+  };
+};
+
+const toDrawRecord = (data: Tables<"raffle_draws">): Omit<RaffleDrawRecord, "rolledBack"> => {
+  const tiers = Array.isArray(data.tiers) ? data.tiers.map(toTier) : [];
+  return {
+    id: data.id,
+    raffleId: data.raffle_id,
+    algorithm: data.algorithm,
+    seed: data.seed,
+    seedHash: data.seed_hash,
+    seedCommittedAt: data.seed_committed_at,
+    pool: Array.isArray(data.pool) ? data.pool.map(toPoolEntry) : [],
+    // v1 draws had one untiered prize list
+    tiers:
+      tiers.length > 0
+        ? tiers
+        : [{ tier_id: null, name: "", medal_id: null, prize_count: data.total_prizes, prize_amount: 0 }],
+    allowMultipleWins: data.allow_multiple_wins,
+    winners: Array.isArray(data.winners) ? data.winners.map(toWinner) : [],
+    totalPrizes: data.total_prizes,
+    weightFormula: data.weight_formula,
+    drawnAt: data.drawn_at,
+  };
+};
+
+/**
+ * Every draw of a raffle, newest first. A rolled back raffle is redrawn with
+ * the same seed, so its earlier draws stay here next to the current one.
+ */
+export const fetchRaffleDraws = async (raffleId: string): Promise<RaffleDrawRecord[]> => {
+  const { data, error } = await supabase
+    .from("raffle_draws")
+    .select("*, batch_operations(status)")
+    .eq("raffle_id", raffleId)
+    .order("drawn_at", { ascending: false });
+  if (error) throw error;
+
+  return (data ?? []).map((draw) => ({
+    ...toDrawRecord(draw),
+    rolledBack: draw.batch_operations?.status === "rolled_back",
+  }));
+};
+
+/**
+ * Same steps as draw_raffle. Tiers are drawn in order and k counts every
+ * prize drawn so far: sha256(seed + ":" + k), first 15 hex digits mod the
+ * entries of the players still in the running, then walk the pool until the
+ * running total passes that number. A winner leaves the running for the rest
+ * of the raffle, or only for the rest of the tier with allowMultipleWins.
+ */
+export const replayRaffleDraw = async (
+  seed: string,
+  pool: RafflePoolEntry[],
+  tiers: Pick<RaffleDrawTier, "tier_id" | "prize_count">[],
+  allowMultipleWins: boolean
+): Promise<ReplayedWin[]> => {
+  const wins: ReplayedWin[] = [];
+  let k = 0;
+
+  for (const tier of tiers) {
+    const excluded = new Set(
+      wins.filter((w) => !allowMultipleWins || w.tier_id === tier.tier_id).map((w) => w.player_id)
+    );
+
+    for (let i = 0; i < tier.prize_count; i++) {
+      const running = pool.filter((p) => !excluded.has(p.player_id));
+      const total = running.reduce((sum, p) => sum + BigInt(p.entries), 0n);
+      if (total === 0n) break;
+
+      const hash = await sha256Hex(`${seed}:${k}`);
+      const pick = BigInt("0x" + hash.slice(0, 15)) % total;
+
+      let cumulative = 0n;
+      const winner = running.find((p) => {
+        cumulative += BigInt(p.entries);
+        return cumulative > pick;
+      })!;
+      wins.push({ player_id: winner.player_id, tier_id: tier.tier_id });
+      excluded.add(winner.player_id);
+      k++;
+    }
+  }
+
+  return wins;
+};
+
+export const verifyRaffleDraw = async (draw: RaffleDrawRecord): Promise<RaffleDrawVerification> => {
+  if (!RAFFLE_DRAW_ALGORITHMS.has(draw.algorithm)) {
+    throw new Error(`Unknown draw algorithm: ${draw.algorithm}`);
+  }
+
+  const seedMatchesHash = (await sha256Hex(draw.seed)) === draw.seedHash;
+  const replayed = await replayRaffleDraw(draw.seed, draw.pool, draw.tiers, draw.allowMultipleWins);
+  const winnersMatch =
+    replayed.length === draw.winners.length &&
+    replayed.every(
+      (w, i) => w.player_id === draw.winners[i].player_id && w.tier_id === draw.winners[i].tier_id
+    );
+
+  return { seedMatchesHash, winnersMatch, replayed };
+};
@@ -0,0 +1,99 @@
+// src/lib/raffleSeries.ts
+// Raffle series: events in a series hand their raffle carryover to the next
+// one. A raffle_weights row is what a player leaves an event with; what they
+// bring into an event is the entries_next of the latest earlier event in the
+// same series (raffle_carryover on the server).
+
+import { supabase } from "@/integrations/supabase/client";
+
+export interface RaffleSeries {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+}
+
+export interface RaffleCarryover {
+  entries: number;
+  /** event the entries were carried over from */
+  fromEventId: string;
+}
+
+export interface RaffleChainLink {
+  id: string;
+  eventId: string;
+  eventName: string;
+  eventDate: string;
+  previousEventId: string | null;
+  previousEventName: string | null;
+  entriesBefore: number;
+  entriesAfter: number;
+  reason: string | null;
+  createdAt: string | null;
+}
+
+export const fetchRaffleSeries = async (): Promise<RaffleSeries[]> => {
+  const { data, error } = await supabase
+    .from("raffle_series")
+    .select("id, name, description, is_default")
+    .order("is_default", { ascending: false })
+    .order("name");
+  if (error) throw error;
+  return data ?? [];
+};
+
+/**
+ * Entries each player brings into the event from earlier events of its series
+ */
+export const fetchRaffleCarryover = async (eventId: string): Promise<Map<string, RaffleCarryover>> => {
+  const { data, error } = await supabase.rpc("raffle_carryover", { event_uuid: eventId });
+  if (error) throw error;
+  return new Map(
+    (data ?? []).map((row) => [row.player_id, { entries: row.entries, fromEventId: row.from_event_id }])
+  );
+};
+
+/**
+ * A player's weight history across the events of a series, oldest first
+ */
+export const fetchRaffleChain = async (seriesId: string, playerId: string): Promise<RaffleChainLink[]> => {
+  const { data, error } = await supabase
+    .from("raffle_entries_history")
+    .select(
+      "id, event_id, previous_event_id, entries_before, entries_after, reason, created_at, " +
+        "event:events!raffle_entries_history_event_id_fkey(name, event_date), " +
+        "previous:events!raffle_entries_history_previous_event_id_fkey(name)"
+    )
+    .eq("series_id", seriesId)
+    .eq("player_id", playerId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+
+  type Row = {
+    id: string;
+    event_id: string;
+    previous_event_id: string | null;
+    entries_before: number;
+    entries_after: number;
+    reason: string | null;
+    created_at: string | null;
+    event: { name: string; event_date: string } | null;
+    previous: { name: string } | null;
+  };
+
+  return ((data ?? []) as unknown as Row[])
+    .map((row) => ({
+      id: row.id,
+      eventId: row.event_id,
+      eventName: row.event?.name ?? "Unknown event",
+      eventDate: row.event?.event_date ?? "",
+      previousEventId: row.previous_event_id,
+      previousEventName: row.previous?.name ?? null,
+      entriesBefore: row.entries_before,
+      entriesAfter: row.entries_after,
+      reason: row.reason,
+      createdAt: row.created_at,
+    }))
+    // by event first: a reweight of an old event is still part of that week
+    .sort((a, b) => a.eventDate.localeCompare(b.eventDate) || (a.createdAt ?? "").localeCompare(b.createdAt ?? ""));
+};
@@ -0,0 +1,158 @@
+// src/lib/raffleWeights.ts
+// Raffle weight formulas. Entries are computed on the server (raffle_pool),
+// the same function the draw uses, so the odds previewed before a raffle is
+// saved are the odds it is drawn with.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type RaffleWeightFormula =
+  | "flat"
+  | "carryover"
+  | "score_tiered"
+  | "log_score"
+  | "participation_streak";
+
+export interface ScoreTier {
+  /** digits only – raw scores go past Number.MAX_SAFE_INTEGER */
+  min_score: string;
+  entries: number;
+}
+
+export interface RaffleWeightParams {
+  tiers?: ScoreTier[];
+  /** log_score / participation_streak only; empty = no cap */
+  max_entries?: number;
+}
+
+export const RAFFLE_WEIGHT_FORMULAS: Record<RaffleWeightFormula, { label: string; description: string }> = {
+  flat: {
+    label: "Flat",
+    description: "Every qualified player gets 1 entry.",
+  },
+  carryover: {
+    label: "Carryover",
+    description: "1 entry plus 1 for every earlier raffle the player qualified for and missed.",
+  },
+  score_tiered: {
+    label: "Score tiers",
+    description: "Entries of the highest bracket the player's raw score reaches (1 below every bracket).",
+  },
+  log_score: {
+    label: "Log of score",
+    description: "1 entry plus 1 each time the score doubles past the raffle minimum.",
+  },
+  participation_streak: {
+    label: "Participation streak",
+    description: "1 entry per consecutive event of the raffle series played, this one included.",
+  },
+};
+
+export const DEFAULT_RAFFLE_WEIGHT_FORMULA: RaffleWeightFormula = "carryover";
+
+export const isRaffleWeightFormula = (v: string): v is RaffleWeightFormula =>
+  Object.prototype.hasOwnProperty.call(RAFFLE_WEIGHT_FORMULAS, v);
+
+export interface RafflePoolPreviewRow {
+  player_id: string;
+  name: string;
+  raw_score: string;
+  carryover: number;
+  streak: number;
+  entries: number;
+}
+
+export interface RaffleOdds extends RafflePoolPreviewRow {
+  /** chance of being picked for the first prize */
+  perDraw: number;
+  /** chance of winning at least one prize (estimated when there are several) */
+  winChance: number;
+}
+
+const isPreviewRow = (v: unknown): v is RafflePoolPreviewRow =>
+  !!v &&
+  typeof v === "object" &&
+  typeof (v as RafflePoolPreviewRow).player_id === "string" &&
+  typeof (v as RafflePoolPreviewRow).entries === "number";
+
+/**
+ * Qualified players and their entries for a formula, without saving anything
+ */
+export const previewRafflePool = async (
+  eventId: string,
+  medalId: string,
+  formula: RaffleWeightFormula,
+  params: RaffleWeightParams
+): Promise<RafflePoolPreviewRow[]> => {
+  const { data, error } = await supabase.rpc("preview_raffle_pool", {
+    event_uuid: eventId,
+    medal_uuid: medalId,
+    formula,
+    params: params as unknown as Json,
+  });
+  if (error) throw error;
+  return Array.isArray(data) ? (data as unknown[]).filter(isPreviewRow) : [];
+};
+
+// small seeded PRNG so the estimate doesn't jitter between renders
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const SIMULATED_DRAWS = 4000;
+
+/**
+ * Odds per player. A single prize is exact (entries / total); otherwise
+ * winners leave the running, so the chance of winning at least one prize is
+ * estimated by simulating the draw tier by tier.
+ */
+export const estimateRaffleOdds = (
+  pool: RafflePoolPreviewRow[],
+  tierPrizeCounts: number[],
+  allowMultipleWins = false
+): RaffleOdds[] => {
+  const total = pool.reduce((sum, p) => sum + p.entries, 0);
+  if (total === 0) return [];
+
+  const perDraw = pool.map((p) => p.entries / total);
+  const prizes = tierPrizeCounts.reduce((sum, n) => sum + Math.max(0, n), 0);
+
+  if (prizes <= 1) {
+    return pool.map((p, i) => ({ ...p, perDraw: perDraw[i], winChance: prizes === 1 ? perDraw[i] : 0 }));
+  }
+
+  const wins = new Array<number>(pool.length).fill(0);
+  const random = mulberry32(pool.length * 31 + prizes);
+
+  for (let run = 0; run < SIMULATED_DRAWS; run++) {
+    const wonRaffle = new Set<number>();
+    for (const count of tierPrizeCounts) {
+      const taken = allowMultipleWins ? new Set<number>() : wonRaffle;
+      let remaining = pool.reduce((sum, p, idx) => (taken.has(idx) ? sum : sum + p.entries), 0);
+
+      for (let k = 0; k < count && remaining > 0; k++) {
+        let pick = random() * remaining;
+        let idx = 0;
+        for (; idx < pool.length; idx++) {
+          if (taken.has(idx)) continue;
+          pick -= pool[idx].entries;
+          if (pick < 0) break;
+        }
+        // float rounding can run past the end – take the last one left
+        if (idx >= pool.length) {
+          idx = pool.length - 1;
+          while (taken.has(idx)) idx--;
+        }
+        taken.add(idx);
+        wonRaffle.add(idx);
+        remaining -= pool[idx].entries;
+      }
+    }
+    wonRaffle.forEach((idx) => wins[idx]++);
+  }
+
+  return pool.map((p, i) => ({ ...p, perDraw: perDraw[i], winChance: wins[i] / SIMULATED_DRAWS }));
+};
@@ -0,0 +1,240 @@
+// src/lib/reviewSessions.ts
+// Server-side draft review sessions: the OCR rows being reviewed live in
+// ocr_rows (session_id) so a review can be resumed or shared by officers.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+export type SessionRowRecord = Database["public"]["Tables"]["ocr_rows"]["Row"];
+export type SessionRowInsert =
+  Database["public"]["Tables"]["ocr_rows"]["Insert"];
+
+export type ReviewSessionStatus = "open" | "committed" | "discarded";
+
+export interface ReviewSessionSummary {
+  id: string;
+  eventId: string;
+  title: string | null;
+  createdBy: string;
+  createdByName: string | null;
+  createdAt: string;
+  updatedAt: string;
+  rowCount: number;
+  verifiedCount: number;
+}
+
+// first officer to verify a row is recorded as its verifier
+const stampRow = (r: SessionRowInsert, sessionId: string, userId: string) => ({
+  ...r,
+  session_id: sessionId,
+  updated_by: userId,
+  verified_by: r.is_verified ? r.verified_by ?? userId : null,
+});
+
+const requireUser = async () => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Not authenticated");
+  return user;
+};
+
+/**
+ * Open a new session and store its first batch of rows
+ */
+export const createReviewSession = async (
+  eventId: string,
+  rows: SessionRowInsert[],
+  title?: string
+): Promise<string> => {
+  const user = await requireUser();
+
+  const { data: session, error } = await supabase
+    .from("review_sessions")
+    .insert({ event_id: eventId, created_by: user.id, title: title ?? null })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  if (rows.length) {
+    const { error: rowsError } = await supabase.from("ocr_rows").insert(
+      rows.map((r) => stampRow(r, session.id, user.id))
+    );
+    if (rowsError) {
+      // don't leave an empty session behind
+      await supabase.from("review_sessions").delete().eq("id", session.id);
+      throw rowsError;
+    }
+  }
+
+  return session.id;
+};
+
+/**
+ * Open sessions for an event with row / verified counts
+ */
+export const fetchOpenReviewSessions = async (
+  eventId: string
+): Promise<ReviewSessionSummary[]> => {
+  const { data: sessions, error } = await supabase
+    .from("review_sessions")
+    .select("id, event_id, title, created_by, created_at, updated_at")
+    .eq("event_id", eventId)
+    .eq("status", "open")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  if (!sessions?.length) return [];
+
+  const ids = sessions.map((s) => s.id);
+  const [{ data: rows, error: rowsError }, { data: profiles }] =
+    await Promise.all([
+      supabase
+        .from("ocr_rows")
+        .select("session_id, is_verified")
+        .in("session_id", ids),
+      supabase
+        .from("profiles")
+        .select("id, display_name")
+        .in(
+          "id",
+          sessions.map((s) => s.created_by)
+        ),
+    ]);
+  if (rowsError) throw rowsError;
+
+  const names = new Map((profiles || []).map((p) => [p.id, p.display_name]));
+
+  return sessions.map((s) => {
+    const sessionRows = (rows || []).filter((r) => r.session_id === s.id);
+    return {
+      id: s.id,
+      eventId: s.event_id,
+      title: s.title,
+      createdBy: s.created_by,
+      createdByName: names.get(s.created_by) ?? null,
+      createdAt: s.created_at,
+      updatedAt: s.updated_at,
+      rowCount: sessionRows.length,
+      verifiedCount: sessionRows.filter((r) => r.is_verified).length,
+    };
+  });
+};
+
+export const fetchSessionRows = async (
+  sessionId: string
+): Promise<SessionRowRecord[]> => {
+  const { data, error } = await supabase
+    .from("ocr_rows")
+    .select("*")
+    .eq("session_id", sessionId)
+    .order("row_order", { ascending: true });
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Autosave: write changed rows (by id) and drop removed ones
+ */
+export const saveSessionRows = async (
+  sessionId: string,
+  changed: SessionRowInsert[],
+  removedIds: string[]
+) => {
+  const user = await requireUser();
+
+  if (changed.length) {
+    const { error } = await supabase.from("ocr_rows").upsert(
+      changed.map((r) => stampRow(r, sessionId, user.id)),
+      { onConflict: "id" }
+    );
+    if (error) throw error;
+  }
+
+  if (removedIds.length) {
+    const { error } = await supabase
+      .from("ocr_rows")
+      .delete()
+      .eq("session_id", sessionId)
+      .in("id", removedIds);
+    if (error) throw error;
+  }
+
+  // bump the session so the resume list sorts by activity
+  await supabase
+    .from("review_sessions")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", sessionId);
+};
+
+/**
+ * Claim rows nobody has claimed yet. Returns the ids this user actually got
+ * (another officer may have claimed some of them first).
+ */
+export const claimSessionRows = async (
+  sessionId: string,
+  rowIds: string[]
+): Promise<string[]> => {
+  const user = await requireUser();
+  if (!rowIds.length) return [];
+
+  const { data, error } = await supabase
+    .from("ocr_rows")
+    .update({ claimed_by: user.id, updated_by: user.id })
+    .eq("session_id", sessionId)
+    .is("claimed_by", null)
+    .in("id", rowIds)
+    .select("id");
+  if (error) throw error;
+
+  return (data || []).map((r) => r.id);
+};
+
+export const releaseSessionRows = async (
+  sessionId: string,
+  rowIds: string[]
+) => {
+  const user = await requireUser();
+  if (!rowIds.length) return;
+
+  const { error } = await supabase
+    .from("ocr_rows")
+    .update({ claimed_by: null, updated_by: user.id })
+    .eq("session_id", sessionId)
+    .eq("claimed_by", user.id)
+    .in("id", rowIds);
+  if (error) throw error;
+};
+
+export const closeReviewSession = async (
+  sessionId: string,
+  status: Exclude<ReviewSessionStatus, "open">
+) => {
+  const user = await requireUser();
+
+  const { error } = await supabase
+    .from("review_sessions")
+    .update({
+      status,
+      closed_at: new Date().toISOString(),
+      closed_by: user.id,
+    })
+    .eq("id", sessionId);
+  if (error) throw error;
+};
+
+/**
+ * display_name for a set of user ids (claim badges)
+ */
+export const fetchDisplayNames = async (
+  userIds: string[]
+): Promise<Map<string, string>> => {
+  if (!userIds.length) return new Map();
+  const { data } = await supabase
+    .from("profiles")
+    .select("id, display_name")
+    .in("id", userIds);
+
+  return new Map(
+    (data || []).map((p) => [p.id, p.display_name || "Officer"])
+  );
+};
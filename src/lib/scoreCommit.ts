@@ -0,0 +1,78 @@
+// src/lib/scoreCommit.ts
+// Committing reviewed scores: the server diffs the rows against the event's
+// current scores (preview), then applies them all-or-nothing as one
+// batch_operations entry that BatchAuditLog can roll back.
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface ScoreCommitItem {
+  /** alts are rolled up to their main on the server */
+  player_id: string;
+  /** digits only – up to numeric(30,0) */
+  score: string;
+  rank: number | null;
+}
+
+export type ScoreDiffStatus = "new" | "changed" | "unchanged";
+
+export interface ScoreDiffRow {
+  player_id: string;
+  status: ScoreDiffStatus;
+  new_score: string;
+  new_rank: number | null;
+  old_score: string | null;
+  old_rank: number | null;
+}
+
+export interface ScoreCommitResult {
+  batchOperationId: string;
+  new: number;
+  changed: number;
+  unchanged: number;
+}
+
+const isDiffRow = (v: unknown): v is ScoreDiffRow =>
+  !!v &&
+  typeof v === "object" &&
+  typeof (v as ScoreDiffRow).player_id === "string" &&
+  typeof (v as ScoreDiffRow).new_score === "string";
+
+/**
+ * What a commit would do, row by row, without writing anything
+ */
+export const previewScoreCommit = async (
+  eventId: string,
+  items: ScoreCommitItem[]
+): Promise<ScoreDiffRow[]> => {
+  const { data, error } = await supabase.rpc("preview_score_import", {
+    event_uuid: eventId,
+    payload: items as unknown as Json,
+  });
+  if (error) throw error;
+  return Array.isArray(data) ? (data as unknown[]).filter(isDiffRow) : [];
+};
+
+/**
+ * Apply every item or none; returns the batch operation to roll back with
+ */
+export const commitScores = async (
+  eventId: string,
+  items: ScoreCommitItem[],
+  clientRef?: string
+): Promise<ScoreCommitResult> => {
+  const { data, error } = await supabase.rpc("commit_score_import", {
+    event_uuid: eventId,
+    payload: items as unknown as Json,
+    client_ref: clientRef,
+  });
+  if (error) throw error;
+
+  const result = (data ?? {}) as Record<string, unknown>;
+  return {
+    batchOperationId: String(result.batch_operation_id),
+    new: Number(result.new ?? 0),
+    changed: Number(result.changed ?? 0),
+    unchanged: Number(result.unchanged ?? 0),
+  };
+};
@@ -0,0 +1,252 @@
+// src/lib/scoreImport.ts
+// Score rows from sources other than the upload tab: pasted text, CSV / TSV
+// exports (game companion sites, spreadsheets) and images pasted from the
+// clipboard. Everything ends up in the same row shape the OCR pipelines
+// produce, so review, matching and verification don't care where it came from.
+
+import { parseScoresFromText } from "./ocrProcessing";
+import { DEFAULT_OCR_ENGINE_ID, getOCREngine } from "./ocrEngines";
+import {
+  DEFAULT_LAYOUT_PROFILE_ID,
+  fetchLayoutProfiles,
+  getDefaultLayoutProfile,
+} from "./ocrLayoutProfiles";
+import { fetchNameLanguages } from "./ocrLanguages";
+import { markScreenshotProcessed, storeScreenshot } from "./ocrScreenshots";
+
+/** where a review row came from – every source goes through the same review and commit */
+export type ScoreSource = "ocr" | "manual" | "text" | "csv" | "clipboard-image";
+
+export const SCORE_SOURCE_LABELS: Record<ScoreSource, string> = {
+  ocr: "OCR",
+  manual: "Manual",
+  text: "Pasted text",
+  csv: "CSV / TSV",
+  "clipboard-image": "Pasted image",
+};
+
+export interface ImportedRow {
+  parsedName: string;
+  parsedScore: number;
+  bigScore: string;
+  rank: number | null;
+  rawText: string;
+  correctedValue: number | null;
+  confidence: number;
+  imageSource: string;
+  source: ScoreSource;
+  uploadId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+const NAME_HEADER = /^(name|player|member|nickname|ign|user(name)?)$/i;
+const SCORE_HEADER = /^(score|points?|pts|damage|dmg|total|power|value)$/i;
+const RANK_HEADER = /^(#|no\.?|rank|pos(ition)?|place)$/i;
+
+const DIGIT_GROUP = /^\d{1,3}$/;
+const THOUSANDS_GROUP = /^\d{3}$/;
+const NUMBER_CELL = /^[\d][\d,. ]*$/;
+
+/**
+ * Split one delimited line, honouring double quotes ("a, b" stays one cell)
+ */
+export const splitDelimitedLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && !cell.trim()) {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Tab wins, then semicolon, then comma – only when most lines use it
+ */
+export const detectDelimiter = (lines: string[]): string | null => {
+  const sample = lines.slice(0, 20);
+  if (sample.some((l) => l.includes("\t"))) return "\t";
+  for (const d of [";", ","]) {
+    const using = sample.filter((l) => l.includes(d)).length;
+    if (using >= Math.ceil(sample.length * 0.8)) return d;
+  }
+  return null;
+};
+
+interface Columns {
+  name: number;
+  score: number;
+  rank: number | null;
+}
+
+const findHeader = (cells: string[]): Columns | null => {
+  const name = cells.findIndex((c) => NAME_HEADER.test(c));
+  const score = cells.findIndex((c) => SCORE_HEADER.test(c));
+  if (name < 0 || score < 0) return null;
+  const rank = cells.findIndex((c) => RANK_HEADER.test(c));
+  return { name, score, rank: rank >= 0 ? rank : null };
+};
+
+/**
+ * "rank name score" line for one delimited row, or null when the row has
+ * no name / score. Unquoted thousands separators ("Name,1,234,567") split
+ * the score over several cells – those trailing digit groups are re-joined.
+ */
+const rowToLine = (cells: string[], columns: Columns | null): string | null => {
+  if (columns) {
+    const name = cells[columns.name] ?? "";
+    // score is the last column: everything from there on belongs to it
+    const scoreCells =
+      columns.score === Math.max(columns.name, columns.score, columns.rank ?? -1)
+        ? cells.slice(columns.score)
+        : [cells[columns.score] ?? ""];
+    const score = scoreCells.join("").replace(/[^\d]/g, "");
+    const rank = columns.rank !== null ? (cells[columns.rank] ?? "").replace(/[^\d]/g, "") : "";
+    if (!name.trim() || !score) return null;
+    return [rank, name, score].filter(Boolean).join(" ");
+  }
+
+  // no header: optional leading rank, name cell(s), trailing score cell(s)
+  const nonEmpty = cells.filter(Boolean);
+  let start = nonEmpty.length - 1;
+  if (start < 1 || !NUMBER_CELL.test(nonEmpty[start])) return null;
+  // swallow earlier digit groups only while the cell after them is a full group
+  while (
+    start > 1 &&
+    DIGIT_GROUP.test(nonEmpty[start - 1]) &&
+    THOUSANDS_GROUP.test(nonEmpty[start])
+  ) {
+    start--;
+  }
+  const score = nonEmpty.slice(start).join("").replace(/[^\d]/g, "");
+
+  let first = 0;
+  let rank = "";
+  if (start > 1 && /^#?\d{1,4}\.?$/.test(nonEmpty[0])) {
+    rank = nonEmpty[0].replace(/[^\d]/g, "");
+    first = 1;
+  }
+  const name = nonEmpty.slice(first, start).join(" ");
+  if (!name.trim() || !score) return null;
+  return [rank, name, score].filter(Boolean).join(" ");
+};
+
+const toImportedRows = (
+  text: string,
+  sourceName: string,
+  source: ScoreSource
+): ImportedRow[] =>
+  // typed / exported numbers are exact – no OCR look-alike correction
+  parseScoresFromText(text, sourceName, false).map((r) => ({
+    parsedName: r.parsedName,
+    parsedScore: r.parsedScore,
+    bigScore: r.bigScore || "0",
+    rank: r.rank ?? null,
+    rawText: r.rawText,
+    correctedValue: null,
+    confidence: r.confidence,
+    imageSource: sourceName,
+    source,
+  }));
+
+/**
+ * Pasted text or file contents → rows. Delimited tables (CSV / TSV, with or
+ * without a header) are flattened into "rank name score" lines first; free
+ * text goes straight through parseScoresFromText.
+ */
+export const parseScoreText = (text: string, sourceName = "Pasted text"): ImportedRow[] => {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+  if (!lines.length) return [];
+
+  const delimiter = detectDelimiter(lines);
+  if (!delimiter) return toImportedRows(lines.join("\n"), sourceName, "text");
+
+  const table = lines.map((l) => splitDelimitedLine(l, delimiter));
+  const columns = findHeader(table[0]);
+  const body = columns ? table.slice(1) : table;
+  const flattened = body
+    .map((cells) => rowToLine(cells, columns))
+    .filter((l): l is string => !!l);
+
+  return toImportedRows(flattened.join("\n"), sourceName, "csv");
+};
+
+/**
+ * Uploaded .csv / .tsv / .txt file
+ */
+export const readScoreFile = async (file: File): Promise<ImportedRow[]> =>
+  parseScoreText(await file.text(), file.name);
+
+/**
+ * OCR one image pasted from the clipboard with the default engine and
+ * layout, storing it like an uploaded screenshot
+ */
+export const ocrClipboardImage = async (
+  eventId: string,
+  image: File,
+  signal?: AbortSignal
+): Promise<ImportedRow[]> => {
+  // clipboard images are all called image.png
+  const ext = image.type.split("/")[1] || "png";
+  const file = new File([image], `clipboard-${Date.now()}.${ext}`, { type: image.type });
+
+  const [profiles, nameLanguages] = await Promise.all([
+    fetchLayoutProfiles(),
+    fetchNameLanguages(),
+  ]);
+  const profile =
+    profiles.find((p) => p.id === DEFAULT_LAYOUT_PROFILE_ID) ?? getDefaultLayoutProfile();
+  const engine = getOCREngine(DEFAULT_OCR_ENGINE_ID);
+
+  let uploadId: string | null = null;
+  try {
+    uploadId = (await storeScreenshot(eventId, file, profile.id)).uploadId;
+  } catch (err) {
+    console.warn("Failed to store pasted image:", err);
+  }
+
+  const rows = await engine.run(file, profile, { signal, nameLanguages });
+  if (uploadId) {
+    await markScreenshotProcessed(uploadId, {
+      rowCount: rows.length,
+      layoutProfileId: profile.id,
+      engine: engine.id,
+      cancelled: signal?.aborted,
+    });
+  }
+
+  return rows.map((r, idx) => ({
+    ...r,
+    parsedName: r.parsedName ?? "",
+    parsedScore: typeof r.parsedScore === "number" ? r.parsedScore : 0,
+    bigScore: r.bigScore || "0",
+    rank: r.rank ?? null,
+    correctedValue: null,
+    imageSource: file.name,
+    uploadId: uploadId ?? `${file.name}:${idx}`,
+    source: "clipboard-image" as const,
+  }));
+};
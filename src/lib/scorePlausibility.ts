@@ -0,0 +1,145 @@
+// src/lib/scorePlausibility.ts
+// Sanity-check scores against each player's earlier scores for the same
+// kind of event (events.event_type). A dropped or doubled digit shows up
+// as an order-of-magnitude change; a copy of last time's value as a repeat.
+
+import { supabase } from "@/integrations/supabase/client";
+
+export type PlausibilityFlagKind =
+  | "magnitude_jump"
+  | "magnitude_drop"
+  | "sudden_drop"
+  | "repeat";
+
+export interface PlausibilityFlag {
+  kind: PlausibilityFlagKind;
+  message: string;
+}
+
+export interface ScoreHistoryEntry {
+  eventId: string;
+  eventName: string;
+  eventDate: string;
+  digits: string;
+}
+
+// ×8 or more (about one extra digit) counts as an order of magnitude
+const MAGNITUDE_RATIO = 8;
+// losing more than half of the usual score
+const SUDDEN_DROP_RATIO = 0.5;
+// scores compared against (most recent first)
+const HISTORY_DEPTH = 5;
+
+// numeric(30,0) can come back as a JS number – normalize to a digit string
+const toDigits = (v: number | string | null | undefined): string => {
+  if (typeof v === "number") return BigInt(Math.round(v)).toString();
+  return BigInt((v ?? "").replace(/[^\d]/g, "") || "0").toString();
+};
+
+const formatShort = (digits: string) => {
+  const n = Number(digits);
+  if (n >= 1e9) return `${(n / 1e9).toFixed(2)}B`;
+  if (n >= 1e6) return `${(n / 1e6).toFixed(1)}M`;
+  if (n >= 1e3) return `${(n / 1e3).toFixed(1)}K`;
+  return digits;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Earlier scores (newest first) per player for events of the same type
+ * as `eventId`. Events without a type are compared with untyped events.
+ */
+export const fetchScoreHistory = async (
+  eventId: string,
+  playerIds: string[]
+): Promise<Map<string, ScoreHistoryEntry[]>> => {
+  const history = new Map<string, ScoreHistoryEntry[]>();
+  if (!playerIds.length) return history;
+
+  const { data: event, error: eventError } = await supabase
+    .from("events")
+    .select("event_type, event_date")
+    .eq("id", eventId)
+    .single();
+  if (eventError) throw eventError;
+
+  let query = supabase
+    .from("scores")
+    .select("player_id, score, event_id, events!inner(name, event_date, event_type, deleted_at)")
+    .in("player_id", playerIds)
+    .neq("event_id", eventId)
+    .is("events.deleted_at", null)
+    .lte("events.event_date", event.event_date);
+  query = event.event_type
+    ? query.eq("events.event_type", event.event_type)
+    : query.is("events.event_type", null);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  for (const row of data || []) {
+    const list = history.get(row.player_id) ?? [];
+    list.push({
+      eventId: row.event_id,
+      eventName: row.events.name,
+      eventDate: row.events.event_date,
+      digits: toDigits(row.score),
+    });
+    history.set(row.player_id, list);
+  }
+
+  for (const list of history.values()) {
+    list.sort((a, b) => b.eventDate.localeCompare(a.eventDate));
+    list.splice(HISTORY_DEPTH);
+  }
+  return history;
+};
+
+/**
+ * Flags for one score (digits only) given the player's history, newest first
+ */
+export const checkScorePlausibility = (
+  digits: string,
+  history: ScoreHistoryEntry[]
+): PlausibilityFlag[] => {
+  const clean = toDigits(digits);
+  const previous = history.filter((h) => h.digits !== "0");
+  if (!previous.length || clean === "0") return [];
+
+  const flags: PlausibilityFlag[] = [];
+  const last = previous[0];
+
+  if (clean === last.digits) {
+    flags.push({
+      kind: "repeat",
+      message: `Exactly the same as ${last.eventName} (${formatShort(last.digits)}) – stale screenshot?`,
+    });
+  }
+
+  const typical = median(previous.map((h) => Number(h.digits)));
+  const ratio = Number(clean) / typical;
+
+  if (ratio >= MAGNITUDE_RATIO) {
+    flags.push({
+      kind: "magnitude_jump",
+      message: `${formatShort(clean)} is ${Math.round(ratio)}× the usual ${formatShort(String(Math.round(typical)))} – extra digit?`,
+    });
+  } else if (ratio <= 1 / MAGNITUDE_RATIO) {
+    flags.push({
+      kind: "magnitude_drop",
+      message: `${formatShort(clean)} is about 1/${Math.round(1 / ratio)} of the usual ${formatShort(String(Math.round(typical)))} – dropped digit?`,
+    });
+  } else if (ratio < SUDDEN_DROP_RATIO) {
+    flags.push({
+      kind: "sudden_drop",
+      message: `${formatShort(clean)} is ${Math.round((1 - ratio) * 100)}% below the usual ${formatShort(String(Math.round(typical)))}`,
+    });
+  }
+
+  return flags;
+};
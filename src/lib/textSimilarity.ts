@@ -0,0 +1,35 @@
+// src/lib/textSimilarity.ts
+// Small string-distance helpers shared by the OCR stitching / matching code
+
+/**
+ * Classic Levenshtein edit distance (insert / delete / substitute = 1)
+ */
+export const levenshtein = (a: string, b: string): number => {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let prev = new Array(b.length + 1);
+  let curr = new Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) prev[j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    curr[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    [prev, curr] = [curr, prev];
+  }
+
+  return prev[b.length];
+};
+
+/**
+ * 0..1 similarity based on edit distance (1 = identical)
+ */
+export const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - levenshtein(a, b) / longest;
+};
@@ -6,6 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import EventTotals from "@/components/event-details/EventTotals";
 import RaffleManager from "@/components/event-details/RaffleManager";
+import RaffleCarryover from "@/components/event-details/RaffleCarryover";
 import WeightedDistribution from "@/components/event-details/WeightedDistribution";
 import LedgerView from "@/components/event-details/LedgerView";
 import EventScoresList from "@/components/event-details/EventScoresList";
@@ -23,6 +24,7 @@ interface Event {
   id: string;
   name: string;
   event_date: string;
+  raffle_series_id: string | null;
 }
 
 const EventDetails = () => {
@@ -107,6 +109,7 @@ const EventDetails = () => {
               <TabsContent value="raffles" className="mt-6">
                 <div className="space-y-6">
                   <RaffleManager eventId={eventId!} canManage={canManage} />
+                  <RaffleCarryover eventId={eventId!} seriesId={event.raffle_series_id} />
                   <WeightedDistribution eventId={eventId!} canManage={canManage} />
                 </div>
               </TabsContent>
@@ -1,11 +1,12 @@
 // src/pages/EventScores.tsx
 import { useEffect, useState } from "react";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import MultiFileOCRUpload from "@/components/scores/MultiFileOCRUpload";
 import EnhancedScoreReview from "@/components/scores/EnhancedScoreReview";
+import ReviewSessionList from "@/components/scores/ReviewSessionList";
 import RaffleReweightButton from "@/components/scores/RaffleReweightButton";
 import {
   Card,
@@ -34,12 +35,19 @@ import {
 const EventScores = () => {
   const { eventId } = useParams<{ eventId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user, loading, isAdmin, isLeader } = useAuth();
 
   const [event, setEvent] = useState<any>(null);
   const [committedScores, setCommittedScores] = useState<any[]>([]);
   const [parsedScores, setParsedScores] = useState<any[]>([]);
-  const [activeTab, setActiveTab] = useState<"upload" | "review">("upload");
+  // ?session=<id> opens a shared review session straight away
+  const [reviewSessionId, setReviewSessionId] = useState<string | null>(
+    searchParams.get("session")
+  );
+  const [activeTab, setActiveTab] = useState<"upload" | "review">(
+    searchParams.get("session") ? "review" : "upload"
+  );
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [deleting, setDeleting] = useState(false);
 
@@ -101,6 +109,24 @@ const EventScores = () => {
     toast.success(`Loaded ${rows.length} rows for review`);
   };
 
+  const handleSessionChange = (sessionId: string | null) => {
+    setReviewSessionId(sessionId);
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (sessionId) next.set("session", sessionId);
+        else next.delete("session");
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  const handleResumeSession = (sessionId: string) => {
+    handleSessionChange(sessionId);
+    setActiveTab("review");
+  };
+
   // SOFT DELETE
   const handleDeleteEvent = async () => {
     if (!eventId) return;
@@ -198,11 +224,18 @@ const EventScores = () => {
                 />
               </TabsContent>
 
-              <TabsContent value="review" className="mt-6">
+              <TabsContent value="review" className="mt-6 space-y-4">
+                <ReviewSessionList
+                  eventId={eventId!}
+                  activeSessionId={reviewSessionId}
+                  onResume={handleResumeSession}
+                />
                 <EnhancedScoreReview
                   eventId={eventId!}
                   parsedScores={parsedScores}
                   canManage={canManage}
+                  sessionId={reviewSessionId}
+                  onSessionChange={handleSessionChange}
                 />
               </TabsContent>
             </Tabs>
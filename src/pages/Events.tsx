@@ -14,6 +14,7 @@ interface Event {
   event_date: string;
   location: string | null;
   description: string | null;
+  event_type: string | null;
 }
 
 const Events = () => {
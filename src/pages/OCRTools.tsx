@@ -0,0 +1,80 @@
+import { useAuth } from "@/hooks/useAuth";
+import { useNavigate } from "react-router-dom";
+import Layout from "@/components/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import LayoutCalibrator from "@/components/ocr-tools/LayoutCalibrator";
+import NameLanguageSettings from "@/components/ocr-tools/NameLanguageSettings";
+import OCRQualityReport from "@/components/ocr-tools/OCRQualityReport";
+
+const OCRTools = () => {
+  const { user, loading, isAdmin, isLeader } = useAuth();
+  const navigate = useNavigate();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    navigate("/auth");
+    return null;
+  }
+
+  const canManage = isAdmin || isLeader;
+
+  if (!canManage) {
+    return (
+      <Layout>
+        <Card>
+          <CardContent className="p-6 text-center text-destructive">
+            You don't have permission to access this page.
+          </CardContent>
+        </Card>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="mx-auto max-w-6xl space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>OCR Tools</CardTitle>
+            <CardDescription>
+              Calibrate leaderboard layouts, choose the languages used for player names and check OCR accuracy against the regression corpus
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="calibration">
+              <TabsList className="grid w-full grid-cols-3">
+                <TabsTrigger value="calibration">Layout Calibration</TabsTrigger>
+                <TabsTrigger value="languages">Name Languages</TabsTrigger>
+                <TabsTrigger value="quality">Quality</TabsTrigger>
+              </TabsList>
+              <TabsContent value="calibration" className="mt-6">
+                {!isAdmin && (
+                  <p className="mb-4 text-sm text-muted-foreground">
+                    Only admins can save layout profiles. You can still test layouts.
+                  </p>
+                )}
+                <LayoutCalibrator canSave={isAdmin} />
+              </TabsContent>
+              <TabsContent value="languages" className="mt-6">
+                <NameLanguageSettings canSave={isAdmin} />
+              </TabsContent>
+              <TabsContent value="quality" className="mt-6">
+                <OCRQualityReport canEditCorpus={isAdmin} />
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default OCRTools;
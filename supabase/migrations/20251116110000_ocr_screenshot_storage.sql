@@ -0,0 +1,42 @@
+-- Keep the original screenshots behind OCR rows so they can be viewed / re-run later
+
+alter table public.ocr_uploads
+  add column if not exists image_path text,
+  add column if not exists image_hash text,
+  add column if not exists image_name text,
+  add column if not exists layout_profile_id text;
+
+-- the same screenshot uploaded twice for one event reuses its upload row
+create unique index if not exists ocr_uploads_event_image_hash_key
+  on public.ocr_uploads (event_id, image_hash)
+  where image_hash is not null;
+
+-- private bucket, files live under <event_id>/<sha256>.<ext>
+insert into storage.buckets (id, name, public)
+values ('ocr-screenshots', 'ocr-screenshots', false)
+on conflict (id) do nothing;
+
+create policy "Admins and leaders can view OCR screenshots"
+  on storage.objects for select
+  using (
+    bucket_id = 'ocr-screenshots' and (
+      public.has_role(auth.uid(), 'admin'::app_role) or
+      public.has_role(auth.uid(), 'leader'::app_role)
+    )
+  );
+
+create policy "Admins and leaders can upload OCR screenshots"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'ocr-screenshots' and (
+      public.has_role(auth.uid(), 'admin'::app_role) or
+      public.has_role(auth.uid(), 'leader'::app_role)
+    )
+  );
+
+create policy "Admins can delete OCR screenshots"
+  on storage.objects for delete
+  using (
+    bucket_id = 'ocr-screenshots' and
+    public.has_role(auth.uid(), 'admin'::app_role)
+  );
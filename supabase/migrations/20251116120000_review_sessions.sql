@@ -0,0 +1,52 @@
+-- Draft review sessions: OCR rows under review live server-side so a
+-- review survives reloads and several officers can work the same batch.
+
+CREATE TABLE IF NOT EXISTS public.review_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES public.events(id) ON DELETE CASCADE,
+  title TEXT,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'committed', 'discarded')),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by UUID REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS review_sessions_event_status_idx
+  ON public.review_sessions (event_id, status);
+
+ALTER TABLE public.review_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and leaders can view review_sessions"
+  ON public.review_sessions FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+CREATE POLICY "Admins and leaders can manage review_sessions"
+  ON public.review_sessions FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+CREATE TRIGGER update_review_sessions_updated_at
+  BEFORE UPDATE ON public.review_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- full review state per row
+ALTER TABLE public.ocr_rows
+  ADD COLUMN IF NOT EXISTS session_id UUID REFERENCES public.review_sessions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS row_order INTEGER,
+  ADD COLUMN IF NOT EXISTS metadata JSONB,
+  ADD COLUMN IF NOT EXISTS claimed_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS verified_by UUID REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS updated_by UUID REFERENCES auth.users(id);
+
+-- bigint overflows on the largest leaderboard scores
+ALTER TABLE public.ocr_rows
+  ALTER COLUMN parsed_score_big TYPE NUMERIC(30,0);
+
+CREATE INDEX IF NOT EXISTS ocr_rows_session_idx
+  ON public.ocr_rows (session_id, row_order);
+
+-- live updates between officers reviewing the same session
+ALTER TABLE public.ocr_rows REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ocr_rows;
@@ -0,0 +1,8 @@
+-- Events get a free-text type ("Guild Boss", "Kingdom Clash", …) so scores
+-- can be compared with the same kind of event when checking plausibility
+alter table public.events
+  add column if not exists event_type text;
+
+create index if not exists events_event_type_date_idx
+  on public.events (event_type, event_date desc)
+  where deleted_at is null;
@@ -0,0 +1,54 @@
+-- OCR regression corpus: labelled screenshots with their ground-truth rows,
+-- plus the stored result of every quality run so regressions can be spotted.
+
+CREATE TABLE IF NOT EXISTS public.ocr_corpus_samples (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  image_path TEXT NOT NULL,
+  image_hash TEXT NOT NULL UNIQUE,
+  layout_profile_id TEXT,
+  notes TEXT,
+  -- [{ "name": "...", "score": "123456", "rank": 1 }] in screen order
+  expected_rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.ocr_corpus_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  engine TEXT NOT NULL,
+  label TEXT,
+  summary JSONB NOT NULL,
+  -- per sample, per expected row outcome
+  results JSONB NOT NULL,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ocr_corpus_runs_engine_created_idx
+  ON public.ocr_corpus_runs (engine, created_at DESC);
+
+ALTER TABLE public.ocr_corpus_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ocr_corpus_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins and leaders can view ocr_corpus_samples"
+  ON public.ocr_corpus_samples FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+CREATE POLICY "Admins can manage ocr_corpus_samples"
+  ON public.ocr_corpus_samples FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins and leaders can view ocr_corpus_runs"
+  ON public.ocr_corpus_runs FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+CREATE POLICY "Admins and leaders can record ocr_corpus_runs"
+  ON public.ocr_corpus_runs FOR INSERT
+  WITH CHECK (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+CREATE TRIGGER update_ocr_corpus_samples_updated_at
+  BEFORE UPDATE ON public.ocr_corpus_samples
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
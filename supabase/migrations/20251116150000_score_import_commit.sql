@@ -0,0 +1,402 @@
+-- Transactional score import: preview the diff against the event's current
+-- scores, then apply every row or none under one batch_operations entry. The
+-- rows it changes are recorded (before / after) in batch_operation_changes so
+-- rollback_batch_operation can put them back.
+
+-- the update trigger on batch_operations expects this column
+ALTER TABLE public.batch_operations
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE TABLE IF NOT EXISTS public.batch_operation_changes (
+  seq BIGSERIAL PRIMARY KEY,
+  batch_operation_id UUID NOT NULL REFERENCES public.batch_operations(id) ON DELETE CASCADE,
+  -- more tables join as their operations start recording changes
+  table_name TEXT NOT NULL CHECK (table_name IN ('scores')),
+  row_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- full rows as to_jsonb(); old_row is null for inserts, new_row for deletes
+  old_row JSONB,
+  new_row JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS batch_operation_changes_batch_idx
+  ON public.batch_operation_changes (batch_operation_id, seq);
+
+ALTER TABLE public.batch_operation_changes ENABLE ROW LEVEL SECURITY;
+
+-- written only by the server functions that change the rows
+CREATE POLICY "Admins and leaders can view batch_operation_changes"
+  ON public.batch_operation_changes FOR SELECT
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+-- payload: [{ player_id, score (digits as text), rank }]
+-- alts roll up to their main, the highest score per player wins
+CREATE OR REPLACE FUNCTION public.score_import_diff(event_uuid uuid, payload jsonb)
+RETURNS TABLE (
+  player_id uuid,
+  new_score numeric(30,0),
+  new_rank integer,
+  old_score numeric(30,0),
+  old_raw_score numeric(30,0),
+  old_rank integer,
+  old_verified boolean,
+  status text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  bad jsonb;
+BEGIN
+  IF jsonb_typeof(payload) <> 'array' OR jsonb_array_length(payload) = 0 THEN
+    RAISE EXCEPTION 'payload must be a non-empty JSON array';
+  END IF;
+
+  SELECT i INTO bad
+  FROM jsonb_array_elements(payload) i
+  WHERE coalesce(i->>'score', '') !~ '^\d{1,30}$'
+     OR coalesce(i->>'rank', '') !~ '^\d{0,9}$'
+     OR NOT EXISTS (
+       SELECT 1 FROM public.players p
+       WHERE p.id::text = i->>'player_id' AND p.deleted_at IS NULL
+     )
+  LIMIT 1;
+
+  IF bad IS NOT NULL THEN
+    RAISE EXCEPTION 'invalid score row: %', bad;
+  END IF;
+
+  RETURN QUERY
+  WITH items AS (
+    SELECT
+      coalesce(CASE WHEN p.is_alt THEN p.main_player_id END, p.id) AS pid,
+      (i->>'score')::numeric(30,0) AS score,
+      nullif(i->>'rank', '')::integer AS rank
+    FROM jsonb_array_elements(payload) i
+    JOIN public.players p ON p.id = (i->>'player_id')::uuid
+  ),
+  best AS (
+    SELECT DISTINCT ON (pid) pid, score, rank
+    FROM items
+    ORDER BY pid, score DESC
+  )
+  SELECT
+    b.pid,
+    b.score,
+    b.rank,
+    s.score::numeric(30,0),
+    s.raw_score::numeric(30,0),
+    s.rank,
+    s.verified,
+    CASE
+      WHEN s.id IS NULL THEN 'new'
+      WHEN s.score = b.score
+        AND s.rank IS NOT DISTINCT FROM coalesce(b.rank, s.rank)
+        AND s.verified THEN 'unchanged'
+      ELSE 'changed'
+    END
+  FROM best b
+  LEFT JOIN public.scores s ON s.event_id = event_uuid AND s.player_id = b.pid;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.preview_score_import(event_uuid uuid, payload jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can import scores';
+  END IF;
+
+  -- scores as text: numeric(30,0) doesn't survive a JS number
+  RETURN (
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+      'player_id', d.player_id,
+      'status', d.status,
+      'new_score', d.new_score::text,
+      'new_rank', d.new_rank,
+      'old_score', d.old_score::text,
+      'old_rank', d.old_rank
+    ) ORDER BY d.new_score DESC), '[]'::jsonb)
+    FROM public.score_import_diff(event_uuid, payload) d
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.commit_score_import(
+  event_uuid uuid,
+  payload jsonb,
+  client_ref text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_batch uuid;
+  n_new integer;
+  n_changed integer;
+  n_unchanged integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can import scores';
+  END IF;
+
+  -- one import per event at a time, so the diff can't go stale under us
+  PERFORM 1 FROM public.events WHERE id = event_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event % not found', event_uuid;
+  END IF;
+
+  CREATE TEMP TABLE temp_score_import ON COMMIT DROP AS
+  SELECT * FROM public.score_import_diff(event_uuid, payload);
+
+  SELECT
+    count(*) FILTER (WHERE status = 'new'),
+    count(*) FILTER (WHERE status = 'changed'),
+    count(*) FILTER (WHERE status = 'unchanged')
+  INTO n_new, n_changed, n_unchanged
+  FROM temp_score_import;
+
+  INSERT INTO public.batch_operations (operation_type, client_ref, event_id, metadata, created_by)
+  VALUES (
+    'score_import',
+    client_ref,
+    event_uuid,
+    jsonb_build_object(
+      'player_count', n_new + n_changed,
+      'new', n_new,
+      'changed', n_changed,
+      'unchanged', n_unchanged,
+      'description', format('%s new, %s changed, %s unchanged scores', n_new, n_changed, n_unchanged)
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  CREATE TEMP TABLE temp_score_before ON COMMIT DROP AS
+  SELECT s.*
+  FROM public.scores s
+  JOIN temp_score_import t ON t.player_id = s.player_id
+  WHERE s.event_id = event_uuid AND t.status = 'changed';
+
+  WITH up AS (
+    INSERT INTO public.scores (event_id, player_id, score, raw_score, rank, verified, created_by)
+    SELECT event_uuid, t.player_id, t.new_score, t.new_score, t.new_rank, true, actor
+    FROM temp_score_import t
+    WHERE t.status <> 'unchanged'
+    ON CONFLICT (event_id, player_id)
+    DO UPDATE SET
+      score      = excluded.score,
+      raw_score  = excluded.raw_score,
+      -- manual rows carry no rank – keep the one we already have
+      rank       = coalesce(excluded.rank, scores.rank),
+      verified   = true,
+      updated_at = now()
+    RETURNING scores.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'scores', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_score_before b ON b.id = up.id;
+
+  RETURN jsonb_build_object(
+    'batch_operation_id', v_batch,
+    'new', n_new,
+    'changed', n_changed,
+    'unchanged', n_unchanged
+  );
+END;
+$$;
+
+-- What a rollback would touch. conflict: the row no longer looks the way
+-- the operation left it (only checked on the latest change per row).
+CREATE OR REPLACE FUNCTION public.batch_rollback_plan(batch_uuid uuid)
+RETURNS TABLE (
+  seq bigint,
+  table_name text,
+  row_id uuid,
+  action text,
+  old_row jsonb,
+  new_row jsonb,
+  live_row jsonb,
+  conflict boolean
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  c public.batch_operation_changes%ROWTYPE;
+  cur jsonb;
+  latest boolean;
+BEGIN
+  FOR c IN
+    SELECT * FROM public.batch_operation_changes ch
+    WHERE ch.batch_operation_id = batch_uuid
+    ORDER BY ch.seq DESC
+  LOOP
+    EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1', c.table_name)
+      INTO cur USING c.row_id;
+
+    SELECT NOT EXISTS (
+      SELECT 1 FROM public.batch_operation_changes o
+      WHERE o.batch_operation_id = batch_uuid
+        AND o.table_name = c.table_name AND o.row_id = c.row_id AND o.seq > c.seq
+    ) INTO latest;
+
+    seq := c.seq;
+    table_name := c.table_name;
+    row_id := c.row_id;
+    action := c.action;
+    old_row := c.old_row;
+    new_row := c.new_row;
+    live_row := cur;
+    conflict := latest AND (
+      (c.action = 'delete' AND cur IS NOT NULL)
+      OR (c.action <> 'delete' AND cur IS DISTINCT FROM c.new_row)
+    );
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.preview_batch_rollback(batch_uuid uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can roll back batch operations';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'changes', (
+      SELECT coalesce(jsonb_agg(jsonb_build_object(
+        'table_name', p.table_name,
+        'row_id', p.row_id,
+        'action', p.action,
+        'old_row', p.old_row,
+        'live_row', p.live_row,
+        'conflict', p.conflict,
+        'player_name', pl.canonical_name
+      ) ORDER BY p.seq DESC), '[]'::jsonb)
+      FROM public.batch_rollback_plan(batch_uuid) p
+      LEFT JOIN public.players pl ON pl.id = CASE
+        WHEN p.table_name = 'players' THEN p.row_id
+        ELSE coalesce(p.old_row->>'player_id', p.new_row->>'player_id')::uuid
+      END
+    ),
+    'ledger_reversals', (
+      SELECT count(*) FROM public.ledger_transactions
+      WHERE batch_operation_id = batch_uuid AND transaction_type <> 'rollback'
+    )
+  );
+END;
+$$;
+
+-- Restores every recorded before-state (newest change first) and reverses
+-- the batch's ledger rows. Rows changed since need force => true.
+CREATE OR REPLACE FUNCTION public.rollback_batch_operation(batch_uuid uuid, force boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_op public.batch_operations%ROWTYPE;
+  c public.batch_operation_changes%ROWTYPE;
+  n_conflicts integer;
+  n_restored integer := 0;
+  n_reversed integer;
+  cols text;
+  vals text;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can roll back batch operations';
+  END IF;
+
+  SELECT * INTO v_op FROM public.batch_operations WHERE id = batch_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'batch operation % not found', batch_uuid;
+  END IF;
+  IF v_op.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'This operation has already been rolled back';
+  END IF;
+
+  IF v_op.event_id IS NOT NULL THEN
+    PERFORM 1 FROM public.events WHERE id = v_op.event_id FOR UPDATE;
+  END IF;
+
+  SELECT count(*) INTO n_conflicts FROM public.batch_rollback_plan(batch_uuid) p WHERE p.conflict;
+  IF n_conflicts > 0 AND NOT force THEN
+    RAISE EXCEPTION '% row(s) changed since this operation; review the preview and roll back anyway', n_conflicts;
+  END IF;
+
+  FOR c IN
+    SELECT * FROM public.batch_operation_changes ch
+    WHERE ch.batch_operation_id = batch_uuid
+    ORDER BY ch.seq DESC
+  LOOP
+    IF c.action = 'insert' THEN
+      EXECUTE format('DELETE FROM public.%I WHERE id = $1', c.table_name) USING c.row_id;
+    ELSIF c.action = 'update' THEN
+      SELECT string_agg(quote_ident(k), ', '), string_agg('r.' || quote_ident(k), ', ')
+      INTO cols, vals
+      FROM jsonb_object_keys(c.old_row) k
+      WHERE k <> 'id';
+
+      EXECUTE format(
+        'UPDATE public.%1$I t SET (%2$s) = (SELECT %3$s FROM jsonb_populate_record(NULL::public.%1$I, $1) r) WHERE t.id = $2',
+        c.table_name, cols, vals
+      ) USING c.old_row, c.row_id;
+    ELSE
+      EXECUTE format(
+        'INSERT INTO public.%1$I SELECT * FROM jsonb_populate_record(NULL::public.%1$I, $1) ON CONFLICT (id) DO NOTHING',
+        c.table_name
+      ) USING c.old_row;
+    END IF;
+    n_restored := n_restored + 1;
+  END LOOP;
+
+  INSERT INTO public.ledger_transactions (
+    player_id, medal_id, event_id, amount, transaction_type, description, created_by, batch_operation_id
+  )
+  SELECT
+    t.player_id, t.medal_id, t.event_id, -t.amount, 'rollback',
+    'Rollback of ' || coalesce(t.description, t.transaction_type), actor, batch_uuid
+  FROM public.ledger_transactions t
+  WHERE t.batch_operation_id = batch_uuid AND t.transaction_type <> 'rollback';
+  GET DIAGNOSTICS n_reversed = ROW_COUNT;
+
+  UPDATE public.batch_operations
+  SET status = 'rolled_back',
+      rolled_back_at = now(),
+      rolled_back_by = actor,
+      metadata = coalesce(metadata, '{}'::jsonb)
+        || jsonb_build_object('restored', n_restored, 'ledger_reversed', n_reversed, 'forced_conflicts', n_conflicts)
+  WHERE id = batch_uuid;
+
+  RETURN jsonb_build_object(
+    'restored', n_restored,
+    'ledger_reversed', n_reversed,
+    'conflicts', n_conflicts
+  );
+END;
+$$;
@@ -0,0 +1,272 @@
+-- Score imports already record the rows they change (before / after) in
+-- batch_operation_changes; raffle reweights and player merges now do too, so
+-- rollback_batch_operation can put raffle weights and player links back
+-- exactly. Ledger rows keep being reversed with negated 'rollback'
+-- transactions.
+
+ALTER TABLE public.batch_operation_changes
+  DROP CONSTRAINT IF EXISTS batch_operation_changes_table_name_check;
+ALTER TABLE public.batch_operation_changes
+  ADD CONSTRAINT batch_operation_changes_table_name_check CHECK (table_name IN (
+    'scores', 'raffle_weights', 'raffle_entries', 'raffle_entries_history', 'players', 'ledger_transactions'
+  ));
+
+-- Raffle weights computed by RaffleReweightButton.
+-- weights: [{ player_id, entries_next, reason }]
+CREATE OR REPLACE FUNCTION public.apply_raffle_weights(event_uuid uuid, weights jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_batch uuid;
+  n_updated integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can change raffle weights';
+  END IF;
+  IF jsonb_typeof(weights) <> 'array' THEN
+    RAISE EXCEPTION 'weights must be a JSON array';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = event_uuid FOR UPDATE;
+
+  CREATE TEMP TABLE temp_weights ON COMMIT DROP AS
+  SELECT
+    (w->>'player_id')::uuid AS player_id,
+    (w->>'entries_next')::integer AS entries_next,
+    w->>'reason' AS reason
+  FROM jsonb_array_elements(weights) w;
+
+  CREATE TEMP TABLE temp_weights_before ON COMMIT DROP AS
+  SELECT rw.*
+  FROM public.raffle_weights rw
+  JOIN temp_weights t ON t.player_id = rw.player_id
+  WHERE rw.event_id = event_uuid;
+
+  SELECT count(*) INTO n_updated FROM temp_weights;
+
+  INSERT INTO public.batch_operations (operation_type, event_id, metadata, created_by)
+  VALUES (
+    'raffle_reweight',
+    event_uuid,
+    jsonb_build_object(
+      'updated_count', n_updated,
+      'player_count', n_updated,
+      'description', format('Raffle weights recalculated for %s players', n_updated)
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  WITH up AS (
+    INSERT INTO public.raffle_weights (player_id, event_id, entries_next, entries_before, updated_by)
+    SELECT t.player_id, event_uuid, t.entries_next, coalesce(b.entries_next, 1), actor
+    FROM temp_weights t
+    LEFT JOIN temp_weights_before b ON b.player_id = t.player_id
+    ON CONFLICT (player_id, event_id)
+    DO UPDATE SET
+      entries_next = excluded.entries_next,
+      entries_before = excluded.entries_before,
+      updated_by = excluded.updated_by,
+      last_updated = now()
+    RETURNING raffle_weights.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'raffle_weights', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_weights_before b ON b.id = up.id;
+
+  WITH hist AS (
+    INSERT INTO public.raffle_entries_history (player_id, event_id, entries_before, entries_after, reason, created_by)
+    SELECT t.player_id, event_uuid, coalesce(b.entries_next, 1), t.entries_next, t.reason, actor
+    FROM temp_weights t
+    LEFT JOIN temp_weights_before b ON b.player_id = t.player_id
+    RETURNING raffle_entries_history.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries_history', hist.id, 'insert', NULL, to_jsonb(hist)
+  FROM hist;
+
+  RETURN jsonb_build_object('batch_operation_id', v_batch, 'updated', n_updated);
+END;
+$$;
+
+-- Moves everything from source to target and soft-deletes source. Where both
+-- have a row for the same event / raffle the target keeps the larger value
+-- and the source row is deleted; every change is recorded for rollback.
+CREATE OR REPLACE FUNCTION public.merge_players(source_uuid uuid, target_uuid uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_batch uuid;
+  v_source public.players%ROWTYPE;
+  v_target public.players%ROWTYPE;
+  n_changes integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can merge players';
+  END IF;
+  IF source_uuid = target_uuid THEN
+    RAISE EXCEPTION 'Cannot merge a player with itself';
+  END IF;
+
+  SELECT * INTO v_source FROM public.players WHERE id = source_uuid AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'source player % not found', source_uuid;
+  END IF;
+  SELECT * INTO v_target FROM public.players WHERE id = target_uuid AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'target player % not found', target_uuid;
+  END IF;
+
+  INSERT INTO public.batch_operations (operation_type, metadata, created_by)
+  VALUES (
+    'player_merge',
+    jsonb_build_object(
+      'source_player_id', source_uuid,
+      'target_player_id', target_uuid,
+      'player_count', 2,
+      'description', format('%s merged into %s', v_source.canonical_name, v_target.canonical_name)
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  -- scores: target keeps the higher score for events both played
+  WITH old AS (
+    SELECT t.* FROM public.scores t
+    JOIN public.scores s ON s.event_id = t.event_id AND s.player_id = source_uuid
+    WHERE t.player_id = target_uuid AND s.score > t.score
+    FOR UPDATE OF t
+  ),
+  upd AS (
+    UPDATE public.scores t
+    SET score = s.score, raw_score = s.raw_score, rank = s.rank, verified = s.verified
+    FROM old, public.scores s
+    WHERE t.id = old.id AND s.event_id = t.event_id AND s.player_id = source_uuid
+    RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'scores', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH del AS (
+    DELETE FROM public.scores s
+    USING public.scores t
+    WHERE s.player_id = source_uuid AND t.player_id = target_uuid AND t.event_id = s.event_id
+    RETURNING s.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'scores', del.id, 'delete', to_jsonb(del), NULL FROM del;
+
+  -- raffle weights: target keeps the larger entries_next
+  WITH old AS (
+    SELECT t.* FROM public.raffle_weights t
+    JOIN public.raffle_weights s ON s.event_id = t.event_id AND s.player_id = source_uuid
+    WHERE t.player_id = target_uuid AND coalesce(s.entries_next, 1) > coalesce(t.entries_next, 1)
+    FOR UPDATE OF t
+  ),
+  upd AS (
+    UPDATE public.raffle_weights t
+    SET entries_next = s.entries_next, entries_before = s.entries_before, last_updated = now()
+    FROM old, public.raffle_weights s
+    WHERE t.id = old.id AND s.event_id = t.event_id AND s.player_id = source_uuid
+    RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_weights', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH del AS (
+    DELETE FROM public.raffle_weights s
+    USING public.raffle_weights t
+    WHERE s.player_id = source_uuid AND t.player_id = target_uuid AND t.event_id = s.event_id
+    RETURNING s.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_weights', del.id, 'delete', to_jsonb(del), NULL FROM del;
+
+  -- raffle entries: one per raffle and player, the target's wins
+  WITH del AS (
+    DELETE FROM public.raffle_entries s
+    USING public.raffle_entries t
+    WHERE s.player_id = source_uuid AND t.player_id = target_uuid AND t.raffle_id = s.raffle_id
+    RETURNING s.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries', del.id, 'delete', to_jsonb(del), NULL FROM del;
+
+  -- everything left moves over
+  WITH old AS (
+    SELECT * FROM public.scores WHERE player_id = source_uuid FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.scores t SET player_id = target_uuid FROM old WHERE t.id = old.id RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'scores', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.raffle_weights WHERE player_id = source_uuid FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.raffle_weights t SET player_id = target_uuid FROM old WHERE t.id = old.id RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_weights', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.raffle_entries WHERE player_id = source_uuid FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.raffle_entries t SET player_id = target_uuid FROM old WHERE t.id = old.id RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.ledger_transactions WHERE player_id = source_uuid FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.ledger_transactions t SET player_id = target_uuid FROM old WHERE t.id = old.id RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'ledger_transactions', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  -- alts of the source now belong to the target
+  WITH old AS (
+    SELECT * FROM public.players WHERE main_player_id = source_uuid FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.players t SET main_player_id = target_uuid FROM old WHERE t.id = old.id RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'players', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH upd AS (
+    UPDATE public.players SET deleted_at = now() WHERE id = source_uuid RETURNING *
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'players', upd.id, 'update', to_jsonb(v_source), to_jsonb(upd) FROM upd;
+
+  SELECT count(*) INTO n_changes FROM public.batch_operation_changes WHERE batch_operation_id = v_batch;
+
+  RETURN jsonb_build_object('batch_operation_id', v_batch, 'changes', n_changes);
+END;
+$$;
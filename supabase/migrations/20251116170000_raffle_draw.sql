@@ -0,0 +1,335 @@
+-- Server-side raffle draw with a commit-reveal seed.
+--
+-- 1. commit_raffle_seed() picks a random seed and publishes only its sha256
+--    (raffles.seed_hash) before anyone knows the pool's final shape.
+-- 2. draw_raffle() snapshots the weighted pool, draws with the seed and
+--    writes entries, weights, history and totals in one transaction.
+-- 3. raffle_draws keeps the revealed seed, the pool and the winners so anyone
+--    can replay the draw (src/lib/raffleDraw.ts does it in the browser):
+--      for k = 0 .. prizes-1, over the players not yet drawn in pool order:
+--        h    = hex(sha256(seed || ':' || k))
+--        pick = int(first 15 hex digits of h) mod (sum of their entries)
+--        winner = first player whose running entry total exceeds pick
+--
+-- A raffle gets exactly one seed. Rolling a draw back returns the raffle to
+-- pending with that seed still committed, so a redraw can't pick a new one;
+-- the rolled back draw stays in raffle_draws.
+
+-- secret until the draw – no policies, only the functions below read it
+CREATE TABLE IF NOT EXISTS public.raffle_seeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID NOT NULL REFERENCES public.raffles(id) ON DELETE CASCADE,
+  seed TEXT NOT NULL,
+  seed_hash TEXT NOT NULL,
+  committed_by UUID NOT NULL,
+  committed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revealed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- one seed per raffle, revealed or not
+CREATE UNIQUE INDEX IF NOT EXISTS raffle_seeds_raffle_idx
+  ON public.raffle_seeds (raffle_id);
+
+ALTER TABLE public.raffle_seeds ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.raffles
+  ADD COLUMN IF NOT EXISTS seed_hash TEXT,
+  ADD COLUMN IF NOT EXISTS seed_committed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.raffle_draws (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID NOT NULL REFERENCES public.raffles(id) ON DELETE CASCADE,
+  batch_operation_id UUID REFERENCES public.batch_operations(id),
+  algorithm TEXT NOT NULL DEFAULT 'sha256-v1',
+  seed TEXT NOT NULL,
+  seed_hash TEXT NOT NULL,
+  seed_committed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- [{ player_id, name, entries }] in draw order
+  pool JSONB NOT NULL,
+  -- [{ player_id, name, entries, prize_amount }] first winner first
+  winners JSONB NOT NULL,
+  total_prizes INTEGER NOT NULL,
+  drawn_by UUID NOT NULL,
+  drawn_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS raffle_draws_raffle_idx
+  ON public.raffle_draws (raffle_id, drawn_at DESC);
+
+ALTER TABLE public.raffle_draws ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view raffle draws"
+  ON public.raffle_draws FOR SELECT
+  USING (true);
+
+-- a rolled back draw puts the raffle and the event totals back too
+ALTER TABLE public.batch_operation_changes
+  DROP CONSTRAINT IF EXISTS batch_operation_changes_table_name_check;
+ALTER TABLE public.batch_operation_changes
+  ADD CONSTRAINT batch_operation_changes_table_name_check CHECK (table_name IN (
+    'scores', 'raffle_weights', 'raffle_entries', 'raffle_entries_history', 'players',
+    'ledger_transactions', 'raffles', 'event_totals'
+  ));
+
+CREATE OR REPLACE FUNCTION public.commit_raffle_seed(raffle_uuid uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_raffle public.raffles%ROWTYPE;
+  v_seed text;
+  v_hash text;
+  v_at timestamptz := now();
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+
+  SELECT * INTO v_raffle FROM public.raffles WHERE id = raffle_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'raffle % not found', raffle_uuid;
+  END IF;
+  IF v_raffle.status <> 'pending' THEN
+    RAISE EXCEPTION 'raffle has already been drawn';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.raffle_seeds WHERE raffle_id = raffle_uuid) THEN
+    RAISE EXCEPTION 'a seed is already committed for this raffle';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.raffle_draws WHERE raffle_id = raffle_uuid) THEN
+    RAISE EXCEPTION 'this raffle has been drawn before and is redrawn with its original seed';
+  END IF;
+
+  -- 244 random bits from two v4 uuids
+  v_seed := replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+  v_hash := encode(sha256(convert_to(v_seed, 'UTF8')), 'hex');
+
+  INSERT INTO public.raffle_seeds (raffle_id, seed, seed_hash, committed_by, committed_at)
+  VALUES (raffle_uuid, v_seed, v_hash, actor, v_at);
+
+  UPDATE public.raffles
+  SET seed_hash = v_hash, seed_committed_at = v_at
+  WHERE id = raffle_uuid;
+
+  RETURN jsonb_build_object('seed_hash', v_hash, 'committed_at', v_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.draw_raffle(raffle_uuid uuid, prize_amount numeric DEFAULT 25000000)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_raffle public.raffles%ROWTYPE;
+  v_seed public.raffle_seeds%ROWTYPE;
+  v_min numeric;
+  v_batch uuid;
+  v_total bigint;
+  v_pick bigint;
+  v_hash text;
+  v_winner uuid;
+  v_pool jsonb;
+  v_winners jsonb;
+  v_draw uuid;
+  n_winners integer;
+  k integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+
+  SELECT * INTO v_raffle FROM public.raffles WHERE id = raffle_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'raffle % not found', raffle_uuid;
+  END IF;
+  IF v_raffle.status <> 'pending' THEN
+    RAISE EXCEPTION 'raffle has already been drawn';
+  END IF;
+
+  -- a rolled back raffle is redrawn with the seed committed before its first draw
+  SELECT * INTO v_seed FROM public.raffle_seeds
+  WHERE raffle_id = raffle_uuid
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'commit a seed before drawing';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = v_raffle.event_id FOR UPDATE;
+
+  SELECT coalesce(min_score_for_raffle, 0) INTO v_min
+  FROM public.event_totals
+  WHERE event_id = v_raffle.event_id
+  ORDER BY (medal_id = v_raffle.medal_id) DESC
+  LIMIT 1;
+  v_min := coalesce(v_min, 0);
+
+  -- one base entry plus the carried-over entries, in a fixed order
+  CREATE TEMP TABLE temp_raffle_pool ON COMMIT DROP AS
+  SELECT
+    row_number() OVER (ORDER BY s.player_id::text) AS ord,
+    s.player_id,
+    coalesce(p.canonical_name, 'Unknown') AS name,
+    (1 + coalesce(rw.entries_next, 0))::bigint AS entries,
+    coalesce(rw.entries_next, 0) AS carryover,
+    NULL::integer AS win_order
+  FROM public.scores s
+  LEFT JOIN public.players p ON p.id = s.player_id
+  LEFT JOIN public.raffle_weights rw ON rw.event_id = s.event_id AND rw.player_id = s.player_id
+  WHERE s.event_id = v_raffle.event_id AND s.score >= v_min;
+
+  IF NOT EXISTS (SELECT 1 FROM temp_raffle_pool) THEN
+    RAISE EXCEPTION 'No qualified players for this event';
+  END IF;
+
+  FOR k IN 0 .. v_raffle.total_prizes - 1 LOOP
+    SELECT coalesce(sum(entries), 0) INTO v_total FROM temp_raffle_pool WHERE win_order IS NULL;
+    EXIT WHEN v_total = 0;
+
+    v_hash := encode(sha256(convert_to(v_seed.seed || ':' || k, 'UTF8')), 'hex');
+    v_pick := ('x' || lpad(substr(v_hash, 1, 15), 16, '0'))::bit(64)::bigint % v_total;
+
+    SELECT c.player_id INTO v_winner
+    FROM (
+      SELECT player_id, ord, sum(entries) OVER (ORDER BY ord) AS running
+      FROM temp_raffle_pool
+      WHERE win_order IS NULL
+    ) c
+    WHERE c.running > v_pick
+    ORDER BY c.ord
+    LIMIT 1;
+
+    UPDATE temp_raffle_pool SET win_order = k + 1 WHERE player_id = v_winner;
+  END LOOP;
+
+  SELECT
+    jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries) ORDER BY ord),
+    jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries, 'prize_amount', prize_amount)
+      ORDER BY win_order) FILTER (WHERE win_order IS NOT NULL),
+    count(win_order)
+  INTO v_pool, v_winners, n_winners
+  FROM temp_raffle_pool;
+  v_winners := coalesce(v_winners, '[]'::jsonb);
+
+  INSERT INTO public.batch_operations (operation_type, event_id, metadata, created_by)
+  VALUES (
+    'raffle_draw',
+    v_raffle.event_id,
+    jsonb_build_object(
+      'raffle_id', raffle_uuid,
+      'raffle_name', v_raffle.name,
+      'total_prizes', v_raffle.total_prizes,
+      'winners_count', n_winners,
+      'winners', (SELECT jsonb_agg(w->>'name') FROM jsonb_array_elements(v_winners) w),
+      'player_count', (SELECT count(*) FROM temp_raffle_pool),
+      'description', format('%s drawn: %s winner(s), seed %s', v_raffle.name, n_winners, left(v_seed.seed_hash, 12))
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  WITH ins AS (
+    INSERT INTO public.raffle_entries (raffle_id, player_id, weight, is_winner, prize_amount, batch_operation_id)
+    SELECT raffle_uuid, player_id, entries, win_order IS NOT NULL,
+           CASE WHEN win_order IS NOT NULL THEN prize_amount END, v_batch
+    FROM temp_raffle_pool
+    RETURNING raffle_entries.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries', ins.id, 'insert', NULL, to_jsonb(ins) FROM ins;
+
+  -- winners start over, everyone else who qualified carries one more entry
+  CREATE TEMP TABLE temp_raffle_weights_before ON COMMIT DROP AS
+  SELECT rw.* FROM public.raffle_weights rw
+  JOIN temp_raffle_pool t ON t.player_id = rw.player_id
+  WHERE rw.event_id = v_raffle.event_id;
+
+  WITH up AS (
+    INSERT INTO public.raffle_weights (event_id, player_id, entries_before, entries_next, updated_by, last_updated)
+    SELECT v_raffle.event_id, t.player_id, t.carryover,
+           CASE WHEN t.win_order IS NOT NULL THEN 0 ELSE t.carryover + 1 END, actor, now()
+    FROM temp_raffle_pool t
+    ON CONFLICT (player_id, event_id)
+    DO UPDATE SET
+      entries_before = excluded.entries_before,
+      entries_next = excluded.entries_next,
+      updated_by = excluded.updated_by,
+      last_updated = excluded.last_updated
+    RETURNING raffle_weights.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'raffle_weights', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_raffle_weights_before b ON b.id = up.id;
+
+  WITH hist AS (
+    INSERT INTO public.raffle_entries_history (event_id, player_id, entries_before, entries_after, reason, created_by)
+    SELECT v_raffle.event_id, player_id, carryover,
+           CASE WHEN win_order IS NOT NULL THEN 0 ELSE carryover + 1 END,
+           CASE WHEN win_order IS NOT NULL THEN 'won_raffle_reset' ELSE 'missed_raffle_but_qualified' END,
+           actor
+    FROM temp_raffle_pool
+    RETURNING raffle_entries_history.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries_history', hist.id, 'insert', NULL, to_jsonb(hist) FROM hist;
+
+  -- raffle prizes come out of the event pot before the weighted distribution
+  WITH old AS (
+    SELECT * FROM public.event_totals
+    WHERE event_id = v_raffle.event_id AND medal_id = v_raffle.medal_id
+    FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.event_totals t
+    SET raffle_amount_used = coalesce(t.raffle_amount_used, 0) + n_winners * prize_amount
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'event_totals', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.raffles WHERE id = raffle_uuid
+  ),
+  upd AS (
+    UPDATE public.raffles t
+    SET status = 'completed', drawn_at = now()
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  -- a rollback returns the raffle to pending with its committed seed
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffles', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  UPDATE public.raffle_seeds SET revealed_at = coalesce(revealed_at, now()) WHERE id = v_seed.id;
+
+  INSERT INTO public.raffle_draws (
+    raffle_id, batch_operation_id, seed, seed_hash, seed_committed_at,
+    pool, winners, total_prizes, drawn_by
+  )
+  VALUES (
+    raffle_uuid, v_batch, v_seed.seed, v_seed.seed_hash, v_seed.committed_at,
+    v_pool, v_winners, v_raffle.total_prizes, actor
+  )
+  RETURNING id INTO v_draw;
+
+  RETURN jsonb_build_object(
+    'draw_id', v_draw,
+    'batch_operation_id', v_batch,
+    'winners', v_winners,
+    'seed', v_seed.seed,
+    'seed_hash', v_seed.seed_hash
+  );
+END;
+$$;
@@ -0,0 +1,391 @@
+-- Raffle weight formulas. raffle_pool() is the single place entries are
+-- computed: draw_raffle() draws from it and preview_raffle_pool() shows the
+-- same numbers on the creation form before the raffle exists.
+--
+--   flat                  1 entry each
+--   carryover             1 + entries carried over from missed raffles
+--   score_tiered          entries of the highest bracket the raw score reaches
+--                         params: { "tiers": [{ "min_score": "<digits>", "entries": n }] }
+--   log_score             1 more entry each time the score doubles past the
+--                         raffle minimum; params: { "max_entries": n }
+--   participation_streak  1 per consecutive event played, this one included;
+--                         params: { "max_entries": n }
+
+UPDATE public.raffles SET weight_formula = 'carryover' WHERE weight_formula = 'score';
+
+ALTER TABLE public.raffles
+  ALTER COLUMN weight_formula SET DEFAULT 'carryover',
+  ADD COLUMN IF NOT EXISTS weight_params JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.raffles
+  ADD CONSTRAINT raffles_weight_formula_check CHECK (weight_formula IN (
+    'flat', 'carryover', 'score_tiered', 'log_score', 'participation_streak'
+  ));
+
+ALTER TABLE public.raffle_draws
+  ADD COLUMN IF NOT EXISTS weight_formula TEXT NOT NULL DEFAULT 'carryover',
+  ADD COLUMN IF NOT EXISTS weight_params JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+CREATE OR REPLACE FUNCTION public.raffle_pool(
+  event_uuid uuid,
+  medal_uuid uuid,
+  formula text,
+  params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  player_id uuid,
+  name text,
+  raw_score numeric(30,0),
+  carryover integer,
+  streak integer,
+  entries bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_min numeric;
+  v_cap bigint;
+  v_event public.events%ROWTYPE;
+  bad jsonb;
+BEGIN
+  IF formula NOT IN ('flat', 'carryover', 'score_tiered', 'log_score', 'participation_streak') THEN
+    RAISE EXCEPTION 'unknown weight formula: %', formula;
+  END IF;
+
+  params := coalesce(params, '{}'::jsonb);
+  IF coalesce(params->>'max_entries', '') !~ '^\d{0,6}$' THEN
+    RAISE EXCEPTION 'max_entries must be a whole number';
+  END IF;
+  v_cap := nullif(nullif(params->>'max_entries', ''), '0')::bigint;
+
+  IF formula = 'score_tiered' THEN
+    IF jsonb_typeof(params->'tiers') <> 'array' OR jsonb_array_length(params->'tiers') = 0 THEN
+      RAISE EXCEPTION 'score_tiered needs at least one tier';
+    END IF;
+    SELECT t INTO bad
+    FROM jsonb_array_elements(params->'tiers') t
+    WHERE coalesce(t->>'min_score', '') !~ '^\d{1,30}$'
+       OR coalesce(t->>'entries', '') !~ '^[1-9]\d{0,5}$'
+    LIMIT 1;
+    IF bad IS NOT NULL THEN
+      RAISE EXCEPTION 'invalid tier: %', bad;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = event_uuid;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event % not found', event_uuid;
+  END IF;
+
+  SELECT coalesce(min_score_for_raffle, 0) INTO v_min
+  FROM public.event_totals
+  WHERE event_id = event_uuid
+  ORDER BY (medal_id = medal_uuid) DESC
+  LIMIT 1;
+  v_min := coalesce(v_min, 0);
+
+  RETURN QUERY
+  WITH qualified AS (
+    SELECT
+      s.player_id AS pid,
+      coalesce(p.canonical_name, 'Unknown') AS pname,
+      coalesce(s.raw_score, s.score)::numeric(30,0) AS raw,
+      coalesce(rw.entries_next, 0) AS carried
+    FROM public.scores s
+    LEFT JOIN public.players p ON p.id = s.player_id
+    LEFT JOIN public.raffle_weights rw ON rw.event_id = s.event_id AND rw.player_id = s.player_id
+    WHERE s.event_id = event_uuid AND s.score >= v_min
+  ),
+  -- this event and the earlier ones of the same type, newest first – missing
+  -- an unrelated kind of event doesn't break a streak
+  history AS (
+    SELECT e.id, row_number() OVER (ORDER BY e.event_date DESC, e.created_at DESC) AS n
+    FROM public.events e
+    WHERE e.deleted_at IS NULL
+      AND e.event_type IS NOT DISTINCT FROM v_event.event_type
+      AND (e.event_date, e.created_at) <= (v_event.event_date, v_event.created_at)
+  ),
+  streaks AS (
+    SELECT
+      q.pid,
+      coalesce(
+        (SELECT min(h.n) - 1 FROM history h
+         WHERE NOT EXISTS (SELECT 1 FROM public.scores s2 WHERE s2.event_id = h.id AND s2.player_id = q.pid)),
+        (SELECT count(*) FROM history)
+      )::integer AS played
+    FROM qualified q
+  ),
+  weighted AS (
+    SELECT
+      q.*,
+      st.played,
+      CASE formula
+        WHEN 'flat' THEN 1
+        WHEN 'carryover' THEN 1 + q.carried
+        WHEN 'score_tiered' THEN coalesce((
+          SELECT max((t->>'entries')::bigint)
+          FROM jsonb_array_elements(params->'tiers') t
+          WHERE q.raw >= (t->>'min_score')::numeric
+        ), 1)
+        WHEN 'log_score' THEN
+          1 + floor(log(2::numeric, greatest(q.raw, greatest(v_min, 1)) / greatest(v_min, 1)))::bigint
+        WHEN 'participation_streak' THEN greatest(st.played, 1)
+      END::bigint AS raw_entries
+    FROM qualified q
+    JOIN streaks st ON st.pid = q.pid
+  )
+  SELECT
+    w.pid,
+    w.pname,
+    w.raw,
+    w.carried,
+    w.played,
+    -- the cap only applies to the formulas that can grow without bound
+    CASE WHEN v_cap IS NOT NULL AND formula IN ('log_score', 'participation_streak')
+      THEN least(w.raw_entries, v_cap) ELSE w.raw_entries END
+  FROM weighted w
+  ORDER BY w.pid::text;
+END;
+$$;
+
+-- raw scores as text: numeric(30,0) doesn't survive a JS number
+CREATE OR REPLACE FUNCTION public.preview_raffle_pool(
+  event_uuid uuid,
+  medal_uuid uuid,
+  formula text,
+  params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+
+  RETURN (
+    SELECT coalesce(jsonb_agg(jsonb_build_object(
+      'player_id', r.player_id,
+      'name', r.name,
+      'raw_score', r.raw_score::text,
+      'carryover', r.carryover,
+      'streak', r.streak,
+      'entries', r.entries
+    ) ORDER BY r.entries DESC, r.raw_score DESC), '[]'::jsonb)
+    FROM public.raffle_pool(event_uuid, medal_uuid, formula, params) r
+  );
+END;
+$$;
+
+-- same draw, now from raffle_pool()
+CREATE OR REPLACE FUNCTION public.draw_raffle(raffle_uuid uuid, prize_amount numeric DEFAULT 25000000)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_raffle public.raffles%ROWTYPE;
+  v_seed public.raffle_seeds%ROWTYPE;
+  v_batch uuid;
+  v_total bigint;
+  v_pick bigint;
+  v_hash text;
+  v_winner uuid;
+  v_pool jsonb;
+  v_winners jsonb;
+  v_draw uuid;
+  n_winners integer;
+  k integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+
+  SELECT * INTO v_raffle FROM public.raffles WHERE id = raffle_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'raffle % not found', raffle_uuid;
+  END IF;
+  IF v_raffle.status <> 'pending' THEN
+    RAISE EXCEPTION 'raffle has already been drawn';
+  END IF;
+
+  -- a rolled back raffle is redrawn with the seed committed before its first draw
+  SELECT * INTO v_seed FROM public.raffle_seeds
+  WHERE raffle_id = raffle_uuid
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'commit a seed before drawing';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = v_raffle.event_id FOR UPDATE;
+
+  -- entries from the raffle's formula, in a fixed order
+  CREATE TEMP TABLE temp_raffle_pool ON COMMIT DROP AS
+  SELECT
+    row_number() OVER (ORDER BY r.player_id::text) AS ord,
+    r.player_id,
+    r.name,
+    r.entries,
+    r.carryover,
+    NULL::integer AS win_order
+  FROM public.raffle_pool(v_raffle.event_id, v_raffle.medal_id, v_raffle.weight_formula, v_raffle.weight_params) r;
+
+  IF NOT EXISTS (SELECT 1 FROM temp_raffle_pool) THEN
+    RAISE EXCEPTION 'No qualified players for this event';
+  END IF;
+
+  FOR k IN 0 .. v_raffle.total_prizes - 1 LOOP
+    SELECT coalesce(sum(entries), 0) INTO v_total FROM temp_raffle_pool WHERE win_order IS NULL;
+    EXIT WHEN v_total = 0;
+
+    v_hash := encode(sha256(convert_to(v_seed.seed || ':' || k, 'UTF8')), 'hex');
+    v_pick := ('x' || lpad(substr(v_hash, 1, 15), 16, '0'))::bit(64)::bigint % v_total;
+
+    SELECT c.player_id INTO v_winner
+    FROM (
+      SELECT player_id, ord, sum(entries) OVER (ORDER BY ord) AS running
+      FROM temp_raffle_pool
+      WHERE win_order IS NULL
+    ) c
+    WHERE c.running > v_pick
+    ORDER BY c.ord
+    LIMIT 1;
+
+    UPDATE temp_raffle_pool SET win_order = k + 1 WHERE player_id = v_winner;
+  END LOOP;
+
+  SELECT
+    jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries) ORDER BY ord),
+    jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries, 'prize_amount', prize_amount)
+      ORDER BY win_order) FILTER (WHERE win_order IS NOT NULL),
+    count(win_order)
+  INTO v_pool, v_winners, n_winners
+  FROM temp_raffle_pool;
+  v_winners := coalesce(v_winners, '[]'::jsonb);
+
+  INSERT INTO public.batch_operations (operation_type, event_id, metadata, created_by)
+  VALUES (
+    'raffle_draw',
+    v_raffle.event_id,
+    jsonb_build_object(
+      'raffle_id', raffle_uuid,
+      'raffle_name', v_raffle.name,
+      'total_prizes', v_raffle.total_prizes,
+      'winners_count', n_winners,
+      'winners', (SELECT jsonb_agg(w->>'name') FROM jsonb_array_elements(v_winners) w),
+      'player_count', (SELECT count(*) FROM temp_raffle_pool),
+      'weight_formula', v_raffle.weight_formula,
+      'description', format('%s drawn: %s winner(s), seed %s', v_raffle.name, n_winners, left(v_seed.seed_hash, 12))
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  WITH ins AS (
+    INSERT INTO public.raffle_entries (raffle_id, player_id, weight, is_winner, prize_amount, batch_operation_id)
+    SELECT raffle_uuid, player_id, entries, win_order IS NOT NULL,
+           CASE WHEN win_order IS NOT NULL THEN prize_amount END, v_batch
+    FROM temp_raffle_pool
+    RETURNING raffle_entries.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries', ins.id, 'insert', NULL, to_jsonb(ins) FROM ins;
+
+  -- winners start over, everyone else who qualified carries one more entry
+  CREATE TEMP TABLE temp_raffle_weights_before ON COMMIT DROP AS
+  SELECT rw.* FROM public.raffle_weights rw
+  JOIN temp_raffle_pool t ON t.player_id = rw.player_id
+  WHERE rw.event_id = v_raffle.event_id;
+
+  WITH up AS (
+    INSERT INTO public.raffle_weights (event_id, player_id, entries_before, entries_next, updated_by, last_updated)
+    SELECT v_raffle.event_id, t.player_id, t.carryover,
+           CASE WHEN t.win_order IS NOT NULL THEN 0 ELSE t.carryover + 1 END, actor, now()
+    FROM temp_raffle_pool t
+    ON CONFLICT (player_id, event_id)
+    DO UPDATE SET
+      entries_before = excluded.entries_before,
+      entries_next = excluded.entries_next,
+      updated_by = excluded.updated_by,
+      last_updated = excluded.last_updated
+    RETURNING raffle_weights.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'raffle_weights', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_raffle_weights_before b ON b.id = up.id;
+
+  WITH hist AS (
+    INSERT INTO public.raffle_entries_history (event_id, player_id, entries_before, entries_after, reason, created_by)
+    SELECT v_raffle.event_id, player_id, carryover,
+           CASE WHEN win_order IS NOT NULL THEN 0 ELSE carryover + 1 END,
+           CASE WHEN win_order IS NOT NULL THEN 'won_raffle_reset' ELSE 'missed_raffle_but_qualified' END,
+           actor
+    FROM temp_raffle_pool
+    RETURNING raffle_entries_history.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries_history', hist.id, 'insert', NULL, to_jsonb(hist) FROM hist;
+
+  -- raffle prizes come out of the event pot before the weighted distribution
+  WITH old AS (
+    SELECT * FROM public.event_totals
+    WHERE event_id = v_raffle.event_id AND medal_id = v_raffle.medal_id
+    FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.event_totals t
+    SET raffle_amount_used = coalesce(t.raffle_amount_used, 0) + n_winners * prize_amount
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'event_totals', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.raffles WHERE id = raffle_uuid
+  ),
+  upd AS (
+    UPDATE public.raffles t
+    SET status = 'completed', drawn_at = now()
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  -- a rollback returns the raffle to pending with its committed seed
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffles', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  UPDATE public.raffle_seeds SET revealed_at = coalesce(revealed_at, now()) WHERE id = v_seed.id;
+
+  INSERT INTO public.raffle_draws (
+    raffle_id, batch_operation_id, seed, seed_hash, seed_committed_at,
+    pool, winners, total_prizes, weight_formula, weight_params, drawn_by
+  )
+  VALUES (
+    raffle_uuid, v_batch, v_seed.seed, v_seed.seed_hash, v_seed.committed_at,
+    v_pool, v_winners, v_raffle.total_prizes, v_raffle.weight_formula, v_raffle.weight_params, actor
+  )
+  RETURNING id INTO v_draw;
+
+  RETURN jsonb_build_object(
+    'draw_id', v_draw,
+    'batch_operation_id', v_batch,
+    'winners', v_winners,
+    'seed', v_seed.seed,
+    'seed_hash', v_seed.seed_hash
+  );
+END;
+$$;
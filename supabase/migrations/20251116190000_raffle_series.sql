@@ -0,0 +1,585 @@
+-- Raffle series: carryover flows from one event to the next in a series
+-- instead of staying on the event it was earned in.
+--
+-- A raffle_weights row is now the state a player leaves an event with:
+-- entries_before is what they carried in, entries_next what they carry on.
+-- raffle_carryover(event) finds each player's entries_next on the latest
+-- earlier event of the same series, which is what the draw and the
+-- reweight start from. raffle_entries_history rows name the series and the
+-- event the entries came from, so a player's history reads as one chain.
+--
+-- Until now the rows of an event that has not been drawn held what its own
+-- draw would start from. They are converted to pass that value through
+-- unchanged (entries_before = entries_next), as if the event had not held a
+-- raffle; its pending raffles start from the series carryover when drawn,
+-- and the draw overwrites the rows of everyone in its pool.
+
+UPDATE public.raffle_weights rw
+SET entries_before = rw.entries_next
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.raffles r
+  WHERE r.event_id = rw.event_id AND r.status = 'completed'
+);
+
+CREATE TABLE IF NOT EXISTS public.raffle_series (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  -- new events join the default series unless told otherwise
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS raffle_series_default_idx
+  ON public.raffle_series (is_default) WHERE is_default;
+
+ALTER TABLE public.raffle_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view raffle series"
+  ON public.raffle_series FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins and leaders can manage raffle series"
+  ON public.raffle_series FOR ALL
+  USING (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role));
+
+CREATE TRIGGER update_raffle_series_updated_at
+  BEFORE UPDATE ON public.raffle_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.raffle_series (name, description, is_default)
+VALUES ('Guild Raffle', 'Guild-wide carryover across all events', true)
+ON CONFLICT (name) DO NOTHING;
+
+ALTER TABLE public.events
+  ADD COLUMN IF NOT EXISTS raffle_series_id UUID REFERENCES public.raffle_series(id) ON DELETE SET NULL;
+
+UPDATE public.events
+SET raffle_series_id = (SELECT id FROM public.raffle_series WHERE is_default)
+WHERE raffle_series_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS events_raffle_series_idx
+  ON public.events (raffle_series_id, event_date, created_at);
+
+CREATE OR REPLACE FUNCTION public.set_default_raffle_series()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.raffle_series_id IS NULL THEN
+    NEW.raffle_series_id := (SELECT id FROM public.raffle_series WHERE is_default);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_events_raffle_series
+  BEFORE INSERT ON public.events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_default_raffle_series();
+
+-- carried into event_uuid: entries_next from the latest earlier event of its series
+CREATE OR REPLACE FUNCTION public.raffle_carryover(event_uuid uuid)
+RETURNS TABLE (player_id uuid, entries integer, from_event_id uuid)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (rw.player_id)
+    rw.player_id,
+    coalesce(rw.entries_next, 0),
+    rw.event_id
+  FROM public.events cur
+  JOIN public.events e
+    ON e.raffle_series_id = cur.raffle_series_id
+   AND e.deleted_at IS NULL
+   AND (e.event_date, e.created_at) < (cur.event_date, cur.created_at)
+  JOIN public.raffle_weights rw ON rw.event_id = e.id
+  WHERE cur.id = event_uuid
+  ORDER BY rw.player_id, e.event_date DESC, e.created_at DESC;
+$$;
+
+ALTER TABLE public.raffle_entries_history
+  ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES public.raffle_series(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS previous_event_id UUID REFERENCES public.events(id) ON DELETE SET NULL;
+
+UPDATE public.raffle_entries_history h
+SET series_id = e.raffle_series_id
+FROM public.events e
+WHERE e.id = h.event_id AND h.series_id IS NULL;
+
+-- existing history links to the player's latest earlier event of the series
+UPDATE public.raffle_entries_history h
+SET previous_event_id = (
+  SELECT e.id
+  FROM public.events cur
+  JOIN public.events e
+    ON e.raffle_series_id = cur.raffle_series_id
+   AND e.deleted_at IS NULL
+   AND (e.event_date, e.created_at) < (cur.event_date, cur.created_at)
+  JOIN public.raffle_weights rw ON rw.event_id = e.id AND rw.player_id = h.player_id
+  WHERE cur.id = h.event_id
+  ORDER BY e.event_date DESC, e.created_at DESC
+  LIMIT 1
+)
+WHERE h.previous_event_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS raffle_entries_history_chain_idx
+  ON public.raffle_entries_history (series_id, player_id, created_at);
+
+-- every writer of history (draw, reweight, manual) gets the chain links
+CREATE OR REPLACE FUNCTION public.link_raffle_entries_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.series_id IS NULL THEN
+    NEW.series_id := (SELECT raffle_series_id FROM public.events WHERE id = NEW.event_id);
+  END IF;
+  IF NEW.previous_event_id IS NULL THEN
+    SELECT c.from_event_id INTO NEW.previous_event_id
+    FROM public.raffle_carryover(NEW.event_id) c
+    WHERE c.player_id = NEW.player_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_raffle_entries_history
+  BEFORE INSERT ON public.raffle_entries_history
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_raffle_entries_history();
+
+-- the pool starts from the series carryover
+CREATE OR REPLACE FUNCTION public.raffle_pool(
+  event_uuid uuid,
+  medal_uuid uuid,
+  formula text,
+  params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  player_id uuid,
+  name text,
+  raw_score numeric(30,0),
+  carryover integer,
+  streak integer,
+  entries bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_min numeric;
+  v_cap bigint;
+  v_event public.events%ROWTYPE;
+  bad jsonb;
+BEGIN
+  IF formula NOT IN ('flat', 'carryover', 'score_tiered', 'log_score', 'participation_streak') THEN
+    RAISE EXCEPTION 'unknown weight formula: %', formula;
+  END IF;
+
+  params := coalesce(params, '{}'::jsonb);
+  IF coalesce(params->>'max_entries', '') !~ '^\d{0,6}$' THEN
+    RAISE EXCEPTION 'max_entries must be a whole number';
+  END IF;
+  v_cap := nullif(nullif(params->>'max_entries', ''), '0')::bigint;
+
+  IF formula = 'score_tiered' THEN
+    IF jsonb_typeof(params->'tiers') <> 'array' OR jsonb_array_length(params->'tiers') = 0 THEN
+      RAISE EXCEPTION 'score_tiered needs at least one tier';
+    END IF;
+    SELECT t INTO bad
+    FROM jsonb_array_elements(params->'tiers') t
+    WHERE coalesce(t->>'min_score', '') !~ '^\d{1,30}$'
+       OR coalesce(t->>'entries', '') !~ '^[1-9]\d{0,5}$'
+    LIMIT 1;
+    IF bad IS NOT NULL THEN
+      RAISE EXCEPTION 'invalid tier: %', bad;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = event_uuid;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event % not found', event_uuid;
+  END IF;
+
+  SELECT coalesce(min_score_for_raffle, 0) INTO v_min
+  FROM public.event_totals
+  WHERE event_id = event_uuid
+  ORDER BY (medal_id = medal_uuid) DESC
+  LIMIT 1;
+  v_min := coalesce(v_min, 0);
+
+  RETURN QUERY
+  WITH qualified AS (
+    SELECT
+      s.player_id AS pid,
+      coalesce(p.canonical_name, 'Unknown') AS pname,
+      coalesce(s.raw_score, s.score)::numeric(30,0) AS raw,
+      coalesce(c.entries, 0) AS carried
+    FROM public.scores s
+    LEFT JOIN public.players p ON p.id = s.player_id
+    LEFT JOIN public.raffle_carryover(event_uuid) c ON c.player_id = s.player_id
+    WHERE s.event_id = event_uuid AND s.score >= v_min
+  ),
+  -- this event and the earlier ones of its series, newest first (same as
+  -- raffle_carryover); events outside a series fall back to the event type
+  history AS (
+    SELECT e.id, row_number() OVER (ORDER BY e.event_date DESC, e.created_at DESC) AS n
+    FROM public.events e
+    WHERE e.deleted_at IS NULL
+      AND CASE
+        WHEN v_event.raffle_series_id IS NOT NULL THEN e.raffle_series_id = v_event.raffle_series_id
+        ELSE e.raffle_series_id IS NULL AND e.event_type IS NOT DISTINCT FROM v_event.event_type
+      END
+      AND (e.event_date, e.created_at) <= (v_event.event_date, v_event.created_at)
+  ),
+  streaks AS (
+    SELECT
+      q.pid,
+      coalesce(
+        (SELECT min(h.n) - 1 FROM history h
+         WHERE NOT EXISTS (SELECT 1 FROM public.scores s2 WHERE s2.event_id = h.id AND s2.player_id = q.pid)),
+        (SELECT count(*) FROM history)
+      )::integer AS played
+    FROM qualified q
+  ),
+  weighted AS (
+    SELECT
+      q.*,
+      st.played,
+      CASE formula
+        WHEN 'flat' THEN 1
+        WHEN 'carryover' THEN 1 + q.carried
+        WHEN 'score_tiered' THEN coalesce((
+          SELECT max((t->>'entries')::bigint)
+          FROM jsonb_array_elements(params->'tiers') t
+          WHERE q.raw >= (t->>'min_score')::numeric
+        ), 1)
+        WHEN 'log_score' THEN
+          1 + floor(log(2::numeric, greatest(q.raw, greatest(v_min, 1)) / greatest(v_min, 1)))::bigint
+        WHEN 'participation_streak' THEN greatest(st.played, 1)
+      END::bigint AS raw_entries
+    FROM qualified q
+    JOIN streaks st ON st.pid = q.pid
+  )
+  SELECT
+    w.pid,
+    w.pname,
+    w.raw,
+    w.carried,
+    w.played,
+    -- the cap only applies to the formulas that can grow without bound
+    CASE WHEN v_cap IS NOT NULL AND formula IN ('log_score', 'participation_streak')
+      THEN least(w.raw_entries, v_cap) ELSE w.raw_entries END
+  FROM weighted w
+  ORDER BY w.pid::text;
+END;
+$$;
+
+-- carryover from the series; a second raffle of the same event doesn't undo
+-- the reset of someone who already won the first
+CREATE OR REPLACE FUNCTION public.draw_raffle(raffle_uuid uuid, prize_amount numeric DEFAULT 25000000)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_raffle public.raffles%ROWTYPE;
+  v_seed public.raffle_seeds%ROWTYPE;
+  v_batch uuid;
+  v_total bigint;
+  v_pick bigint;
+  v_hash text;
+  v_winner uuid;
+  v_pool jsonb;
+  v_winners jsonb;
+  v_draw uuid;
+  n_winners integer;
+  k integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+
+  SELECT * INTO v_raffle FROM public.raffles WHERE id = raffle_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'raffle % not found', raffle_uuid;
+  END IF;
+  IF v_raffle.status <> 'pending' THEN
+    RAISE EXCEPTION 'raffle has already been drawn';
+  END IF;
+
+  -- a rolled back raffle is redrawn with the seed committed before its first draw
+  SELECT * INTO v_seed FROM public.raffle_seeds
+  WHERE raffle_id = raffle_uuid
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'commit a seed before drawing';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = v_raffle.event_id FOR UPDATE;
+
+  -- entries from the raffle's formula, in a fixed order
+  CREATE TEMP TABLE temp_raffle_pool ON COMMIT DROP AS
+  SELECT
+    row_number() OVER (ORDER BY r.player_id::text) AS ord,
+    r.player_id,
+    r.name,
+    r.entries,
+    r.carryover,
+    -- already won another raffle of this event
+    EXISTS (
+      SELECT 1 FROM public.raffle_entries re
+      JOIN public.raffles o ON o.id = re.raffle_id
+      WHERE o.event_id = v_raffle.event_id AND re.player_id = r.player_id AND re.is_winner
+    ) AS won_earlier,
+    NULL::integer AS win_order
+  FROM public.raffle_pool(v_raffle.event_id, v_raffle.medal_id, v_raffle.weight_formula, v_raffle.weight_params) r;
+
+  IF NOT EXISTS (SELECT 1 FROM temp_raffle_pool) THEN
+    RAISE EXCEPTION 'No qualified players for this event';
+  END IF;
+
+  FOR k IN 0 .. v_raffle.total_prizes - 1 LOOP
+    SELECT coalesce(sum(entries), 0) INTO v_total FROM temp_raffle_pool WHERE win_order IS NULL;
+    EXIT WHEN v_total = 0;
+
+    v_hash := encode(sha256(convert_to(v_seed.seed || ':' || k, 'UTF8')), 'hex');
+    v_pick := ('x' || lpad(substr(v_hash, 1, 15), 16, '0'))::bit(64)::bigint % v_total;
+
+    SELECT c.player_id INTO v_winner
+    FROM (
+      SELECT player_id, ord, sum(entries) OVER (ORDER BY ord) AS running
+      FROM temp_raffle_pool
+      WHERE win_order IS NULL
+    ) c
+    WHERE c.running > v_pick
+    ORDER BY c.ord
+    LIMIT 1;
+
+    UPDATE temp_raffle_pool SET win_order = k + 1 WHERE player_id = v_winner;
+  END LOOP;
+
+  SELECT
+    jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries) ORDER BY ord),
+    jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries, 'prize_amount', prize_amount)
+      ORDER BY win_order) FILTER (WHERE win_order IS NOT NULL),
+    count(win_order)
+  INTO v_pool, v_winners, n_winners
+  FROM temp_raffle_pool;
+  v_winners := coalesce(v_winners, '[]'::jsonb);
+
+  INSERT INTO public.batch_operations (operation_type, event_id, metadata, created_by)
+  VALUES (
+    'raffle_draw',
+    v_raffle.event_id,
+    jsonb_build_object(
+      'raffle_id', raffle_uuid,
+      'raffle_name', v_raffle.name,
+      'total_prizes', v_raffle.total_prizes,
+      'winners_count', n_winners,
+      'winners', (SELECT jsonb_agg(w->>'name') FROM jsonb_array_elements(v_winners) w),
+      'player_count', (SELECT count(*) FROM temp_raffle_pool),
+      'weight_formula', v_raffle.weight_formula,
+      'description', format('%s drawn: %s winner(s), seed %s', v_raffle.name, n_winners, left(v_seed.seed_hash, 12))
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  WITH ins AS (
+    INSERT INTO public.raffle_entries (raffle_id, player_id, weight, is_winner, prize_amount, batch_operation_id)
+    SELECT raffle_uuid, player_id, entries, win_order IS NOT NULL,
+           CASE WHEN win_order IS NOT NULL THEN prize_amount END, v_batch
+    FROM temp_raffle_pool
+    RETURNING raffle_entries.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries', ins.id, 'insert', NULL, to_jsonb(ins) FROM ins;
+
+  -- winners start over, everyone else who qualified carries one more entry
+  CREATE TEMP TABLE temp_raffle_weights_before ON COMMIT DROP AS
+  SELECT rw.* FROM public.raffle_weights rw
+  JOIN temp_raffle_pool t ON t.player_id = rw.player_id
+  WHERE rw.event_id = v_raffle.event_id;
+
+  WITH up AS (
+    INSERT INTO public.raffle_weights (event_id, player_id, entries_before, entries_next, updated_by, last_updated)
+    SELECT v_raffle.event_id, t.player_id, t.carryover,
+           CASE WHEN t.win_order IS NOT NULL OR t.won_earlier THEN 0 ELSE t.carryover + 1 END, actor, now()
+    FROM temp_raffle_pool t
+    ON CONFLICT (player_id, event_id)
+    DO UPDATE SET
+      entries_before = excluded.entries_before,
+      entries_next = excluded.entries_next,
+      updated_by = excluded.updated_by,
+      last_updated = excluded.last_updated
+    RETURNING raffle_weights.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'raffle_weights', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_raffle_weights_before b ON b.id = up.id;
+
+  WITH hist AS (
+    INSERT INTO public.raffle_entries_history (event_id, player_id, entries_before, entries_after, reason, created_by)
+    SELECT v_raffle.event_id, player_id, carryover,
+           CASE WHEN win_order IS NOT NULL OR won_earlier THEN 0 ELSE carryover + 1 END,
+           CASE WHEN win_order IS NOT NULL OR won_earlier THEN 'won_raffle_reset' ELSE 'missed_raffle_but_qualified' END,
+           actor
+    FROM temp_raffle_pool
+    RETURNING raffle_entries_history.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries_history', hist.id, 'insert', NULL, to_jsonb(hist) FROM hist;
+
+  -- raffle prizes come out of the event pot before the weighted distribution
+  WITH old AS (
+    SELECT * FROM public.event_totals
+    WHERE event_id = v_raffle.event_id AND medal_id = v_raffle.medal_id
+    FOR UPDATE
+  ),
+  upd AS (
+    UPDATE public.event_totals t
+    SET raffle_amount_used = coalesce(t.raffle_amount_used, 0) + n_winners * prize_amount
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'event_totals', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.raffles WHERE id = raffle_uuid
+  ),
+  upd AS (
+    UPDATE public.raffles t
+    SET status = 'completed', drawn_at = now()
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  -- a rollback returns the raffle to pending with its committed seed
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffles', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  UPDATE public.raffle_seeds SET revealed_at = coalesce(revealed_at, now()) WHERE id = v_seed.id;
+
+  INSERT INTO public.raffle_draws (
+    raffle_id, batch_operation_id, seed, seed_hash, seed_committed_at,
+    pool, winners, total_prizes, weight_formula, weight_params, drawn_by
+  )
+  VALUES (
+    raffle_uuid, v_batch, v_seed.seed, v_seed.seed_hash, v_seed.committed_at,
+    v_pool, v_winners, v_raffle.total_prizes, v_raffle.weight_formula, v_raffle.weight_params, actor
+  )
+  RETURNING id INTO v_draw;
+
+  RETURN jsonb_build_object(
+    'draw_id', v_draw,
+    'batch_operation_id', v_batch,
+    'winners', v_winners,
+    'seed', v_seed.seed,
+    'seed_hash', v_seed.seed_hash
+  );
+END;
+$$;
+
+-- entries_before is the series carryover, not the event's own previous value
+CREATE OR REPLACE FUNCTION public.apply_raffle_weights(event_uuid uuid, weights jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_batch uuid;
+  n_updated integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can change raffle weights';
+  END IF;
+  IF jsonb_typeof(weights) <> 'array' THEN
+    RAISE EXCEPTION 'weights must be a JSON array';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = event_uuid FOR UPDATE;
+
+  CREATE TEMP TABLE temp_weights ON COMMIT DROP AS
+  SELECT
+    (w->>'player_id')::uuid AS player_id,
+    (w->>'entries_next')::integer AS entries_next,
+    w->>'reason' AS reason
+  FROM jsonb_array_elements(weights) w;
+
+  CREATE TEMP TABLE temp_weights_before ON COMMIT DROP AS
+  SELECT rw.*
+  FROM public.raffle_weights rw
+  JOIN temp_weights t ON t.player_id = rw.player_id
+  WHERE rw.event_id = event_uuid;
+
+  SELECT count(*) INTO n_updated FROM temp_weights;
+
+  INSERT INTO public.batch_operations (operation_type, event_id, metadata, created_by)
+  VALUES (
+    'raffle_reweight',
+    event_uuid,
+    jsonb_build_object(
+      'updated_count', n_updated,
+      'player_count', n_updated,
+      'description', format('Raffle weights recalculated for %s players', n_updated)
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  WITH up AS (
+    INSERT INTO public.raffle_weights (player_id, event_id, entries_next, entries_before, updated_by)
+    SELECT t.player_id, event_uuid, t.entries_next, coalesce(c.entries, 0), actor
+    FROM temp_weights t
+    LEFT JOIN public.raffle_carryover(event_uuid) c ON c.player_id = t.player_id
+    ON CONFLICT (player_id, event_id)
+    DO UPDATE SET
+      entries_next = excluded.entries_next,
+      entries_before = excluded.entries_before,
+      updated_by = excluded.updated_by,
+      last_updated = now()
+    RETURNING raffle_weights.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'raffle_weights', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_weights_before b ON b.id = up.id;
+
+  WITH hist AS (
+    INSERT INTO public.raffle_entries_history (player_id, event_id, entries_before, entries_after, reason, created_by)
+    SELECT t.player_id, event_uuid, coalesce(c.entries, 0), t.entries_next, t.reason, actor
+    FROM temp_weights t
+    LEFT JOIN public.raffle_carryover(event_uuid) c ON c.player_id = t.player_id
+    RETURNING raffle_entries_history.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries_history', hist.id, 'insert', NULL, to_jsonb(hist)
+  FROM hist;
+
+  RETURN jsonb_build_object('batch_operation_id', v_batch, 'updated', n_updated);
+END;
+$$;
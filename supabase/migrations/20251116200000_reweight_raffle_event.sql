@@ -0,0 +1,292 @@
+-- Raffle reweight as one set-based server call (was a select per player in
+-- RaffleReweightButton). Each player's value is computed from what they
+-- brought in from the series, never from their own row, so running it twice
+-- gives the same weights; rows already at their value are left alone and no
+-- batch operation is recorded when nothing changes.
+--
+--   winner of any raffle of the event          0
+--   qualified for any raffle of the event      carried in + 1
+--   everyone else                              skipped
+--
+-- A qualified player's row only counts as incremented when it goes up; one
+-- that goes down (what they carried in shrank, e.g. after an earlier event
+-- was rolled back) or only has its carried-in value fixed counts as adjusted.
+--
+-- "Qualified" is the draw's own rule (raffle_qualified_players), so the
+-- summary counts the same players the draw gives entries to.
+
+-- the min_score_for_raffle a raffle for medal_uuid uses (any of the event's
+-- rows when the medal has none, 0 when the event has none)
+CREATE OR REPLACE FUNCTION public.raffle_min_score(event_uuid uuid, medal_uuid uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT min_score_for_raffle
+    FROM public.event_totals
+    WHERE event_id = event_uuid
+    ORDER BY (medal_id = medal_uuid) DESC NULLS LAST, min_score_for_raffle
+    LIMIT 1
+  ), 0);
+$$;
+
+-- players who get entries in a raffle for medal_uuid at event_uuid: a score
+-- at or above the raffle minimum, alts included
+CREATE OR REPLACE FUNCTION public.raffle_qualified_players(event_uuid uuid, medal_uuid uuid)
+RETURNS TABLE (player_id uuid)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.player_id
+  FROM public.scores s
+  WHERE s.event_id = event_uuid
+    AND s.score >= public.raffle_min_score(event_uuid, medal_uuid);
+$$;
+
+-- same pool, qualified through raffle_qualified_players
+CREATE OR REPLACE FUNCTION public.raffle_pool(
+  event_uuid uuid,
+  medal_uuid uuid,
+  formula text,
+  params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (
+  player_id uuid,
+  name text,
+  raw_score numeric(30,0),
+  carryover integer,
+  streak integer,
+  entries bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_min numeric;
+  v_cap bigint;
+  v_event public.events%ROWTYPE;
+  bad jsonb;
+BEGIN
+  IF formula NOT IN ('flat', 'carryover', 'score_tiered', 'log_score', 'participation_streak') THEN
+    RAISE EXCEPTION 'unknown weight formula: %', formula;
+  END IF;
+
+  params := coalesce(params, '{}'::jsonb);
+  IF coalesce(params->>'max_entries', '') !~ '^\d{0,6}$' THEN
+    RAISE EXCEPTION 'max_entries must be a whole number';
+  END IF;
+  v_cap := nullif(nullif(params->>'max_entries', ''), '0')::bigint;
+
+  IF formula = 'score_tiered' THEN
+    IF jsonb_typeof(params->'tiers') <> 'array' OR jsonb_array_length(params->'tiers') = 0 THEN
+      RAISE EXCEPTION 'score_tiered needs at least one tier';
+    END IF;
+    SELECT t INTO bad
+    FROM jsonb_array_elements(params->'tiers') t
+    WHERE coalesce(t->>'min_score', '') !~ '^\d{1,30}$'
+       OR coalesce(t->>'entries', '') !~ '^[1-9]\d{0,5}$'
+    LIMIT 1;
+    IF bad IS NOT NULL THEN
+      RAISE EXCEPTION 'invalid tier: %', bad;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_event FROM public.events WHERE id = event_uuid;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event % not found', event_uuid;
+  END IF;
+
+  v_min := public.raffle_min_score(event_uuid, medal_uuid);
+
+  RETURN QUERY
+  WITH qualified AS (
+    SELECT
+      s.player_id AS pid,
+      coalesce(p.canonical_name, 'Unknown') AS pname,
+      coalesce(s.raw_score, s.score)::numeric(30,0) AS raw,
+      coalesce(c.entries, 0) AS carried
+    FROM public.scores s
+    JOIN public.raffle_qualified_players(event_uuid, medal_uuid) qp ON qp.player_id = s.player_id
+    LEFT JOIN public.players p ON p.id = s.player_id
+    LEFT JOIN public.raffle_carryover(event_uuid) c ON c.player_id = s.player_id
+    WHERE s.event_id = event_uuid
+  ),
+  -- this event and the earlier ones of its series, newest first (same as
+  -- raffle_carryover); events outside a series fall back to the event type
+  history AS (
+    SELECT e.id, row_number() OVER (ORDER BY e.event_date DESC, e.created_at DESC) AS n
+    FROM public.events e
+    WHERE e.deleted_at IS NULL
+      AND CASE
+        WHEN v_event.raffle_series_id IS NOT NULL THEN e.raffle_series_id = v_event.raffle_series_id
+        ELSE e.raffle_series_id IS NULL AND e.event_type IS NOT DISTINCT FROM v_event.event_type
+      END
+      AND (e.event_date, e.created_at) <= (v_event.event_date, v_event.created_at)
+  ),
+  streaks AS (
+    SELECT
+      q.pid,
+      coalesce(
+        (SELECT min(h.n) - 1 FROM history h
+         WHERE NOT EXISTS (SELECT 1 FROM public.scores s2 WHERE s2.event_id = h.id AND s2.player_id = q.pid)),
+        (SELECT count(*) FROM history)
+      )::integer AS played
+    FROM qualified q
+  ),
+  weighted AS (
+    SELECT
+      q.*,
+      st.played,
+      CASE formula
+        WHEN 'flat' THEN 1
+        WHEN 'carryover' THEN 1 + q.carried
+        WHEN 'score_tiered' THEN coalesce((
+          SELECT max((t->>'entries')::bigint)
+          FROM jsonb_array_elements(params->'tiers') t
+          WHERE q.raw >= (t->>'min_score')::numeric
+        ), 1)
+        WHEN 'log_score' THEN
+          1 + floor(log(2::numeric, greatest(q.raw, greatest(v_min, 1)) / greatest(v_min, 1)))::bigint
+        WHEN 'participation_streak' THEN greatest(st.played, 1)
+      END::bigint AS raw_entries
+    FROM qualified q
+    JOIN streaks st ON st.pid = q.pid
+  )
+  SELECT
+    w.pid,
+    w.pname,
+    w.raw,
+    w.carried,
+    w.played,
+    -- the cap only applies to the formulas that can grow without bound
+    CASE WHEN v_cap IS NOT NULL AND formula IN ('log_score', 'participation_streak')
+      THEN least(w.raw_entries, v_cap) ELSE w.raw_entries END
+  FROM weighted w
+  ORDER BY w.pid::text;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.reweight_raffle_event(event_uuid uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_weights jsonb;
+  v_batch uuid;
+  n_incremented integer;
+  n_adjusted integer;
+  n_reset integer;
+  n_unchanged integer;
+  n_skipped integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can change raffle weights';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = event_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'event % not found', event_uuid;
+  END IF;
+
+  -- qualified for any raffle of the event (the event's minimum without one)
+  CREATE TEMP TABLE temp_reweight_qualified ON COMMIT DROP AS
+  SELECT DISTINCT q.player_id
+  FROM (
+    SELECT medal_id FROM public.raffles WHERE event_id = event_uuid
+    UNION
+    SELECT NULL::uuid WHERE NOT EXISTS (SELECT 1 FROM public.raffles WHERE event_id = event_uuid)
+  ) m
+  CROSS JOIN LATERAL public.raffle_qualified_players(event_uuid, m.medal_id) q;
+
+  CREATE TEMP TABLE temp_reweight ON COMMIT DROP AS
+  SELECT
+    s.player_id,
+    NOT EXISTS (SELECT 1 FROM temp_reweight_qualified q WHERE q.player_id = s.player_id) AS skipped,
+    EXISTS (
+      SELECT 1 FROM public.raffle_entries re
+      JOIN public.raffles r ON r.id = re.raffle_id
+      WHERE r.event_id = event_uuid AND re.player_id = s.player_id AND re.is_winner
+    ) AS won,
+    coalesce(c.entries, 0) AS entries_before,
+    rw.entries_before AS current_before,
+    rw.entries_next AS current_next
+  FROM public.scores s
+  LEFT JOIN public.raffle_carryover(event_uuid) c ON c.player_id = s.player_id
+  LEFT JOIN public.raffle_weights rw ON rw.event_id = s.event_id AND rw.player_id = s.player_id
+  WHERE s.event_id = event_uuid;
+
+  IF NOT EXISTS (SELECT 1 FROM temp_reweight) THEN
+    RAISE EXCEPTION 'No scores found for this event';
+  END IF;
+
+  ALTER TABLE temp_reweight ADD COLUMN entries_next integer;
+  UPDATE temp_reweight SET entries_next = CASE WHEN won THEN 0 ELSE entries_before + 1 END;
+
+  ALTER TABLE temp_reweight ADD COLUMN changed boolean;
+  UPDATE temp_reweight
+  SET changed = NOT skipped
+    AND (current_next IS DISTINCT FROM entries_next OR current_before IS DISTINCT FROM entries_before);
+
+  ALTER TABLE temp_reweight ADD COLUMN incremented boolean;
+  UPDATE temp_reweight
+  SET incremented = changed AND NOT won AND entries_next > coalesce(current_next, 0);
+
+  SELECT
+    count(*) FILTER (WHERE incremented),
+    count(*) FILTER (WHERE changed AND NOT won AND NOT incremented),
+    count(*) FILTER (WHERE changed AND won),
+    count(*) FILTER (WHERE NOT skipped AND NOT changed),
+    count(*) FILTER (WHERE skipped)
+  INTO n_incremented, n_adjusted, n_reset, n_unchanged, n_skipped
+  FROM temp_reweight;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'player_id', player_id,
+    'entries_next', entries_next,
+    'reason', CASE
+      WHEN won THEN 'Winner - Reset to 0'
+      WHEN incremented THEN 'Eligible - Incremented'
+      ELSE 'Eligible - Adjusted'
+    END
+  ))
+  INTO v_weights
+  FROM temp_reweight
+  WHERE changed;
+
+  IF v_weights IS NOT NULL THEN
+    -- writes weights + history under one batch operation, logged for rollback
+    v_batch := (public.apply_raffle_weights(event_uuid, v_weights)->>'batch_operation_id')::uuid;
+
+    UPDATE public.batch_operations
+    SET metadata = metadata || jsonb_build_object(
+      'incremented', n_incremented,
+      'adjusted', n_adjusted,
+      'reset', n_reset,
+      'unchanged', n_unchanged,
+      'skipped', n_skipped,
+      'description', format(
+        'Raffle weights: %s incremented, %s adjusted, %s reset, %s unchanged, %s skipped',
+        n_incremented, n_adjusted, n_reset, n_unchanged, n_skipped
+      )
+    )
+    WHERE id = v_batch;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'batch_operation_id', v_batch,
+    'incremented', n_incremented,
+    'adjusted', n_adjusted,
+    'reset', n_reset,
+    'unchanged', n_unchanged,
+    'skipped', n_skipped
+  );
+END;
+$$;
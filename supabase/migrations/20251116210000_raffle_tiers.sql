@@ -0,0 +1,456 @@
+-- Tiered raffles: a raffle has one or more prize tiers (e.g. 1× Gold grand
+-- prize, 5× Silver, 10× Bronze), each with its own medal, prize count and
+-- amount. Tiers are drawn in position order from the same seed; the draw
+-- counter k keeps counting across tiers (algorithm sha256-v2 – a single tier
+-- without repeat wins draws exactly like sha256-v1). With
+-- allow_multiple_wins a player can win once per tier, otherwise once per
+-- raffle. Every prize is posted to ledger_transactions ('raffle_prize')
+-- under the draw's batch operation, so a rollback reverses them, and gets
+-- its own winning raffle_entries row. Tiers are fixed once a raffle has
+-- been drawn: the published draw names them.
+
+ALTER TABLE public.raffles
+  ADD COLUMN IF NOT EXISTS allow_multiple_wins BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.raffle_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  raffle_id UUID NOT NULL REFERENCES public.raffles(id) ON DELETE CASCADE,
+  -- 1 is drawn first
+  position INTEGER NOT NULL CHECK (position > 0),
+  name TEXT NOT NULL,
+  medal_id UUID NOT NULL REFERENCES public.medals(id) ON DELETE CASCADE,
+  prize_count INTEGER NOT NULL CHECK (prize_count > 0),
+  prize_amount INTEGER NOT NULL CHECK (prize_amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (raffle_id, position)
+);
+
+ALTER TABLE public.raffle_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view raffle tiers"
+  ON public.raffle_tiers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins and leaders can manage tiers of undrawn raffles"
+  ON public.raffle_tiers FOR ALL
+  USING (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role))
+    AND NOT EXISTS (SELECT 1 FROM public.raffle_draws d WHERE d.raffle_id = raffle_tiers.raffle_id)
+  )
+  WITH CHECK (
+    (has_role(auth.uid(), 'admin'::app_role) OR has_role(auth.uid(), 'leader'::app_role))
+    AND NOT EXISTS (SELECT 1 FROM public.raffle_draws d WHERE d.raffle_id = raffle_tiers.raffle_id)
+  );
+
+-- the server functions bypass RLS, so the trigger is what keeps drawn tiers
+-- fixed (deleting the whole raffle still cascades)
+CREATE OR REPLACE FUNCTION public.lock_drawn_raffle_tiers()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_raffle uuid := CASE WHEN TG_OP = 'INSERT' THEN NEW.raffle_id ELSE OLD.raffle_id END;
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.raffles WHERE id = v_raffle)
+     AND EXISTS (SELECT 1 FROM public.raffle_draws WHERE raffle_id = v_raffle) THEN
+    RAISE EXCEPTION 'prize tiers of a drawn raffle cannot be changed';
+  END IF;
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+CREATE TRIGGER lock_drawn_raffle_tiers
+  BEFORE INSERT OR UPDATE OR DELETE ON public.raffle_tiers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.lock_drawn_raffle_tiers();
+
+-- existing raffles become one tier of 25M each
+INSERT INTO public.raffle_tiers (raffle_id, position, name, medal_id, prize_count, prize_amount)
+SELECT r.id, 1, r.name, r.medal_id, greatest(r.total_prizes, 1), 25000000
+FROM public.raffles r
+WHERE NOT EXISTS (SELECT 1 FROM public.raffle_tiers t WHERE t.raffle_id = r.id);
+
+-- the tier a winning entry was drawn in. A winner has one entry per prize
+-- (several with allow_multiple_wins), everyone else one entry without a tier.
+ALTER TABLE public.raffle_entries
+  ADD COLUMN IF NOT EXISTS tier_id UUID REFERENCES public.raffle_tiers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.raffle_entries
+  DROP CONSTRAINT IF EXISTS raffle_entries_raffle_id_player_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS raffle_entries_raffle_player_tier_idx
+  ON public.raffle_entries (raffle_id, player_id, coalesce(tier_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+-- existing winners won the single tier their raffle was given above
+UPDATE public.raffle_entries e
+SET tier_id = t.id
+FROM public.raffle_tiers t
+WHERE t.raffle_id = e.raffle_id AND e.is_winner AND e.tier_id IS NULL;
+
+ALTER TABLE public.raffle_draws
+  -- [{ tier_id, position, name, medal_id, prize_count, prize_amount }]
+  ADD COLUMN IF NOT EXISTS tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS allow_multiple_wins BOOLEAN NOT NULL DEFAULT false;
+
+-- Raffle and tiers in one go.
+-- tiers: [{ name, medal_id, prize_count, prize_amount }] in draw order
+CREATE OR REPLACE FUNCTION public.create_raffle(
+  event_uuid uuid,
+  raffle_name text,
+  tiers jsonb,
+  weight_formula text DEFAULT 'carryover',
+  weight_params jsonb DEFAULT '{}'::jsonb,
+  allow_multiple_wins boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  bad jsonb;
+  v_raffle uuid;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+  IF coalesce(trim(raffle_name), '') = '' THEN
+    RAISE EXCEPTION 'raffle name is required';
+  END IF;
+  IF jsonb_typeof(tiers) <> 'array' OR jsonb_array_length(tiers) = 0 THEN
+    RAISE EXCEPTION 'a raffle needs at least one prize tier';
+  END IF;
+
+  SELECT t INTO bad
+  FROM jsonb_array_elements(tiers) t
+  WHERE coalesce(trim(t->>'name'), '') = ''
+     OR coalesce(t->>'prize_count', '') !~ '^[1-9]\d{0,4}$'
+     OR coalesce(t->>'prize_amount', '') !~ '^[1-9]\d{0,8}$'
+     OR NOT EXISTS (SELECT 1 FROM public.medals m WHERE m.id::text = t->>'medal_id')
+  LIMIT 1;
+  IF bad IS NOT NULL THEN
+    RAISE EXCEPTION 'invalid prize tier: %', bad;
+  END IF;
+
+  -- raffles.medal_id / total_prizes stay filled for older readers: the first
+  -- tier's medal and the prize count over all tiers
+  INSERT INTO public.raffles (
+    event_id, name, medal_id, total_prizes, weight_formula, weight_params, allow_multiple_wins, created_by
+  )
+  SELECT
+    event_uuid,
+    trim(raffle_name),
+    (tiers->0->>'medal_id')::uuid,
+    (SELECT sum((t->>'prize_count')::integer) FROM jsonb_array_elements(tiers) t),
+    weight_formula,
+    coalesce(weight_params, '{}'::jsonb),
+    allow_multiple_wins,
+    actor
+  RETURNING id INTO v_raffle;
+
+  INSERT INTO public.raffle_tiers (raffle_id, position, name, medal_id, prize_count, prize_amount)
+  SELECT
+    v_raffle,
+    t.ord::integer,
+    trim(t.tier->>'name'),
+    (t.tier->>'medal_id')::uuid,
+    (t.tier->>'prize_count')::integer,
+    (t.tier->>'prize_amount')::integer
+  FROM jsonb_array_elements(tiers) WITH ORDINALITY AS t(tier, ord);
+
+  RETURN v_raffle;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.draw_raffle(uuid, numeric);
+
+CREATE OR REPLACE FUNCTION public.draw_raffle(raffle_uuid uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor uuid := auth.uid();
+  v_raffle public.raffles%ROWTYPE;
+  v_seed public.raffle_seeds%ROWTYPE;
+  v_tier public.raffle_tiers%ROWTYPE;
+  v_batch uuid;
+  v_total bigint;
+  v_pick bigint;
+  v_hash text;
+  v_winner uuid;
+  v_pool jsonb;
+  v_tiers jsonb;
+  v_winners jsonb;
+  v_draw uuid;
+  n_prizes integer;
+  n_winners integer;
+  k integer := 0;
+  i integer;
+BEGIN
+  IF NOT (has_role(actor, 'admin'::app_role) OR has_role(actor, 'leader'::app_role)) THEN
+    RAISE EXCEPTION 'only admins and leaders can run raffles';
+  END IF;
+
+  SELECT * INTO v_raffle FROM public.raffles WHERE id = raffle_uuid FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'raffle % not found', raffle_uuid;
+  END IF;
+  IF v_raffle.status <> 'pending' THEN
+    RAISE EXCEPTION 'raffle has already been drawn';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.raffle_tiers WHERE raffle_id = raffle_uuid) THEN
+    RAISE EXCEPTION 'raffle has no prize tiers';
+  END IF;
+
+  -- a rolled back raffle is redrawn with the seed committed before its first draw
+  SELECT * INTO v_seed FROM public.raffle_seeds
+  WHERE raffle_id = raffle_uuid
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'commit a seed before drawing';
+  END IF;
+
+  PERFORM 1 FROM public.events WHERE id = v_raffle.event_id FOR UPDATE;
+
+  -- entries from the raffle's formula, in a fixed order
+  CREATE TEMP TABLE temp_raffle_pool ON COMMIT DROP AS
+  SELECT
+    row_number() OVER (ORDER BY r.player_id::text) AS ord,
+    r.player_id,
+    r.name,
+    r.entries,
+    r.carryover,
+    -- already won another raffle of this event
+    EXISTS (
+      SELECT 1 FROM public.raffle_entries re
+      JOIN public.raffles o ON o.id = re.raffle_id
+      WHERE o.event_id = v_raffle.event_id AND re.player_id = r.player_id AND re.is_winner
+    ) AS won_earlier
+  FROM public.raffle_pool(v_raffle.event_id, v_raffle.medal_id, v_raffle.weight_formula, v_raffle.weight_params) r;
+
+  IF NOT EXISTS (SELECT 1 FROM temp_raffle_pool) THEN
+    RAISE EXCEPTION 'No qualified players for this event';
+  END IF;
+
+  CREATE TEMP TABLE temp_raffle_wins (
+    seq integer PRIMARY KEY,
+    tier_id uuid NOT NULL,
+    player_id uuid NOT NULL
+  ) ON COMMIT DROP;
+
+  FOR v_tier IN
+    SELECT * FROM public.raffle_tiers WHERE raffle_id = raffle_uuid ORDER BY position
+  LOOP
+    FOR i IN 1 .. v_tier.prize_count LOOP
+      -- still in the running: not yet won in this tier (or in this raffle)
+      SELECT coalesce(sum(p.entries), 0) INTO v_total
+      FROM temp_raffle_pool p
+      WHERE NOT EXISTS (
+        SELECT 1 FROM temp_raffle_wins w
+        WHERE w.player_id = p.player_id AND (NOT v_raffle.allow_multiple_wins OR w.tier_id = v_tier.id)
+      );
+      EXIT WHEN v_total = 0;
+
+      v_hash := encode(sha256(convert_to(v_seed.seed || ':' || k, 'UTF8')), 'hex');
+      v_pick := ('x' || lpad(substr(v_hash, 1, 15), 16, '0'))::bit(64)::bigint % v_total;
+
+      SELECT c.player_id INTO v_winner
+      FROM (
+        SELECT p.player_id, p.ord, sum(p.entries) OVER (ORDER BY p.ord) AS running
+        FROM temp_raffle_pool p
+        WHERE NOT EXISTS (
+          SELECT 1 FROM temp_raffle_wins w
+          WHERE w.player_id = p.player_id AND (NOT v_raffle.allow_multiple_wins OR w.tier_id = v_tier.id)
+        )
+      ) c
+      WHERE c.running > v_pick
+      ORDER BY c.ord
+      LIMIT 1;
+
+      INSERT INTO temp_raffle_wins (seq, tier_id, player_id) VALUES (k, v_tier.id, v_winner);
+      k := k + 1;
+    END LOOP;
+  END LOOP;
+
+  SELECT jsonb_agg(jsonb_build_object('player_id', player_id, 'name', name, 'entries', entries) ORDER BY ord)
+  INTO v_pool
+  FROM temp_raffle_pool;
+
+  SELECT jsonb_agg(jsonb_build_object(
+    'tier_id', t.id, 'position', t.position, 'name', t.name, 'medal_id', t.medal_id,
+    'prize_count', t.prize_count, 'prize_amount', t.prize_amount
+  ) ORDER BY t.position)
+  INTO v_tiers
+  FROM public.raffle_tiers t
+  WHERE t.raffle_id = raffle_uuid;
+
+  SELECT
+    coalesce(jsonb_agg(jsonb_build_object(
+      'player_id', w.player_id, 'name', p.name, 'entries', p.entries,
+      'tier_id', t.id, 'tier_name', t.name, 'medal_id', t.medal_id, 'prize_amount', t.prize_amount
+    ) ORDER BY w.seq), '[]'::jsonb),
+    count(*),
+    count(DISTINCT w.player_id)
+  INTO v_winners, n_prizes, n_winners
+  FROM temp_raffle_wins w
+  JOIN temp_raffle_pool p ON p.player_id = w.player_id
+  JOIN public.raffle_tiers t ON t.id = w.tier_id;
+
+  INSERT INTO public.batch_operations (operation_type, event_id, metadata, created_by)
+  VALUES (
+    'raffle_draw',
+    v_raffle.event_id,
+    jsonb_build_object(
+      'raffle_id', raffle_uuid,
+      'raffle_name', v_raffle.name,
+      'total_prizes', v_raffle.total_prizes,
+      'prizes_drawn', n_prizes,
+      'winners_count', n_winners,
+      'winners', (SELECT jsonb_agg(w->>'name') FROM jsonb_array_elements(v_winners) w),
+      'player_count', (SELECT count(*) FROM temp_raffle_pool),
+      'weight_formula', v_raffle.weight_formula,
+      'description', format('%s drawn: %s prize(s) to %s winner(s), seed %s',
+        v_raffle.name, n_prizes, n_winners, left(v_seed.seed_hash, 12))
+    ),
+    actor
+  )
+  RETURNING id INTO v_batch;
+
+  -- one winning entry per prize (matching the ledger rows below), one plain
+  -- entry for everyone who won nothing
+  WITH ins AS (
+    INSERT INTO public.raffle_entries (raffle_id, player_id, weight, is_winner, prize_amount, tier_id, batch_operation_id)
+    SELECT raffle_uuid, w.player_id, p.entries, true, t.prize_amount, t.id, v_batch
+    FROM temp_raffle_wins w
+    JOIN temp_raffle_pool p ON p.player_id = w.player_id
+    JOIN public.raffle_tiers t ON t.id = w.tier_id
+    UNION ALL
+    SELECT raffle_uuid, p.player_id, p.entries, false, NULL, NULL, v_batch
+    FROM temp_raffle_pool p
+    WHERE NOT EXISTS (SELECT 1 FROM temp_raffle_wins w WHERE w.player_id = p.player_id)
+    RETURNING raffle_entries.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries', ins.id, 'insert', NULL, to_jsonb(ins) FROM ins;
+
+  -- prizes go straight to the ledger; rollback reverses them by batch
+  INSERT INTO public.ledger_transactions (
+    player_id, medal_id, amount, transaction_type, event_id, raffle_id, description, created_by, batch_operation_id
+  )
+  SELECT
+    w.player_id, t.medal_id, t.prize_amount, 'raffle_prize', v_raffle.event_id, raffle_uuid,
+    format('Raffle prize: %s – %s', v_raffle.name, t.name), actor, v_batch
+  FROM temp_raffle_wins w
+  JOIN public.raffle_tiers t ON t.id = w.tier_id
+  ORDER BY w.seq;
+
+  -- winners start over, everyone else who qualified carries one more entry
+  CREATE TEMP TABLE temp_raffle_weights_before ON COMMIT DROP AS
+  SELECT rw.* FROM public.raffle_weights rw
+  JOIN temp_raffle_pool t ON t.player_id = rw.player_id
+  WHERE rw.event_id = v_raffle.event_id;
+
+  CREATE TEMP TABLE temp_raffle_outcome ON COMMIT DROP AS
+  SELECT
+    p.player_id,
+    p.carryover,
+    (p.won_earlier OR EXISTS (SELECT 1 FROM temp_raffle_wins w WHERE w.player_id = p.player_id)) AS won
+  FROM temp_raffle_pool p;
+
+  WITH up AS (
+    INSERT INTO public.raffle_weights (event_id, player_id, entries_before, entries_next, updated_by, last_updated)
+    SELECT v_raffle.event_id, o.player_id, o.carryover,
+           CASE WHEN o.won THEN 0 ELSE o.carryover + 1 END, actor, now()
+    FROM temp_raffle_outcome o
+    ON CONFLICT (player_id, event_id)
+    DO UPDATE SET
+      entries_before = excluded.entries_before,
+      entries_next = excluded.entries_next,
+      updated_by = excluded.updated_by,
+      last_updated = excluded.last_updated
+    RETURNING raffle_weights.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT
+    v_batch, 'raffle_weights', up.id,
+    CASE WHEN b.id IS NULL THEN 'insert' ELSE 'update' END,
+    CASE WHEN b.id IS NULL THEN NULL ELSE to_jsonb(b) END,
+    to_jsonb(up)
+  FROM up
+  LEFT JOIN temp_raffle_weights_before b ON b.id = up.id;
+
+  WITH hist AS (
+    INSERT INTO public.raffle_entries_history (event_id, player_id, entries_before, entries_after, reason, created_by)
+    SELECT v_raffle.event_id, player_id, carryover,
+           CASE WHEN won THEN 0 ELSE carryover + 1 END,
+           CASE WHEN won THEN 'won_raffle_reset' ELSE 'missed_raffle_but_qualified' END,
+           actor
+    FROM temp_raffle_outcome
+    RETURNING raffle_entries_history.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffle_entries_history', hist.id, 'insert', NULL, to_jsonb(hist) FROM hist;
+
+  -- raffle prizes come out of each medal's event pot before the weighted distribution
+  WITH used AS (
+    SELECT t.medal_id, sum(t.prize_amount) AS amount
+    FROM temp_raffle_wins w
+    JOIN public.raffle_tiers t ON t.id = w.tier_id
+    GROUP BY t.medal_id
+  ),
+  old AS (
+    SELECT et.* FROM public.event_totals et
+    JOIN used u ON u.medal_id = et.medal_id
+    WHERE et.event_id = v_raffle.event_id
+    FOR UPDATE OF et
+  ),
+  upd AS (
+    UPDATE public.event_totals t
+    SET raffle_amount_used = coalesce(t.raffle_amount_used, 0) + u.amount
+    FROM old, used u
+    WHERE t.id = old.id AND u.medal_id = old.medal_id
+    RETURNING t.*
+  )
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'event_totals', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  WITH old AS (
+    SELECT * FROM public.raffles WHERE id = raffle_uuid
+  ),
+  upd AS (
+    UPDATE public.raffles t
+    SET status = 'completed', drawn_at = now()
+    FROM old WHERE t.id = old.id
+    RETURNING t.*
+  )
+  -- a rollback returns the raffle to pending with its committed seed
+  INSERT INTO public.batch_operation_changes (batch_operation_id, table_name, row_id, action, old_row, new_row)
+  SELECT v_batch, 'raffles', upd.id, 'update', to_jsonb(old), to_jsonb(upd)
+  FROM upd JOIN old ON old.id = upd.id;
+
+  UPDATE public.raffle_seeds SET revealed_at = coalesce(revealed_at, now()) WHERE id = v_seed.id;
+
+  INSERT INTO public.raffle_draws (
+    raffle_id, batch_operation_id, algorithm, seed, seed_hash, seed_committed_at,
+    pool, tiers, allow_multiple_wins, winners, total_prizes, weight_formula, weight_params, drawn_by
+  )
+  VALUES (
+    raffle_uuid, v_batch, 'sha256-v2', v_seed.seed, v_seed.seed_hash, v_seed.committed_at,
+    v_pool, v_tiers, v_raffle.allow_multiple_wins, v_winners, v_raffle.total_prizes,
+    v_raffle.weight_formula, v_raffle.weight_params, actor
+  )
+  RETURNING id INTO v_draw;
+
+  RETURN jsonb_build_object(
+    'draw_id', v_draw,
+    'batch_operation_id', v_batch,
+    'winners', v_winners,
+    'seed', v_seed.seed,
+    'seed_hash', v_seed.seed_hash
+  );
+END;
+$$;
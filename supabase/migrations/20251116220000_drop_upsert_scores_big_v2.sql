@@ -0,0 +1,4 @@
+-- Scores are written through commit_score_import only, which records every
+-- change in batch_operation_changes so the import can be rolled back. The old
+-- bulk upsert bypassed that log and has no callers left.
+DROP FUNCTION IF EXISTS public.upsert_scores_big_v2(jsonb);